@@ -1,11 +1,11 @@
 /**
  * Chart Notes Plugin
  * 
- * Main plugin entry point. Integrates with Obsidian Bases to provide
- * chart visualization capabilities from note properties.
+ * Main plugin entry point. Integrates with Obsidian Bases and ```chartnotes
+ * code blocks to provide chart visualization capabilities from note properties.
  */
 
-import { App, Plugin, PluginManifest, TFile } from "obsidian";
+import { App, Plugin, PluginManifest, TFile, debounce } from "obsidian";
 import {
 	CHARTNOTES_BASES_VIEW_TYPE,
 	ChartNotesBasesView,
@@ -13,44 +13,80 @@ import {
 import { PropChartsIndexer } from "./src/indexer";
 import { PropChartsQueryEngine } from "./src/query";
 import { PropChartsRenderer } from "./src/renderer";
+import { CHARTNOTES_CODE_BLOCK, ChartNotesCodeBlock } from "./src/code-block";
+import {
+	DEFAULT_SETTINGS,
+	PropChartsSettingTab,
+	chartDefaultsFromSettings,
+	exportOptionsFromSettings,
+} from "./src/settings";
+import type { PropChartsSettings } from "./src/settings";
+import { getChartDefaults, setChartDefaults } from "./src/renderer/renderer-common";
+import { setExportOptions } from "./src/chart-export";
+
+/** Delay before rebuilding the index after a settings change (typing in a text field) */
+const REINDEX_DELAY_MS = 1000;
 
 export default class ChartNotesPlugin extends Plugin {
+	settings!: PropChartsSettings;
 	private indexer!: PropChartsIndexer;
 	private query!: PropChartsQueryEngine;
 	private renderer!: PropChartsRenderer;
 
+	/** Rebuilds the index once settings stop changing */
+	requestReindex = debounce(
+		() => {
+			void this.indexer?.buildIndex();
+		},
+		REINDEX_DELAY_MS,
+		true,
+	);
+
 	constructor(app: App, manifest: PluginManifest) {
 		super(app, manifest);
 	}
 
 	async onload() {
-		console.log("Chart Notes: loading plugin (Bases-only)");
+		console.log("Chart Notes: loading plugin");
 
-		// Indexer
-		this.indexer = new PropChartsIndexer(this.app);
-		await this.indexer.buildIndex();
+		// Settings
+		await this.loadSettings();
+		this.addSettingTab(new PropChartsSettingTab(this.app, this));
+
+		// Indexer (built once the workspace is ready, so it doesn't delay startup)
+		this.indexer = new PropChartsIndexer(this.app, () => this.settings);
+		this.app.workspace.onLayoutReady(() => {
+			void this.indexer.buildIndex();
+		});
 
 		this.query = new PropChartsQueryEngine(
 			() => this.indexer.getAll(),
-			[],
+			() => getChartDefaults().weekStart,
 		);
 
-		// Shared renderer (Bases-only now)
+		// Shared renderer (Bases views and code blocks)
 		this.renderer = new PropChartsRenderer();
 
-		// Incremental index updates
+		// Incremental index updates (metadataCache already parsed the note,
+		// so new and modified files don't need to be read again)
 		this.registerEvent(
-			this.app.vault.on("modify", async (file) => {
-				if (file instanceof TFile) {
-					await this.indexer.updateFile(file);
-				}
+			this.app.metadataCache.on("changed", async (file, data, cache) => {
+				await this.indexer.updateFile(file, cache, data);
 			}),
 		);
 
+		// On a cold start or a cache rebuild some notes are indexed before the
+		// metadata cache has them: read those again once it is resolved
 		this.registerEvent(
-			this.app.vault.on("create", async (file) => {
+			this.app.metadataCache.on("resolved", async () => {
+				await this.indexer.onCacheResolved();
+			}),
+		);
+
+		this.registerEvent(
+			this.app.vault.on("rename", async (file, oldPath) => {
 				if (file instanceof TFile) {
-					await this.indexer.updateFile(file);
+					await this.indexer.renameFile(file, oldPath);
 				}
 			}),
 		);
@@ -63,6 +99,26 @@ export default class ChartNotesPlugin extends Plugin {
 			}),
 		);
 
+		// =================================================================
+		// Code Block Processor (```chartnotes)
+		// =================================================================
+		this.registerMarkdownCodeBlockProcessor(
+			CHARTNOTES_CODE_BLOCK,
+			(source, el, ctx) => {
+				ctx.addChild(
+					new ChartNotesCodeBlock(
+						el,
+						source,
+						ctx.sourcePath,
+						this.app,
+						this.indexer,
+						this.query,
+						this.renderer,
+					),
+				);
+			},
+		);
+
 		// =================================================================
 		// Bases View Registration (Obsidian 1.10+)
 		// =================================================================
@@ -90,6 +146,7 @@ export default class ChartNotesPlugin extends Plugin {
 						scatter: "Scatter",
 						gantt: "Gantt",
 						metric: "Indicator",
+						table: "Table (pivot)",
 					} as Record<string, string>,
 				} as any);
 
@@ -99,13 +156,37 @@ export default class ChartNotesPlugin extends Plugin {
 					key: "xProperty",
 					displayName: "X axis / category (bars & slices)",
 					description:
-						"Property used for the X axis or categories (for pie, this is the slice).",
+						"Property used for the X axis or categories (for pie, this is the slice; for tables, the rows).",
 					shouldHide: (config: any) => {
 						const chartType = String(config.get("chartType") ?? "bar");
 						return chartType === "gantt" || chartType === "metric";
 					},
 				} as any);
 
+				// Date grouping for X (only applies when X values are dates)
+				opts.push({
+					type: "dropdown",
+					key: "xBucket",
+					displayName: "Date grouping",
+					description:
+						"How to group date values on the X axis.\n" +
+						"Auto picks day, week, month, quarter or year from the date span. Empty periods are shown as zero.",
+					default: "auto",
+					options: {
+						auto: "Auto",
+						none: "None (raw values)",
+						day: "Day",
+						week: "Week",
+						month: "Month",
+						quarter: "Quarter",
+						year: "Year",
+					} as Record<string, string>,
+					shouldHide: (config: any) => {
+						const chartType = String(config.get("chartType") ?? "bar");
+						return chartType === "pie" || chartType === "scatter" || chartType === "gantt" || chartType === "metric";
+					},
+				} as any);
+
 				// Gantt-specific label (optional – if empty uses note title)
 				opts.push({
 					type: "property",
@@ -123,10 +204,11 @@ export default class ChartNotesPlugin extends Plugin {
 					key: "yProperty",
 					displayName: "Y value (empty = count)",
 					description:
-						"Numeric property summed on the Y axis.\nLeave empty to just count notes.",
+						"Numeric property aggregated on the Y axis (or slice size for pie).\n" +
+						"Leave empty to just count notes.",
 					shouldHide: (config: any) => {
 						const chartType = String(config.get("chartType") ?? "bar");
-						return chartType === "pie" || chartType === "gantt" || chartType === "metric";
+						return chartType === "gantt" || chartType === "metric";
 					},
 				} as any);
 
@@ -136,13 +218,23 @@ export default class ChartNotesPlugin extends Plugin {
 					key: "seriesProperty",
 					displayName: "Series / color (optional)",
 					description:
-						"Property that defines series / color for bars, lines and stacked area.",
+						"Property that defines series / color for bars, lines and stacked area.\nFor tables, each series becomes a column.",
 					shouldHide: (config: any) => {
 						const chartType = String(config.get("chartType") ?? "bar");
 						return chartType === "pie" || chartType === "metric";
 					},
 				} as any);
 
+				opts.push({
+					type: "property",
+					key: "sizeProperty",
+					displayName: "Size (bubble, optional)",
+					description:
+						"Numeric property that sets the area of each point, e.g. estimated hours.\nTurns the scatter plot into a bubble chart with a size legend.",
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "scatter",
+				} as any);
+
 				// Value aggregation (Y) – how to combine multiple notes with same X/series
 				opts.push({
 					type: "dropdown",
@@ -150,12 +242,19 @@ export default class ChartNotesPlugin extends Plugin {
 					displayName: "Value aggregation (Y)",
 					description:
 						"How to aggregate Y when multiple notes share the same X/series.\n" +
-						"For line/stacked-area, 'Cumulative sum' turns the series into a running total.",
+						"For line/stacked-area, 'Cumulative sum' turns the series into a running total.\n" +
+						"'Count distinct' counts the different values of Y (e.g. distinct assignees).",
 					default: "sum",
 					options: {
 						sum: "Sum",
 						count: "Count (ignore Y)",
 						"cumulative-sum": "Cumulative sum",
+						avg: "Average",
+						min: "Minimum",
+						max: "Maximum",
+						median: "Median",
+						percentile: "Percentile",
+						"count-distinct": "Count distinct",
 					} as Record<string, string>,
 					shouldHide: (config: any) => {
 						const chartType = String(config.get("chartType") ?? "bar");
@@ -166,6 +265,138 @@ export default class ChartNotesPlugin extends Plugin {
 					},
 				} as any);
 
+				opts.push({
+					type: "slider",
+					key: "aggregatePercentile",
+					displayName: "Percentile",
+					description: "Percentile used by the 'Percentile' aggregation (e.g. 90 = p90).",
+					default: 90,
+					min: 1,
+					max: 99,
+					step: 1,
+					shouldHide: (config: any) => {
+						const chartType = String(config.get("chartType") ?? "bar");
+						if (chartType === "scatter" || chartType === "gantt" || chartType === "stacked-bar" || chartType === "metric") return true;
+						return String(config.get("aggregateMode") ?? "sum") !== "percentile";
+					},
+				} as any);
+
+				// Smoothing (line / stacked-area)
+				opts.push({
+					type: "dropdown",
+					key: "rollingMode",
+					displayName: "Smoothing (line & area)",
+					description:
+						"Moving-window transform applied to each series after aggregation.",
+					default: "none",
+					options: {
+						none: "None",
+						avg: "Rolling average",
+						sum: "Rolling sum",
+						ema: "Exponential moving average",
+					} as Record<string, string>,
+					shouldHide: (config: any) => {
+						const chartType = String(config.get("chartType") ?? "bar");
+						return chartType !== "line" && chartType !== "stacked-area";
+					},
+				} as any);
+
+				opts.push({
+					type: "text",
+					key: "rollingWindow",
+					displayName: "Smoothing window",
+					description:
+						"Window size: a number of points (e.g. 7) or of days (e.g. 7d).\n" +
+						"For EMA, this is the span.",
+					default: "7",
+					shouldHide: (config: any) => {
+						const chartType = String(config.get("chartType") ?? "bar");
+						if (chartType !== "line" && chartType !== "stacked-area") return true;
+						return String(config.get("rollingMode") ?? "none") === "none";
+					},
+				} as any);
+
+				opts.push({
+					type: "toggle",
+					key: "showRawSeries",
+					displayName: "Show raw values behind smoothing",
+					default: false,
+					shouldHide: (config: any) => {
+						const chartType = String(config.get("chartType") ?? "bar");
+						if (chartType !== "line" && chartType !== "stacked-area") return true;
+						return String(config.get("rollingMode") ?? "none") === "none";
+					},
+				} as any);
+
+				opts.push({
+					type: "dropdown",
+					key: "comparePeriod",
+					displayName: "Compare with previous period",
+					description:
+						"Dashed overlay of each series one period earlier; tooltips show the change.\n" +
+						"Previous bucket follows the date grouping (e.g. last week for weekly groups).",
+					default: "none",
+					options: {
+						none: "None",
+						previous: "Previous bucket",
+						week: "Last week",
+						month: "Last month",
+						quarter: "Last quarter",
+						year: "Last year",
+					} as Record<string, string>,
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "line",
+				} as any);
+
+				// Annotations (bar & line)
+				const hideAnnotations = (config: any) =>
+					!["bar", "stacked-bar", "line", "stacked-area"].includes(
+						String(config.get("chartType") ?? "bar")
+					);
+
+				opts.push({
+					type: "text",
+					key: "referenceLines",
+					displayName: "Reference lines",
+					description:
+						"Horizontal target / limit lines: value then label, separated by ;\n" +
+						"e.g. 40 Target; 60 SLA limit #d9534f",
+					default: "",
+					shouldHide: hideAnnotations,
+				} as any);
+
+				opts.push({
+					type: "text",
+					key: "valueBands",
+					displayName: "Value bands",
+					description:
+						"Shaded value ranges, separated by ;\n" +
+						"e.g. 0..20 Low; 80.. Overload #ff6b6b",
+					default: "",
+					shouldHide: hideAnnotations,
+				} as any);
+
+				opts.push({
+					type: "text",
+					key: "dateAnnotations",
+					displayName: "Date annotations",
+					description:
+						"Vertical markers on dates, separated by ;\n" +
+						"e.g. 2026-03-01 Release 2.0",
+					default: "",
+					shouldHide: hideAnnotations,
+				} as any);
+
+				opts.push({
+					type: "property",
+					key: "annotationProperty",
+					displayName: "Annotation date (from notes)",
+					description:
+						"Notes in this view with this date become markers named after the note.\n" +
+						"If empty, uses the annotation property.",
+					shouldHide: hideAnnotations,
+				} as any);
+
 				// Gantt-specific options
 				opts.push({
 					type: "property",
@@ -204,6 +435,170 @@ export default class ChartNotesPlugin extends Plugin {
 						String(config.get("chartType") ?? "bar") !== "gantt",
 				} as any);
 
+				opts.push({
+					type: "property",
+					key: "dependsOnProperty",
+					displayName: "Depends on (Gantt, optional)",
+					description:
+						"List of links to the tasks that must finish first.\nDraws finish-to-start arrows and warns when a task starts too early.",
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "gantt",
+				} as any);
+
+				opts.push({
+					type: "property",
+					key: "progressProperty",
+					displayName: "Progress (Gantt, optional)",
+					description:
+						"Percent complete, filled inside each bar.\nAccepts 0–100, 40% or done/total like 3/5.",
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "gantt",
+				} as any);
+
+				opts.push({
+					type: "property",
+					key: "milestoneProperty",
+					displayName: "Milestone flag (Gantt, optional)",
+					description:
+						"Checkbox marking milestones, drawn as diamonds.\nTasks whose start equals their end are always milestones.",
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "gantt",
+				} as any);
+
+				opts.push({
+					type: "property",
+					key: "baselineStartProperty",
+					displayName: "Baseline start (Gantt, optional)",
+					description:
+						"Planned start date, e.g. plannedStart.\nDrawn as a thin ghost bar under the task.",
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "gantt",
+				} as any);
+
+				opts.push({
+					type: "property",
+					key: "baselineEndProperty",
+					displayName: "Baseline end (Gantt, optional)",
+					description:
+						"Planned end date, e.g. plannedEnd.\nTasks ending after it are counted as late.",
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "gantt",
+				} as any);
+
+				opts.push({
+					type: "toggle",
+					key: "ganttCriticalPath",
+					displayName: "Highlight critical path",
+					description: "Highlights the longest chain of dependent tasks.",
+					default: false,
+					shouldHide: (config: any) => {
+						if (String(config.get("chartType") ?? "bar") !== "gantt") return true;
+						const dependsOn = config.get("dependsOnProperty") as string | undefined;
+						return !dependsOn || dependsOn.trim() === "";
+					},
+				} as any);
+
+				opts.push({
+					type: "dropdown",
+					key: "ganttTimeScale",
+					displayName: "Time scale (Gantt)",
+					description:
+						"Header cells: hours, days, weeks, months or quarters.\nAuto follows the zoom.",
+					default: "auto",
+					options: {
+						auto: "Auto",
+						hour: "Hours",
+						day: "Days",
+						week: "Weeks",
+						month: "Months",
+						quarter: "Quarters",
+					} as Record<string, string>,
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "gantt",
+				} as any);
+
+				opts.push({
+					type: "text",
+					key: "ganttNonWorkingDays",
+					displayName: "Non-working days (Gantt)",
+					description:
+						"Shaded columns: weekday names and YYYY-MM-DD dates, e.g. \"sat, sun, 2026-12-25\".\nEmpty = weekends, \"none\" = no shading.",
+					default: "",
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "gantt",
+				} as any);
+
+				opts.push({
+					type: "toggle",
+					key: "ganttLoadPanel",
+					displayName: "Show load histogram (Gantt)",
+					description:
+						"Sums the work of each lane (Bases group) per time cell under the chart.\nUses the duration property when set, full-time otherwise.",
+					default: false,
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "gantt",
+				} as any);
+
+				opts.push({
+					type: "text",
+					key: "ganttCapacity",
+					displayName: "Daily capacity per lane",
+					description: "Cells above it are red, e.g. 8h, 6.5h or 390m.",
+					default: "8h",
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "gantt" ||
+						config.get("ganttLoadPanel") !== true,
+				} as any);
+
+				// Scatter fits
+				opts.push({
+					type: "dropdown",
+					key: "scatterTrendline",
+					displayName: "Trendline (scatter)",
+					description: "Least-squares fit drawn over the points, with its equation and R² in the legend.",
+					default: "none",
+					options: {
+						none: "None",
+						linear: "Linear",
+						log: "Logarithmic",
+						poly2: "Polynomial (degree 2)",
+						poly3: "Polynomial (degree 3)",
+					} as Record<string, string>,
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "scatter",
+				} as any);
+
+				opts.push({
+					type: "toggle",
+					key: "scatterIdentityLine",
+					displayName: "Show y = x line",
+					description: "Dashed reference where X equals Y, e.g. estimate vs. actual.",
+					default: false,
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "scatter",
+				} as any);
+
+				opts.push({
+					type: "toggle",
+					key: "scatterOutliers",
+					displayName: "Highlight outliers",
+					description:
+						"Rings points far from the trendline (or from the average without one).\nClick the legend entry to list their notes.",
+					default: false,
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "scatter",
+				} as any);
+
+				opts.push({
+					type: "text",
+					key: "scatterOutlierSigma",
+					displayName: "Outlier threshold (standard deviations)",
+					default: "2",
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "scatter" ||
+						config.get("scatterOutliers") !== true,
+				} as any);
+
 				// Drilldown
 				opts.push({
 					type: "toggle",
@@ -226,6 +621,51 @@ export default class ChartNotesPlugin extends Plugin {
 				// Metric/Indicator Widget Configuration
 				// =================================================================
 
+				// One metric, a formula, or a grid of several (KPI cards)
+				const metricMode = (config: any) => String(config.get("metricMode") ?? "single");
+				const isMetricGrid = (config: any) =>
+					String(config.get("chartType") ?? "bar") === "metric" && metricMode(config) === "grid";
+				const isMetricFormula = (config: any) =>
+					String(config.get("chartType") ?? "bar") === "metric" && metricMode(config) === "formula";
+
+				opts.push({
+					type: "dropdown",
+					key: "metricMode",
+					displayName: "Indicator mode",
+					description: "Show one metric, a formula over several aggregates, or a grid of several metrics in this view.",
+					default: "single",
+					options: {
+						single: "One metric",
+						formula: "Formula (ratio, percent...)",
+						grid: "Several metrics (KPI grid)",
+					} as Record<string, string>,
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "metric",
+				} as any);
+
+				opts.push({
+					type: "text",
+					key: "metricFormula",
+					displayName: "Formula",
+					description:
+						"Arithmetic over count(), filled(p), sum(p), avg(p), min(p), max(p), distinct(p), each with an optional where filter.\n" +
+						"Name parts first, separated by ; e.g. done = count(where status = done); total = count(); done / total * 100",
+					shouldHide: (config: any) => !isMetricFormula(config),
+				} as any);
+
+				opts.push({
+					type: "text",
+					key: "metricCards",
+					displayName: "KPI cards",
+					description:
+						"One card per line (or separated by ;): Label | property | operation | filter | color rules | trend direction\n" +
+						"Operations: count, filled, sum, avg, min, max, oldest, newest, range. The filter uses the where syntax.\n" +
+						"For a formula, write it after = in place of the property (it runs to the end of the line): Done | = count(where status = done) / count() * 100\n" +
+						"Color rules and the trend direction (up-good, up-bad, neutral) are optional and only apply to their card.\n" +
+						"e.g., Open tasks | | count | status = open | > 5 red; else green | up-bad",
+					shouldHide: (config: any) => !isMetricGrid(config),
+				} as any);
+
 				// Section 1: What to Measure
 				opts.push({
 					type: "property",
@@ -234,7 +674,7 @@ export default class ChartNotesPlugin extends Plugin {
 					description:
 						"Property to measure.\nLeave empty to count all notes in this view.",
 					shouldHide: (config: any) =>
-						String(config.get("chartType") ?? "bar") !== "metric",
+						String(config.get("chartType") ?? "bar") !== "metric" || metricMode(config) !== "single",
 				} as any);
 
 				// Section 2: Data Type (shown before How to Calculate)
@@ -252,7 +692,7 @@ export default class ChartNotesPlugin extends Plugin {
 					} as Record<string, string>,
 					shouldHide: (config: any) => {
 						const chartType = String(config.get("chartType") ?? "bar");
-						if (chartType !== "metric") return true;
+						if (chartType !== "metric" || metricMode(config) !== "single") return true;
 						// Hide when property is empty
 						const metricProperty = config.get("metricProperty") as string | undefined;
 						return !metricProperty || metricProperty.trim() === "" || metricProperty === "undefined" || metricProperty === "null";
@@ -277,7 +717,7 @@ export default class ChartNotesPlugin extends Plugin {
 					} as Record<string, string>,
 					shouldHide: (config: any) => {
 						const chartType = String(config.get("chartType") ?? "bar");
-						if (chartType !== "metric") return true;
+						if (chartType !== "metric" || metricMode(config) !== "single") return true;
 						const dataType = String(config.get("metricDataType") ?? "number");
 						const metricProperty = config.get("metricProperty") as string | undefined;
 						const hasProperty = metricProperty && metricProperty.trim() !== "" && metricProperty !== "undefined" && metricProperty !== "null";
@@ -302,7 +742,7 @@ export default class ChartNotesPlugin extends Plugin {
 					} as Record<string, string>,
 					shouldHide: (config: any) => {
 						const chartType = String(config.get("chartType") ?? "bar");
-						if (chartType !== "metric") return true;
+						if (chartType !== "metric" || metricMode(config) !== "single") return true;
 						const metricProperty = config.get("metricProperty") as string | undefined;
 						const hasProperty = metricProperty && metricProperty.trim() !== "" && metricProperty !== "undefined" && metricProperty !== "null";
 						if (!hasProperty) return true;
@@ -330,7 +770,7 @@ export default class ChartNotesPlugin extends Plugin {
 					} as Record<string, string>,
 					shouldHide: (config: any) => {
 						const chartType = String(config.get("chartType") ?? "bar");
-						if (chartType !== "metric") return true;
+						if (chartType !== "metric" || metricMode(config) !== "single") return true;
 						const metricProperty = config.get("metricProperty") as string | undefined;
 						const hasProperty = metricProperty && metricProperty.trim() !== "" && metricProperty !== "undefined" && metricProperty !== "null";
 						if (!hasProperty) return true;
@@ -347,7 +787,7 @@ export default class ChartNotesPlugin extends Plugin {
 					displayName: "Label",
 					description: "Text to display with the number.\ne.g., Total tasks, Average duration",
 					shouldHide: (config: any) =>
-						String(config.get("chartType") ?? "bar") !== "metric",
+						String(config.get("chartType") ?? "bar") !== "metric" || isMetricGrid(config),
 				} as any);
 
 				opts.push({
@@ -417,6 +857,62 @@ export default class ChartNotesPlugin extends Plugin {
 						String(config.get("chartType") ?? "bar") !== "metric",
 				} as any);
 
+				opts.push({
+					type: "text",
+					key: "metricRules",
+					displayName: "Color rules (optional)",
+					description:
+						"Conditions checked in order; the first that matches colors the number.\n" +
+						"One per line or separated by ;, e.g. > 5 red 🔥; > 0 orange; else green\n" +
+						"Add bg=<color> for the card background and icon=<text> for an icon.",
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "metric" || isMetricGrid(config),
+				} as any);
+
+				// Section 4: Trend
+				const hideMetricTrend = (config: any) => {
+					if (String(config.get("chartType") ?? "bar") !== "metric" || isMetricFormula(config)) return true;
+					const trendProperty = config.get("metricTrendProperty") as string | undefined;
+					return !trendProperty || trendProperty.trim() === "" || trendProperty === "undefined" || trendProperty === "null";
+				};
+
+				opts.push({
+					type: "property",
+					key: "metricTrendProperty",
+					displayName: "Trend date (optional)",
+					description:
+						"Date property that places each note in time.\n" +
+						"The widget then shows the last N days, the change vs the N days before and a sparkline.\n" +
+						"Not available for date operations (oldest, newest, range) and formulas.",
+					shouldHide: (config: any) =>
+						String(config.get("chartType") ?? "bar") !== "metric" || isMetricFormula(config),
+				} as any);
+
+				opts.push({
+					type: "text",
+					key: "metricTrendWindow",
+					displayName: "Trend period",
+					description: "Length of each period: a number of days (e.g. 7d, 30d) or of weeks (e.g. 4w).",
+					default: "7d",
+					shouldHide: hideMetricTrend,
+				} as any);
+
+				opts.push({
+					type: "dropdown",
+					key: "metricTrendDirection",
+					displayName: "When the value goes up",
+					description:
+						"Colors the change green when it's good news, red when it's bad.\n" +
+						"In a KPI grid, a card's own trend direction takes precedence.",
+					default: "up-good",
+					options: {
+						"up-good": "Up is good (green)",
+						"up-bad": "Up is bad (red)",
+						neutral: "Neutral (no color)",
+					} as Record<string, string>,
+					shouldHide: hideMetricTrend,
+				} as any);
+
 				return opts as any;
 			},
 		});
@@ -424,6 +920,19 @@ export default class ChartNotesPlugin extends Plugin {
 
 	onunload() {
 		console.log("Chart Notes: unloading plugin");
+		this.requestReindex.cancel();
+	}
+
+	async loadSettings() {
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		setChartDefaults(chartDefaultsFromSettings(this.settings));
+		setExportOptions(exportOptionsFromSettings(this.settings));
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+		setChartDefaults(chartDefaultsFromSettings(this.settings));
+		setExportOptions(exportOptionsFromSettings(this.settings));
 	}
 }
 
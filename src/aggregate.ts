@@ -0,0 +1,144 @@
+/**
+ * Value Aggregation
+ *
+ * Per-bucket accumulators for Bases charts. Each (x, series) bucket keeps
+ * its values so that order statistics (median, percentiles) and distinct
+ * counts can be computed once all notes have been read.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AggregateOp =
+	| "sum"
+	| "count"
+	| "avg"
+	| "min"
+	| "max"
+	| "median"
+	| "percentile"
+	| "count-distinct";
+
+export interface Accumulator {
+	/** Numeric values, for sum / avg / min / max / median / percentile */
+	values: number[];
+	/** Distinct raw values, for count-distinct */
+	distinct: Set<string>;
+	/** Number of notes added (count) */
+	count: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_PERCENTILE = 90;
+
+/** Short labels used for the value axis / table header, e.g. "avg(hours)" */
+const OP_LABELS: Record<AggregateOp, string> = {
+	sum: "sum",
+	count: "count",
+	avg: "avg",
+	min: "min",
+	max: "max",
+	median: "median",
+	percentile: "p",
+	"count-distinct": "distinct",
+};
+
+// ============================================================================
+// Accumulators
+// ============================================================================
+
+export function createAccumulator(): Accumulator {
+	return { values: [], distinct: new Set(), count: 0 };
+}
+
+/**
+ * Adds one note to the accumulator.
+ *
+ * @param acc - Bucket accumulator
+ * @param value - Numeric value (ignored when null, e.g. for count-distinct)
+ * @param distinctKeys - Raw values to count as distinct (optional)
+ */
+export function accumulate(
+	acc: Accumulator,
+	value: number | null,
+	distinctKeys: string[] = []
+): void {
+	acc.count += 1;
+	if (value != null && !Number.isNaN(value)) acc.values.push(value);
+	for (const key of distinctKeys) acc.distinct.add(key);
+}
+
+/**
+ * Returns the p-th percentile (0–100) using linear interpolation between
+ * the closest ranks. Returns 0 for an empty list.
+ */
+export function percentile(values: number[], p: number): number {
+	if (!values.length) return 0;
+	const sorted = [...values].sort((a, b) => a - b);
+	const clamped = Math.min(100, Math.max(0, p));
+	const rank = (clamped / 100) * (sorted.length - 1);
+	const lower = Math.floor(rank);
+	const upper = Math.ceil(rank);
+	const weight = rank - lower;
+	return sorted[lower] + (sorted[upper] - sorted[lower]) * weight;
+}
+
+/**
+ * Computes the final value of a bucket.
+ *
+ * @param acc - Bucket accumulator
+ * @param op - Aggregation operation
+ * @param p - Percentile (0–100), only used by "percentile"
+ * @returns Aggregated value (0 when the bucket has no numeric values)
+ */
+export function finalizeAccumulator(
+	acc: Accumulator,
+	op: AggregateOp,
+	p: number = DEFAULT_PERCENTILE
+): number {
+	const values = acc.values;
+	switch (op) {
+		case "count":
+			return acc.count;
+		case "count-distinct":
+			return acc.distinct.size;
+		case "sum":
+			return values.reduce((total, v) => total + v, 0);
+		case "avg":
+			return values.length
+				? values.reduce((total, v) => total + v, 0) / values.length
+				: 0;
+		case "min":
+			return values.length ? Math.min(...values) : 0;
+		case "max":
+			return values.length ? Math.max(...values) : 0;
+		case "median":
+			return percentile(values, 50);
+		case "percentile":
+			return percentile(values, p);
+	}
+}
+
+/**
+ * Whether totals of already aggregated values can simply be added up
+ * (a sum of sums, a sum of counts). Other operations must be computed again
+ * from all the values of the buckets.
+ */
+export function isAdditiveOp(op: AggregateOp): boolean {
+	return op === "sum" || op === "count";
+}
+
+/**
+ * Builds the value label for an aggregated property, e.g. "avg(hours)" or "p90(hours)".
+ * Sum keeps the plain property name.
+ */
+export function aggregateLabel(op: AggregateOp, field: string, p: number = DEFAULT_PERCENTILE): string {
+	if (op === "sum") return field;
+	if (op === "count") return "count";
+	const name = op === "percentile" ? `${OP_LABELS[op]}${p}` : OP_LABELS[op];
+	return `${name}(${field})`;
+}
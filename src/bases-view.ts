@@ -10,9 +10,47 @@ import {
 	type QueryController,
 	parsePropertyId,
 } from "obsidian";
-import type { ChartSpec, QueryResult, QueryResultRow } from "./types";
+import type { ChartAnnotation, ChartSpec, QueryResult, QueryResultRow } from "./types";
 import type { PropChartsRenderer, RenderContext } from "./renderer";
-import { toDate } from "./utils";
+import { getChartDefaults } from "./renderer/renderer-common";
+import { looksLikeISODate, toDate } from "./utils";
+import { applyMovingWindow, parseMovingWindow } from "./query";
+import { parseDependsOn } from "./gantt-dependencies";
+import { parseMilestoneFlag, parseProgress } from "./gantt-progress";
+import { DEFAULT_ANNOTATION_PROPERTY, noteAnnotation } from "./chart-annotations";
+import {
+	DEFAULT_TREND_WINDOW,
+	computeMetricTrend,
+	isTrendDirection,
+	parseTrendWindow,
+	supportsTrend,
+	type TrendSample,
+} from "./metric-trend";
+import { applyPeriodComparison, isComparePeriod } from "./period-compare";
+import { parseSize } from "./scatter-size";
+import { parseMetricCards, propertyId, type MetricCardSpec } from "./metric-grid";
+import {
+	evalMetricFormula,
+	parseMetricFormula,
+	type FormulaNote,
+	type MetricFormula,
+} from "./metric-formula";
+import { evalWhere } from "./where";
+import {
+	accumulate,
+	aggregateLabel,
+	createAccumulator,
+	finalizeAccumulator,
+	DEFAULT_PERCENTILE,
+	type Accumulator,
+	type AggregateOp,
+} from "./aggregate";
+import {
+	bucketKey,
+	enumerateBuckets,
+	resolveAutoBucket,
+	type DateBucket,
+} from "./date-buckets";
 
 // ============================================================================
 // Constants
@@ -29,9 +67,22 @@ const CHART_TYPES = [
 	"scatter",
 	"gantt",
 	"metric",
+	"table",
 ] as const;
 
-const AGGREGATION_MODES = ["sum", "count", "cumulative-sum"] as const;
+const AGGREGATION_MODES = [
+	"sum",
+	"count",
+	"cumulative-sum",
+	"avg",
+	"min",
+	"max",
+	"median",
+	"percentile",
+	"count-distinct",
+] as const;
+
+const ROLLING_MODES = ["none", "avg", "sum", "ema"] as const;
 
 const X_BUCKETS = ["auto", "none", "day", "week", "month", "quarter", "year"] as const;
 
@@ -47,6 +98,7 @@ const MILLISECONDS_PER_MINUTE = 60000;
 type AllowedChartType = (typeof CHART_TYPES)[number];
 type AggregationMode = (typeof AGGREGATION_MODES)[number];
 type XBucket = (typeof X_BUCKETS)[number];
+type RollingMode = (typeof ROLLING_MODES)[number];
 
 interface SelectedProp {
 	id: string | null;
@@ -67,6 +119,18 @@ function normalizeChartType(raw: unknown): AllowedChartType {
 		: "bar") as AllowedChartType;
 }
 
+/**
+ * Operation actually applied to each bucket. Without a Y property every mode
+ * except sum falls back to counting notes (sum without Y also counts, since
+ * each note adds 1).
+ */
+function bucketOperation(aggMode: AggregationMode, hasY: boolean): AggregateOp {
+	if (aggMode === "count" || (!hasY && aggMode !== "sum" && aggMode !== "cumulative-sum")) {
+		return "count";
+	}
+	return aggMode === "cumulative-sum" ? "sum" : aggMode;
+}
+
 /**
  * Normalizes aggregation mode from user input to allowed mode.
  */
@@ -77,6 +141,35 @@ function normalizeAggregationMode(raw: unknown): AggregationMode {
 		: "sum") as AggregationMode;
 }
 
+/**
+ * Normalizes smoothing mode from user input to allowed mode.
+ */
+function normalizeRollingMode(raw: unknown): RollingMode {
+	const mode = String(raw ?? "none").trim().toLowerCase();
+	return (ROLLING_MODES.includes(mode as RollingMode)
+		? mode
+		: "none") as RollingMode;
+}
+
+/**
+ * Normalizes the percentile option (1–99), falling back to the default.
+ */
+function normalizePercentile(raw: unknown): number {
+	const p = Number(raw);
+	if (raw == null || raw === "" || !Number.isFinite(p)) return DEFAULT_PERCENTILE;
+	return Math.min(99, Math.max(1, Math.round(p)));
+}
+
+/**
+ * Normalizes date grouping from user input to allowed bucket.
+ */
+function normalizeXBucket(raw: unknown): XBucket {
+	const bucket = String(raw ?? "auto").trim().toLowerCase();
+	return (X_BUCKETS.includes(bucket as XBucket)
+		? bucket
+		: "auto") as XBucket;
+}
+
 
 export class ChartNotesBasesView extends BasesView {
 	readonly type = CHARTNOTES_BASES_VIEW_TYPE;
@@ -115,14 +208,29 @@ export class ChartNotesBasesView extends BasesView {
 		const isScatter = chartType === "scatter";
 		const isGantt = chartType === "gantt";
 		const isMetric = chartType === "metric";
+		const isMetricGrid = isMetric && cfg?.get("metricMode") === "grid";
+		const isMetricFormula = isMetric && cfg?.get("metricMode") === "formula";
 
 		const aggModeCfg = normalizeAggregationMode(cfg?.get("aggregateMode"));
 		const allowCumulative = chartType === "line" || chartType === "stacked-area";
 		const aggMode: AggregationMode =
 			aggModeCfg === "cumulative-sum" && !allowCumulative ? "sum" : aggModeCfg;
+		const percentileP = normalizePercentile(cfg?.get("aggregatePercentile"));
+
+		// Smoothing (line / stacked-area only)
+		const rollingMode = allowCumulative
+			? normalizeRollingMode(cfg?.get("rollingMode"))
+			: "none";
+		const rollingWindow = parseMovingWindow(cfg?.get("rollingWindow") ?? "7");
 
-		// Always use "auto" for date bucketing (equivalent to automatic date grouping)
-		const xBucket: XBucket = isPie || isScatter || isGantt ? "none" : "auto";
+		// Previous period overlay (line only)
+		const comparePeriodCfg = cfg?.get("comparePeriod");
+		const comparePeriod =
+			chartType === "line" && isComparePeriod(comparePeriodCfg) ? comparePeriodCfg : null;
+
+		// Date grouping: pie, scatter and gantt always use raw values
+		const xBucketCfg = normalizeXBucket(cfg?.get("xBucket"));
+		let xBucket: XBucket = isPie || isScatter || isGantt ? "none" : xBucketCfg;
 
 		const xProp = this.getPropFromConfig("xProperty");
 		const ganttLabelProp = this.getPropFromConfig("ganttLabelProperty");
@@ -136,7 +244,15 @@ export class ChartNotesBasesView extends BasesView {
 		const endProp = this.getPropFromConfig("endProperty");
 		const dueProp = this.getPropFromConfig("dueProperty");
 		const durationProp = this.getPropFromConfig("durationProperty");
+		const dependsOnProp = this.getPropFromConfig("dependsOnProperty");
+		const progressProp = this.getPropFromConfig("progressProperty");
+		const milestoneProp = this.getPropFromConfig("milestoneProperty");
+		const baselineStartProp = this.getPropFromConfig("baselineStartProperty");
+		const baselineEndProp = this.getPropFromConfig("baselineEndProperty");
 		const groupProp = this.getPropFromConfig("groupProperty");
+		const sizeProp: SelectedProp = isScatter
+			? this.getPropFromConfig("sizeProperty")
+			: { id: null, name: null };
 
 		if (!isGantt && !isMetric && !xProp.id) {
 			this.rootEl.createDiv({
@@ -171,9 +287,51 @@ export class ChartNotesBasesView extends BasesView {
 					? xProp
 					: { id: null, name: null };
 
+		// Date range of X, used to resolve "auto" and to fill empty buckets
+		const xDateRange =
+			xBucket !== "none" && !isMetric ? this.getXDateRange(grouped, xProp) : null;
+		if (xBucket === "auto") {
+			// Without dates, "auto" keeps the previous day normalization
+			xBucket = xDateRange
+				? resolveAutoBucket(xDateRange.min, xDateRange.max)
+				: "day";
+		}
+		const fillRange =
+			xDateRange && (chartType === "bar" || chartType === "stacked-bar" ||
+				chartType === "line" || chartType === "stacked-area")
+				? xDateRange
+				: null;
+
 		let rows: QueryResultRow[];
 
-		if (isMetric) {
+		if (isMetricGrid) {
+			const cards = parseMetricCards(cfg?.get("metricCards"));
+			if (cards.length === 0) {
+				this.rootEl.createDiv({
+					cls: "prop-charts-empty",
+					text: "Add metrics in 'KPI cards', one per line: Label | property | operation | filter.",
+				});
+				return;
+			}
+			const trendProp = this.getPropFromConfig("metricTrendProperty");
+			const trendWindow =
+				parseTrendWindow(cfg?.get("metricTrendWindow")) ?? DEFAULT_TREND_WINDOW;
+			rows = this.buildRowsForMetricGrid(grouped, cards, trendProp, trendWindow);
+		} else if (isMetricFormula) {
+			const formulaText = String(cfg?.get("metricFormula") ?? "").trim();
+			if (!formulaText) {
+				this.rootEl.createDiv({
+					cls: "prop-charts-empty",
+					text: "Write the metric in 'Formula', e.g. done = count(where status = done); total = count(); done / total * 100",
+				});
+				return;
+			}
+			try {
+				rows = this.buildRowsForMetricFormula(grouped, parseMetricFormula(formulaText));
+			} catch (e) {
+				rows = [this.buildMetricErrorRow(`Invalid formula: ${(e as Error).message}`)];
+			}
+		} else if (isMetric) {
 			const metricProp = this.getPropFromConfig("metricProperty");
 			const metricDataType = String(cfg?.get("metricDataType") ?? "number");
 			
@@ -198,6 +356,14 @@ export class ChartNotesBasesView extends BasesView {
 				metricDataType,
 				cfg,
 			);
+
+			// Trend: value of the last N days, change and sparkline
+			const trendProp = this.getPropFromConfig("metricTrendProperty");
+			if (trendProp.id) {
+				const trendWindow =
+					parseTrendWindow(cfg?.get("metricTrendWindow")) ?? DEFAULT_TREND_WINDOW;
+				rows = this.applyMetricTrend(rows, grouped, metricProp, trendProp, trendWindow);
+			}
 		} else if (isGantt) {
 			rows = this.buildRowsForGantt(
 				grouped,
@@ -207,12 +373,17 @@ export class ChartNotesBasesView extends BasesView {
 				endProp,
 				dueProp,
 				durationProp,
+				dependsOnProp,
+				progressProp,
+				milestoneProp,
+				baselineStartProp,
+				baselineEndProp,
 				groupProp,
 			);
 		} else if (isScatter) {
-			rows = this.buildRowsForScatter(grouped, xProp, yProp, seriesProp);
+			rows = this.buildRowsForScatter(grouped, xProp, yProp, seriesProp, sizeProp);
 		} else {
-			const forceCountForPie = isPie;
+			// Pie explodes multi-value categories (tags, lists) into one slice each
 			rows = this.buildRowsForAggregatedCharts(
 				grouped,
 				xProp,
@@ -220,8 +391,25 @@ export class ChartNotesBasesView extends BasesView {
 				seriesProp,
 				aggMode,
 				xBucket,
-				forceCountForPie,
+				isPie,
+				fillRange,
+				percentileP,
+				chartType === "table",
 			);
+
+			if (rollingMode !== "none" && rollingWindow) {
+				const ordered = [...rows].sort((a, b) => this.compareX(a.x, b.x));
+				rows = applyMovingWindow(ordered, { kind: rollingMode, ...rollingWindow }, xBucket === "year");
+			}
+
+			if (comparePeriod) {
+				rows = applyPeriodComparison(
+					rows,
+					comparePeriod,
+					getChartDefaults().weekStart,
+					xBucket === "year",
+				);
+			}
 		}
 
 		if (!rows.length) {
@@ -232,7 +420,25 @@ export class ChartNotesBasesView extends BasesView {
 			return;
 		}
 
-		const result: QueryResult = { rows };
+		const result: QueryResult = {
+			rows,
+			xField: xProp.name ?? undefined,
+			yField: yProp.name && aggMode !== "count"
+				? aggregateLabel(aggMode === "cumulative-sum" ? "sum" : aggMode, yProp.name, percentileP)
+				: "count",
+		};
+
+		const isAnnotated = chartType === "bar" || chartType === "stacked-bar" ||
+			chartType === "line" || chartType === "stacked-area";
+		if (isAnnotated) {
+			const annotationProp = this.getPropFromConfig("annotationProperty");
+			result.annotations = this.collectAnnotations(
+				grouped,
+				annotationProp.id
+					? annotationProp
+					: { id: `note.${DEFAULT_ANNOTATION_PROPERTY}`, name: DEFAULT_ANNOTATION_PROPERTY },
+			);
+		}
 
 		const titleRaw = (cfg?.get("title") as string | undefined) ?? "";
 		const title = titleRaw.trim() || cfg?.name || "Chart Notes (Bases)";
@@ -248,8 +454,10 @@ export class ChartNotesBasesView extends BasesView {
 			end: endProp,
 			due: dueProp,
 			duration: durationProp,
+			dependsOn: dependsOnProp,
 			group: groupProp,
 			label: labelPropForGantt,
+			size: sizeProp,
 			aggMode,
 			chartType,
 		});
@@ -260,6 +468,44 @@ export class ChartNotesBasesView extends BasesView {
 			drilldown,
 		};
 
+		// "2026" is a year only when X is grouped by year
+		if (xBucket === "year") options.yearBuckets = true;
+
+		if (rollingMode !== "none" && rollingWindow) {
+			options.showRawSeries = cfg?.get("showRawSeries") === true;
+		}
+
+		if (comparePeriod) {
+			options.comparePeriod = comparePeriod;
+		}
+
+		if (isAnnotated) {
+			options.referenceLines = cfg?.get("referenceLines") as string | undefined;
+			options.bands = cfg?.get("valueBands") as string | undefined;
+			options.annotations = cfg?.get("dateAnnotations") as string | undefined;
+		}
+
+		if (chartType === "table") {
+			// Totals of non-additive operations are computed again from the raw values
+			options.tableAggregate = bucketOperation(aggMode, !!yProp.id);
+			options.tablePercentile = percentileP;
+		}
+
+		if (isGantt) {
+			options.criticalPath = cfg?.get("ganttCriticalPath") === true;
+			options.timeScale = (cfg?.get("ganttTimeScale") as string | undefined) ?? "auto";
+			options.nonWorkingDays = cfg?.get("ganttNonWorkingDays") as string | undefined;
+			options.loadPanel = cfg?.get("ganttLoadPanel") === true;
+			options.capacity = cfg?.get("ganttCapacity") as string | undefined;
+		}
+
+		if (isScatter) {
+			options.trendline = (cfg?.get("scatterTrendline") as string | undefined) ?? "none";
+			options.identityLine = cfg?.get("scatterIdentityLine") === true;
+			options.outliers = cfg?.get("scatterOutliers") === true;
+			options.outlierSigma = cfg?.get("scatterOutlierSigma") as string | undefined;
+		}
+
 		if (isMetric) {
 			options.metricLabel = (cfg?.get("metricLabel") as string | undefined) ?? "";
 			options.metricLabelPosition = (cfg?.get("metricLabelPosition") as string | undefined) ?? "above";
@@ -267,6 +513,11 @@ export class ChartNotesBasesView extends BasesView {
 			options.metricPrefix = (cfg?.get("metricPrefix") as string | undefined) ?? "";
 			options.metricSuffix = (cfg?.get("metricSuffix") as string | undefined) ?? "";
 			options.metricColor = (cfg?.get("metricColor") as string | undefined) ?? "auto";
+			// Grid cards have their own rules
+			if (!isMetricGrid) options.metricRules = cfg?.get("metricRules") as string | undefined;
+			if (isMetricGrid) options.metricMode = "grid";
+			const trendDirection = cfg?.get("metricTrendDirection");
+			options.metricTrendDirection = isTrendDirection(trendDirection) ? trendDirection : "up-good";
 		}
 
 		const spec: ChartSpec = {
@@ -336,12 +587,81 @@ export class ChartNotesBasesView extends BasesView {
 		}
 	}
 
+	/**
+	 * Reads all values of a property as trimmed strings: list values
+	 * (tags, multi-select) give one string per item.
+	 */
+	private readValues(entry: any, prop: SelectedProp): string[] {
+		const list = this.readList(entry, prop);
+		if (list) return list;
+		const single = this.readValue(entry, prop);
+		return single != null ? [single] : [];
+	}
+
+	/**
+	 * Items of a list-typed property as trimmed strings (a one-item list
+	 * stays a list), or null when the value isn't a list.
+	 */
+	private readList(entry: any, prop: SelectedProp): string[] | null {
+		if (!prop.id) return null;
+
+		let raw: any;
+		try {
+			raw = entry.getValue(prop.id);
+		} catch {
+			return null;
+		}
+
+		let items: any[] | null = null;
+		if (Array.isArray(raw)) {
+			items = raw;
+		} else if (raw && typeof raw.toArray === "function") {
+			try {
+				const arr = raw.toArray();
+				if (Array.isArray(arr)) items = arr;
+			} catch {
+				items = null;
+			}
+		}
+
+		if (!items) return null;
+
+		const values: string[] = [];
+		for (const item of items) {
+			if (item == null) continue;
+			try {
+				const s = String(item.toString()).trim();
+				if (s) values.push(s);
+			} catch {
+				continue;
+			}
+		}
+		return values;
+	}
+
 	private parseDate(raw: string | null): Date | null {
 		if (!raw) return null;
 		const d = new Date(raw.trim());
 		return Number.isNaN(d.getTime()) ? null : d;
 	}
 
+	/**
+	 * Date annotations from the entries that have the annotation property.
+	 */
+	private collectAnnotations(groups: any[], prop: SelectedProp): ChartAnnotation[] {
+		const annotations: ChartAnnotation[] = [];
+		for (const group of groups) {
+			for (const entry of (group.entries ?? []) as any[]) {
+				const path = entry.file?.path;
+				const raw = this.readValue(entry, prop);
+				if (!path || !raw) continue;
+				const annotation = noteAnnotation(path, raw);
+				if (annotation) annotations.push(annotation);
+			}
+		}
+		return annotations;
+	}
+
 	private compareX(a: any, b: any): number {
 		const da = this.parseDate(a != null ? String(a) : null);
 		const db = this.parseDate(b != null ? String(b) : null);
@@ -358,58 +678,64 @@ export class ChartNotesBasesView extends BasesView {
 	// Date Bucketing Functions
 	// ============================================================================
 
+	private bucketX(rawX: string, mode: XBucket): string {
+		if (mode === "none" || mode === "auto") return rawX;
+		// ISO dates are read as local time so buckets match getXDateRange
+		const d = looksLikeISODate(rawX) ? toDate(rawX) : this.parseDate(rawX);
+		if (!d) return rawX;
+		return bucketKey(d, mode, getChartDefaults().weekStart);
+	}
+
 	/**
-	 * Formats a date as YYYY-MM-DD string
+	 * Finds the earliest and latest ISO date among the X values.
+	 * Returns null when no X value is a date.
 	 */
-	private fmtDate(date: Date): string {
-		const year = date.getFullYear();
-		const month = String(date.getMonth() + 1).padStart(2, "0");
-		const day = String(date.getDate()).padStart(2, "0");
-		return `${year}-${month}-${day}`;
+	private getXDateRange(
+		groups: any[],
+		xProp: SelectedProp,
+	): { min: Date; max: Date } | null {
+		if (!xProp.id) return null;
+
+		let min: Date | null = null;
+		let max: Date | null = null;
+		for (const group of groups) {
+			for (const entry of group.entries as any[]) {
+				const raw = this.readValue(entry, xProp);
+				if (!raw || !looksLikeISODate(raw)) continue;
+				const d = toDate(raw);
+				if (!d) continue;
+				if (!min || d < min) min = d;
+				if (!max || d > max) max = d;
+			}
+		}
+
+		return min && max ? { min, max } : null;
 	}
 
 	/**
-	 * Gets the start of the week (Monday as first day)
+	 * Adds a zero row for every empty date bucket inside the range, per series,
+	 * so lines don't jump over gaps.
 	 */
-	private startOfWeek(date: Date): Date {
-		const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-		const dayOfWeek = (result.getDay() + 6) % 7; // Monday as start (0 = Monday)
-		result.setDate(result.getDate() - dayOfWeek);
-		result.setHours(0, 0, 0, 0);
-		return result;
-	}
+	private fillEmptyBuckets(
+		rows: QueryResultRow[],
+		range: { min: Date; max: Date },
+		bucket: DateBucket,
+	): QueryResultRow[] {
+		const keys = enumerateBuckets(range.min, range.max, bucket, getChartDefaults().weekStart);
+		if (!keys.length) return rows;
 
-	private bucketX(rawX: string, mode: XBucket): string {
-		const d = this.parseDate(rawX);
-		if (!d) return rawX;
+		const seriesList = new Set<string | undefined>(rows.map((r) => r.series));
+		const existing = new Set(rows.map((r) => `${String(r.x)}@@${r.series ?? ""}`));
+		const filled = [...rows];
 
-		switch (mode) {
-			case "none":
-				return rawX;
-			case "auto":
-			case "day": {
-				const s = this.fmtDate(
-					new Date(d.getFullYear(), d.getMonth(), d.getDate()),
-				);
-				return s;
-			}
-			case "week": {
-				const s = this.startOfWeek(d);
-				return `${this.fmtDate(s)} (W)`;
+		for (const series of seriesList) {
+			for (const key of keys) {
+				if (existing.has(`${key}@@${series ?? ""}`)) continue;
+				filled.push({ x: key, y: 0, series, notes: [], props: {} } as QueryResultRow);
 			}
-			case "month": {
-				const m = String(d.getMonth() + 1).padStart(2, "0");
-				return `${d.getFullYear()}-${m}`;
-			}
-			case "quarter": {
-				const q = Math.floor(d.getMonth() / 3) + 1;
-				return `${d.getFullYear()}-Q${q}`;
-			}
-			case "year":
-				return `${d.getFullYear()}`;
-			default:
-				return rawX;
 		}
+
+		return filled.sort((a, b) => this.compareX(a.x, b.x));
 	}
 
 	// ============================================================================
@@ -532,6 +858,15 @@ export class ChartNotesBasesView extends BasesView {
 	// Row Builders
 	// ============================================================================
 
+	/**
+	 * Builds one row per (x, series) bucket. Each bucket keeps an accumulator,
+	 * so avg / min / max / median / percentile / count-distinct are computed
+	 * from all of its values once every note has been read.
+	 *
+	 * @param multiX - Explode multi-value X (tags, lists) into one row each (pie)
+	 * @param percentileP - Percentile (0–100) for the "percentile" mode
+	 * @param keepBuckets - Keep the raw values on each row (pivot table totals)
+	 */
 	private buildRowsForAggregatedCharts(
 		groups: any[],
 		xProp: SelectedProp,
@@ -539,14 +874,17 @@ export class ChartNotesBasesView extends BasesView {
 		seriesProp: SelectedProp,
 		aggMode: AggregationMode,
 		xBucket: XBucket,
-		forceCount: boolean,
+		multiX: boolean,
+		fillRange: { min: Date; max: Date } | null = null,
+		percentileP: number = DEFAULT_PERCENTILE,
+		keepBuckets = false,
 	): QueryResultRow[] {
 		const byKey = new Map<string, QueryResultRow>();
+		const accumulators = new Map<string, Accumulator>();
 
-		const treatAsCount =
-			forceCount ||
-			aggMode === "count" ||
-			(!yProp.id && aggMode !== "sum");
+		const op = bucketOperation(aggMode, !!yProp.id);
+		const treatAsCount = op === "count";
+		const isDistinct = op === "count-distinct";
 
 		const yPropName = yProp.name || "y";
 
@@ -558,20 +896,22 @@ export class ChartNotesBasesView extends BasesView {
 					entry,
 					xProp,
 					xBucket,
-					forceCount,
+					multiX,
 				);
 
-				let baseYNum = 1;
-				let yStr: string | null = null;
+				let baseYNum: number | null = 1;
+				let distinctKeys: string[] = [];
 
-				if (!treatAsCount && yProp.id) {
-					yStr = this.readValue(entry, yProp);
+				if (isDistinct) {
+					distinctKeys = this.readValues(entry, yProp);
+					if (!distinctKeys.length) continue;
+					baseYNum = null;
+				} else if (!treatAsCount && yProp.id) {
+					const yStr = this.readValue(entry, yProp);
 					if (yStr == null) continue;
 					const n = Number(yStr);
 					if (Number.isNaN(n)) continue;
 					baseYNum = n;
-				} else {
-					baseYNum = 1;
 				}
 
 				const seriesStr = this.readValue(entry, seriesProp);
@@ -589,9 +929,10 @@ export class ChartNotesBasesView extends BasesView {
 							props: {},
 						} as QueryResultRow;
 						byKey.set(key, row);
+						accumulators.set(key, createAccumulator());
 					}
 
-					row.y += baseYNum;
+					accumulate(accumulators.get(key)!, baseYNum, distinctKeys);
 
 					if (file?.path) row.notes!.push(file.path);
 
@@ -599,14 +940,6 @@ export class ChartNotesBasesView extends BasesView {
 						row.props[xProp.name] = xStr;
 					}
 
-					if (!treatAsCount && row.props && yPropName && yStr != null) {
-						row.props[yPropName] = row.y;
-					}
-
-					if (treatAsCount && row.props) {
-						row.props[yPropName] = row.y;
-					}
-
 					if (row.props && seriesProp.name && seriesStr != null) {
 						row.props[seriesProp.name] = seriesStr;
 					}
@@ -614,7 +947,20 @@ export class ChartNotesBasesView extends BasesView {
 			}
 		}
 
-		const rows = Array.from(byKey.values());
+		for (const [key, row] of byKey) {
+			const acc = accumulators.get(key)!;
+			row.y = finalizeAccumulator(acc, op, percentileP);
+			if (row.props) row.props[yPropName] = row.y;
+			if (keepBuckets) {
+				row.bucket = { values: acc.values, distinct: [...acc.distinct], count: acc.count };
+			}
+		}
+
+		let rows = Array.from(byKey.values());
+
+		if (fillRange && xBucket !== "none" && xBucket !== "auto") {
+			rows = this.fillEmptyBuckets(rows, fillRange, xBucket);
+		}
 
 		if (aggMode === "cumulative-sum") {
 			return this.toCumulative(rows);
@@ -972,11 +1318,186 @@ export class ChartNotesBasesView extends BasesView {
 		];
 	}
 
+	/**
+	 * Replaces the metric value with the value of the current trend window
+	 * and attaches the trend (previous window, change, sparkline).
+	 * Operations on dates (oldest, newest, range) have no trend.
+	 *
+	 * @param rows - Single metric row from buildRowsForMetric
+	 * @param groups - Grouped data from Bases
+	 * @param metricProp - Property measured by the widget
+	 * @param trendProp - Date property placing each note in time
+	 * @param days - Window length in days
+	 */
+	private applyMetricTrend(
+		rows: QueryResultRow[],
+		groups: any[],
+		metricProp: SelectedProp,
+		trendProp: SelectedProp,
+		days: number,
+	): QueryResultRow[] {
+		const row = rows[0];
+		const operation = row?.props?._metricOperation as string | undefined;
+		if (!row || row.props?._metricError || !operation || !supportsTrend(operation)) {
+			return rows;
+		}
+
+		const samples: TrendSample[] = [];
+		for (const group of groups) {
+			for (const entry of group.entries as any[]) {
+				const path = entry.file?.path;
+				const date = toDate(this.readValue(entry, trendProp));
+				if (!path || !date) continue;
+
+				const raw = this.readValue(entry, metricProp);
+				const num = raw != null && raw.trim() !== "" ? Number(raw.trim()) : NaN;
+				samples.push({
+					date,
+					value: Number.isFinite(num) ? num : null,
+					present: raw != null,
+					note: path,
+				});
+			}
+		}
+
+		const trend = computeMetricTrend(samples, operation, days);
+		return [
+			{
+				...row,
+				x: String(trend.current ?? 0),
+				y: trend.current ?? 0,
+				notes: trend.notes,
+				props: {
+					...row.props,
+					_metricValue: trend.current,
+					_metricTrend: trend,
+				},
+			},
+		];
+	}
+
+	/**
+	 * Builds one metric row per KPI card. Each card measures the notes that
+	 * pass its filter; its label, color rules and trend direction go in
+	 * `_metricLabel`, `_metricRules` and `_metricTrendDirection`.
+	 *
+	 * @param groups - Grouped data from Bases
+	 * @param cards - Parsed cards (label, property, operation, filter, rules)
+	 * @param trendProp - Optional trend date property, applied to every card but formulas
+	 * @param trendWindow - Trend window length in days
+	 */
+	private buildRowsForMetricGrid(
+		groups: any[],
+		cards: MetricCardSpec[],
+		trendProp: SelectedProp,
+		trendWindow: number,
+	): QueryResultRow[] {
+		return cards.map((card) => {
+			const withCard = (row: QueryResultRow): QueryResultRow => ({
+				...row,
+				props: {
+					...row.props,
+					_metricLabel: card.label,
+					_metricRules: card.rules,
+					_metricTrendDirection: card.trendDirection,
+				},
+			});
+			const metricProp: SelectedProp = card.property
+				? { id: propertyId(card.property), name: card.property }
+				: { id: null, name: null };
+
+			if (card.error) {
+				return withCard(this.buildMetricErrorRow(card.error));
+			}
+
+			const filtered = card.filter
+				? groups.map((group) => ({
+					...group,
+					entries: (group.entries as any[]).filter((entry) =>
+						evalWhere(this.readProps(entry, card.filterFields), card.filter!),
+					),
+				}))
+				: groups;
+
+			if (card.formula) {
+				return withCard(this.buildRowsForMetricFormula(filtered, card.formula)[0]);
+			}
+
+			let rows = this.buildRowsForMetric(filtered, metricProp, card.operation, card.dataType);
+			if (trendProp.id) {
+				rows = this.applyMetricTrend(rows, filtered, metricProp, trendProp, trendWindow);
+			}
+			return withCard(rows[0]);
+		});
+	}
+
+	/**
+	 * Builds the metric row of a formula: the value and the notes of its
+	 * first aggregate.
+	 *
+	 * @param groups - Grouped data from Bases
+	 * @param formula - Parsed formula
+	 */
+	private buildRowsForMetricFormula(groups: any[], formula: MetricFormula): QueryResultRow[] {
+		const notes: FormulaNote[] = [];
+		for (const group of groups) {
+			for (const entry of group.entries as any[]) {
+				const path = entry.file?.path;
+				if (path) notes.push({ path, props: this.readProps(entry, formula.fields) });
+			}
+		}
+
+		const result = evalMetricFormula(formula, notes);
+		return [
+			{
+				x: result.value != null ? String(result.value) : "",
+				y: result.value ?? 0,
+				notes: result.notes,
+				props: {
+					_metricValue: result.value,
+					_metricError: null,
+					_metricDataType: "number",
+					_metricOperation: "formula",
+				},
+			} as QueryResultRow,
+		];
+	}
+
+	/**
+	 * Metric row that only carries an error message.
+	 */
+	private buildMetricErrorRow(message: string): QueryResultRow {
+		return {
+			x: "",
+			y: 0,
+			notes: [],
+			props: {
+				_metricValue: null,
+				_metricError: message,
+			},
+		} as QueryResultRow;
+	}
+
+	/**
+	 * Properties of an entry by name, for card filters and formulas: lists
+	 * stay lists (even with one item, so `contains` matches items), single
+	 * values are strings.
+	 */
+	private readProps(entry: any, fields: string[]): Record<string, any> {
+		const props: Record<string, any> = {};
+		for (const field of fields) {
+			const prop: SelectedProp = { id: propertyId(field), name: field };
+			props[field] = this.readList(entry, prop) ?? this.readValue(entry, prop);
+		}
+		return props;
+	}
+
 	private buildRowsForScatter(
 		groups: any[],
 		xProp: SelectedProp,
 		yProp: SelectedProp,
 		seriesProp: SelectedProp,
+		sizeProp: SelectedProp,
 	): QueryResultRow[] {
 		const rows: QueryResultRow[] = [];
 
@@ -995,10 +1516,14 @@ export class ChartNotesBasesView extends BasesView {
 				const seriesStr = this.readValue(entry, seriesProp);
 				const series = seriesStr != null ? String(seriesStr) : undefined;
 
+				// Bubble size: points without one are drawn at the smallest size
+				const size = sizeProp.id ? parseSize(this.readValue(entry, sizeProp)) : undefined;
+
 				rows.push({
 					x: xNum,
 					y: yNum,
 					series,
+					size,
 					notes: file?.path ? [file.path] : [],
 					props: {},
 				} as QueryResultRow);
@@ -1024,6 +1549,11 @@ export class ChartNotesBasesView extends BasesView {
 		endProp: SelectedProp,
 		dueProp: SelectedProp,
 		durationProp: SelectedProp,
+		dependsOnProp: SelectedProp,
+		progressProp: SelectedProp,
+		milestoneProp: SelectedProp,
+		baselineStartProp: SelectedProp,
+		baselineEndProp: SelectedProp,
 		groupProp: SelectedProp, // Compatibility with old views
 	): QueryResultRow[] {
 		const rows: QueryResultRow[] = [];
@@ -1166,6 +1696,11 @@ export class ChartNotesBasesView extends BasesView {
 					props[durationProp.name] = durationMinutes;
 
 				const notePath = file?.path;
+				const dependsOn = parseDependsOn(this.readValues(entry, dependsOnProp));
+				const progress = parseProgress(this.readValues(entry, progressProp));
+				const milestone = parseMilestoneFlag(this.readValue(entry, milestoneProp));
+				const baselineStart = this.parseDate(this.readValue(entry, baselineStartProp));
+				const baselineEnd = this.parseDate(this.readValue(entry, baselineEndProp));
 
 				rows.push({
 					x: label,
@@ -1174,6 +1709,11 @@ export class ChartNotesBasesView extends BasesView {
 					start,
 					end,
 					due: due ?? undefined,
+					dependsOn: dependsOn.length ? dependsOn : undefined,
+					progress,
+					milestone: milestone || undefined,
+					baselineStart: baselineStart ?? undefined,
+					baselineEnd: baselineEnd ?? undefined,
 					notes: notePath ? [notePath] : [],
 					props,
 				});
@@ -1197,8 +1737,10 @@ export class ChartNotesBasesView extends BasesView {
 		end: SelectedProp;
 		due: SelectedProp;
 		duration: SelectedProp;
+		dependsOn: SelectedProp;
 		group: SelectedProp;
 		label: SelectedProp;
+		size: SelectedProp;
 		aggMode: AggregationMode;
 		chartType: AllowedChartType;
 	}): any {
@@ -1223,8 +1765,10 @@ export class ChartNotesBasesView extends BasesView {
 			end: fields.end.name ?? "end",
 			due: fields.due.name ?? "due",
 			duration: fields.duration.name ?? "duration",
+			dependsOn: fields.dependsOn.name ?? undefined,
 			group: groupKeyName,
 			label: labelKey,
+			size: fields.size.name ?? undefined,
 		};
 	}
 }
@@ -0,0 +1,266 @@
+/**
+ * Chart Annotations
+ *
+ * Reference lines (targets, limits), shaded value bands and vertical date
+ * annotations for bar and line charts. Each kind can be written as text, one
+ * entry per line or separated by ";":
+ *
+ * - reference line: `40 Target` (value, then label)
+ * - band: `0..20 Low`, `100.. SLA breach` (open-ended) or `0-20 Low`
+ * - date: `2026-03-01 Release 2.0`
+ *
+ * An entry may end with a color (`40 Target #e67e22`). Code blocks can also
+ * use objects: `{ value, label, color }`, `{ from, to, label, color }`,
+ * `{ date, label, color }`.
+ */
+
+import type { ChartAnnotation } from "./types";
+import { toDate } from "./utils";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReferenceLine {
+	value: number;
+	label: string;
+	color?: string;
+}
+
+export interface ValueBand {
+	/** Lower bound; -Infinity when open */
+	from: number;
+	/** Upper bound; Infinity when open */
+	to: number;
+	label: string;
+	color?: string;
+}
+
+export interface ChartAnnotations {
+	lines: ReferenceLine[];
+	bands: ValueBand[];
+	dates: ChartAnnotation[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const NUMBER = "[-+]?\\d+(?:[.,]\\d+)?";
+const COLOR_RE = /\s+(#[0-9a-f]{3,8}|(?:rgb|hsl)a?\([^)]*\))$/i;
+const LINE_RE = new RegExp(`^(${NUMBER})\\s*:?\\s*(.*)$`);
+const BAND_RANGE_RE = new RegExp(`^(${NUMBER})?\\s*\\.\\.\\s*(${NUMBER})?\\s*:?\\s*(.*)$`);
+const BAND_DASH_RE = new RegExp(`^(${NUMBER})\\s*[-–]\\s*(${NUMBER})\\s*:?\\s*(.*)$`);
+const DATE_RE = /^(\d{4}-\d{2}-\d{2}(?:[ T]\d{2}:\d{2})?)\s*:?\s*(.*)$/;
+
+/** Default property of notes that become date annotations */
+export const DEFAULT_ANNOTATION_PROPERTY = "annotation";
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function toNumber(raw: unknown): number | null {
+	if (raw == null || raw === "") return null;
+	const n = typeof raw === "number" ? raw : Number(String(raw).trim().replace(",", "."));
+	return Number.isFinite(n) ? n : null;
+}
+
+function cleanColor(raw: unknown): string | undefined {
+	const s = raw == null ? "" : String(raw).trim();
+	return s || undefined;
+}
+
+/**
+ * Splits a text option into entries (lines or ";") and a list into items.
+ */
+function toEntries(raw: unknown): unknown[] {
+	if (raw == null) return [];
+	if (Array.isArray(raw)) return raw;
+	if (typeof raw === "object") return [raw];
+	return String(raw)
+		.split(/[;\n]/)
+		.map((s) => s.trim())
+		.filter((s) => s.length > 0);
+}
+
+/**
+ * Removes a trailing color from a text entry.
+ */
+function splitColor(text: string): { text: string; color?: string } {
+	const m = text.match(COLOR_RE);
+	if (!m) return { text: text.trim() };
+	return { text: text.slice(0, m.index).trim(), color: m[1] };
+}
+
+/**
+ * Reads reference lines; entries that can't be read are skipped.
+ */
+export function parseReferenceLines(raw: unknown): ReferenceLine[] {
+	const lines: ReferenceLine[] = [];
+	for (const entry of toEntries(raw)) {
+		if (typeof entry === "number") {
+			lines.push({ value: entry, label: "" });
+		} else if (entry && typeof entry === "object") {
+			const obj = entry as Record<string, unknown>;
+			const value = toNumber(obj.value ?? obj.y);
+			if (value == null) continue;
+			lines.push({ value, label: String(obj.label ?? "").trim(), color: cleanColor(obj.color) });
+		} else {
+			const { text, color } = splitColor(String(entry));
+			const m = text.match(LINE_RE);
+			const value = m ? toNumber(m[1]) : null;
+			if (value == null) continue;
+			lines.push({ value, label: m![2].trim(), color });
+		}
+	}
+	return lines;
+}
+
+/**
+ * Reads value bands; bounds are swapped when written in reverse.
+ */
+export function parseValueBands(raw: unknown): ValueBand[] {
+	const bands: ValueBand[] = [];
+	const push = (from: number | null, to: number | null, label: string, color?: string) => {
+		if (from == null && to == null) return;
+		const lo = from ?? -Infinity;
+		const hi = to ?? Infinity;
+		bands.push({ from: Math.min(lo, hi), to: Math.max(lo, hi), label, color });
+	};
+
+	for (const entry of toEntries(raw)) {
+		if (entry && typeof entry === "object" && !Array.isArray(entry)) {
+			const obj = entry as Record<string, unknown>;
+			push(toNumber(obj.from), toNumber(obj.to), String(obj.label ?? "").trim(), cleanColor(obj.color));
+			continue;
+		}
+		const { text, color } = splitColor(String(entry));
+		const m = text.match(BAND_RANGE_RE) ?? text.match(BAND_DASH_RE);
+		if (!m) continue;
+		push(toNumber(m[1]), toNumber(m[2]), m[3].trim(), color);
+	}
+	return bands;
+}
+
+/**
+ * Reads vertical date annotations.
+ */
+export function parseDateAnnotations(raw: unknown): ChartAnnotation[] {
+	const dates: ChartAnnotation[] = [];
+	for (const entry of toEntries(raw)) {
+		if (entry instanceof Date) {
+			if (!isNaN(entry.getTime())) dates.push({ date: entry, label: "" });
+		} else if (entry && typeof entry === "object") {
+			const obj = entry as Record<string, unknown>;
+			const date = toDate(obj.date instanceof Date ? obj.date : String(obj.date ?? ""));
+			if (!date) continue;
+			dates.push({ date, label: String(obj.label ?? "").trim(), color: cleanColor(obj.color) });
+		} else {
+			const { text, color } = splitColor(String(entry));
+			const m = text.match(DATE_RE);
+			const date = m ? toDate(m[1]) : null;
+			if (!date) continue;
+			dates.push({ date, label: m![2].trim(), color });
+		}
+	}
+	return dates;
+}
+
+/**
+ * Date annotation for a note whose annotation property holds a date.
+ * The label is the note name.
+ */
+export function noteAnnotation(path: string, raw: unknown): ChartAnnotation | null {
+	const value = Array.isArray(raw) ? raw[0] : raw;
+	const date = value instanceof Date ? value : typeof value === "string" ? toDate(value) : null;
+	if (!date) return null;
+	const name = path.split("/").pop() ?? path;
+	return { date, label: name.replace(/\.md$/i, ""), note: path };
+}
+
+/**
+ * Annotations of a chart: those from the options plus those from notes.
+ */
+export function resolveAnnotations(
+	options: { referenceLines?: unknown; bands?: unknown; annotations?: unknown } | undefined,
+	fromNotes: ChartAnnotation[] = []
+): ChartAnnotations {
+	return {
+		lines: parseReferenceLines(options?.referenceLines),
+		bands: parseValueBands(options?.bands),
+		dates: [...parseDateAnnotations(options?.annotations), ...fromNotes],
+	};
+}
+
+// ============================================================================
+// Geometry
+// ============================================================================
+
+/**
+ * Widens a Y domain so every reference line and finite band bound is visible.
+ */
+export function extendValueDomain(
+	min: number,
+	max: number,
+	annotations: ChartAnnotations
+): { min: number; max: number } {
+	let lo = min;
+	let hi = max;
+	const include = (v: number) => {
+		if (!Number.isFinite(v)) return;
+		if (v < lo) lo = v;
+		if (v > hi) hi = v;
+	};
+	annotations.lines.forEach((l) => include(l.value));
+	annotations.bands.forEach((b) => {
+		include(b.from);
+		include(b.to);
+	});
+	return { min: lo, max: hi };
+}
+
+/**
+ * Start date of a category label: a date, or a date bucket key
+ * ("2026-03-02 (W)", "2026-03", "2026-Q1", "2026").
+ *
+ * @param yearKeys - Whether X is grouped by year; otherwise a four-digit
+ *   label ("1000") is a plain value, not a year
+ */
+export function categoryStart(label: unknown, yearKeys = false): Date | null {
+	if (label instanceof Date) return isNaN(label.getTime()) ? null : label;
+	const s = String(label ?? "").trim();
+
+	let m = s.match(/^(\d{4}-\d{2}-\d{2})(?: \(W\))?$/);
+	if (m) return toDate(m[1]);
+	m = s.match(/^(\d{4})-(\d{2})$/);
+	if (m) return new Date(Number(m[1]), Number(m[2]) - 1, 1);
+	m = s.match(/^(\d{4})-Q([1-4])$/);
+	if (m) return new Date(Number(m[1]), (Number(m[2]) - 1) * 3, 1);
+	m = yearKeys ? s.match(/^(\d{4})$/) : null;
+	if (m) return new Date(Number(m[1]), 0, 1);
+	return /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}/.test(s) ? toDate(s) : null;
+}
+
+/**
+ * Position of a date among ascending date categories, in category units:
+ * the integer part is the category containing the date, the fraction how far
+ * into it. Returns null when the categories aren't ascending dates or the
+ * date is outside them.
+ */
+export function categoryPosition(categories: unknown[], date: Date, yearKeys = false): number | null {
+	const starts = categories.map((c) => categoryStart(c, yearKeys));
+	if (starts.length === 0 || starts.some((d) => d == null)) return null;
+	const ts = (starts as Date[]).map((d) => d.getTime());
+	if (ts.some((v, i) => i > 0 && v <= ts[i - 1])) return null;
+	const t = date.getTime();
+
+	for (let i = 0; i < ts.length; i++) {
+		const next =
+			i + 1 < ts.length
+				? ts[i + 1]
+				: ts[i] + (ts.length > 1 ? ts[i] - ts[i - 1] : 24 * 60 * 60 * 1000);
+		if (t >= ts[i] && t < next) return i + (t - ts[i]) / (next - ts[i]);
+	}
+	return null;
+}
@@ -0,0 +1,245 @@
+/**
+ * Chart Export
+ *
+ * Export action of the chart title row: saves the rendered chart as an SVG
+ * or PNG file in the vault (the configured folder, or Obsidian's attachment
+ * folder) and can copy an embed of the new file to the clipboard. The data
+ * behind the chart can be copied as a Markdown table or saved as CSV.
+ */
+
+import { App, Menu, Notice, TFile, normalizePath } from "obsidian";
+import type { ChartSpec, QueryResult } from "./types";
+import { buildExportSvg, exportFileName, readLegend } from "./renderer/svg-export";
+import { chartDataTable, toCsv, toMarkdownTable } from "./renderer/data-export";
+
+declare const app: App;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ExportFormat = "svg" | "png" | "csv";
+
+export interface ExportOptions {
+	/** Vault folder for exported files; empty = Obsidian's attachment folder */
+	folder: string;
+	/** Copy a ![[...]] embed of the new file to the clipboard */
+	copyEmbed: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** PNG pixel density, so exports stay sharp on slides */
+const PNG_SCALE = 2;
+
+const exportOptions: ExportOptions = {
+	folder: "",
+	copyEmbed: true,
+};
+
+export function setExportOptions(next: Partial<ExportOptions>): void {
+	Object.assign(exportOptions, next);
+}
+
+// ============================================================================
+// Title Row Action
+// ============================================================================
+
+/**
+ * Adds the export button to a chart's title row. Image items are offered
+ * only for SVG charts, data items only when the chart has rows.
+ *
+ * @param sourcePath - Note or Base showing the chart (for attachment folders and links)
+ */
+export function addExportButton(
+	container: HTMLElement,
+	titleRow: HTMLElement,
+	spec: ChartSpec,
+	data: QueryResult,
+	sourcePath?: string
+): void {
+	const hasImage = !!container.querySelector(".chart-notes-inner svg");
+	const hasData = data.rows.length > 0;
+	if (!hasImage && !hasData) return;
+
+	const title = spec.options?.title ?? "";
+	const button = titleRow.createEl("button", {
+		cls: "prop-charts-export-btn",
+		text: "⤓",
+	});
+	button.setAttr("title", "Export chart");
+	button.setAttr("aria-label", "Export chart");
+	button.addEventListener("click", (ev: MouseEvent) => {
+		ev.preventDefault();
+		const menu = new Menu();
+		if (hasImage) {
+			menu.addItem((item) =>
+				item
+					.setTitle("Export as SVG")
+					.setIcon("image-file")
+					.onClick(() => void exportChart(container, "svg", title, sourcePath))
+			);
+			menu.addItem((item) =>
+				item
+					.setTitle("Export as PNG")
+					.setIcon("image")
+					.onClick(() => void exportChart(container, "png", title, sourcePath))
+			);
+		}
+		if (hasImage && hasData) menu.addSeparator();
+		if (hasData) {
+			menu.addItem((item) =>
+				item
+					.setTitle("Copy as Markdown table")
+					.setIcon("table")
+					.onClick(() => void copyMarkdownTable(spec, data))
+			);
+			menu.addItem((item) =>
+				item
+					.setTitle("Save as CSV")
+					.setIcon("file-spreadsheet")
+					.onClick(() => void exportCsv(spec, data, title, sourcePath))
+			);
+		}
+		menu.showAtMouseEvent(ev);
+	});
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+async function exportChart(
+	container: HTMLElement,
+	format: ExportFormat,
+	title: string,
+	sourcePath?: string
+): Promise<void> {
+	const svg = container.querySelector<SVGSVGElement>(".chart-notes-inner svg");
+	if (!svg) {
+		new Notice("Nothing to export: this chart has no image.");
+		return;
+	}
+
+	const inner = svg.parentElement as HTMLElement | null;
+	const innerBackground = inner ? getComputedStyle(inner).backgroundColor : "";
+	const { markup, width, height } = buildExportSvg(svg, {
+		width: svg.getBoundingClientRect().width || Number(svg.getAttribute("width")) || 600,
+		height: Number(svg.getAttribute("height")) || svg.getBoundingClientRect().height,
+		title,
+		legend: readLegend(container),
+		background: isTransparent(innerBackground) ? undefined : innerBackground,
+	});
+
+	const source = sourcePath ?? app.workspace.getActiveFile()?.path ?? "";
+	try {
+		const path = await availablePath(exportFileName(title, format), source);
+		const file =
+			format === "svg"
+				? await app.vault.create(path, markup)
+				: await app.vault.createBinary(path, await rasterize(markup, width, height));
+
+		let copied = false;
+		if (exportOptions.copyEmbed) {
+			copied = await copyEmbed(file, source);
+		}
+		new Notice(`Chart exported to ${file.path}${copied ? " (embed copied)" : ""}`);
+	} catch (e) {
+		console.error("Chart Notes: export failed", e);
+		new Notice(`Chart export failed: ${(e as Error).message}`);
+	}
+}
+
+async function copyMarkdownTable(spec: ChartSpec, data: QueryResult): Promise<void> {
+	try {
+		await navigator.clipboard.writeText(toMarkdownTable(chartDataTable(spec, data)));
+		new Notice(`Copied ${data.rows.length} rows as a Markdown table`);
+	} catch (e) {
+		console.error("Chart Notes: copy failed", e);
+		new Notice(`Copy failed: ${(e as Error).message}`);
+	}
+}
+
+async function exportCsv(
+	spec: ChartSpec,
+	data: QueryResult,
+	title: string,
+	sourcePath?: string
+): Promise<void> {
+	const source = sourcePath ?? app.workspace.getActiveFile()?.path ?? "";
+	try {
+		const path = await availablePath(exportFileName(title, "csv"), source);
+		const file = await app.vault.create(path, toCsv(chartDataTable(spec, data)));
+		new Notice(`Chart data saved to ${file.path}`);
+	} catch (e) {
+		console.error("Chart Notes: CSV export failed", e);
+		new Notice(`CSV export failed: ${(e as Error).message}`);
+	}
+}
+
+function isTransparent(color: string): boolean {
+	return !color || color === "transparent" || /rgba\(.*,\s*0\)$/.test(color);
+}
+
+/**
+ * Path for the new file: in the configured folder (created if missing) or
+ * where Obsidian puts attachments for the source note. Never overwrites.
+ */
+async function availablePath(fileName: string, sourcePath: string): Promise<string> {
+	const folder = normalizePath(exportOptions.folder.trim());
+	if (!exportOptions.folder.trim() || folder === "/") {
+		return app.fileManager.getAvailablePathForAttachment(fileName, sourcePath);
+	}
+
+	if (!app.vault.getAbstractFileByPath(folder)) {
+		await app.vault.createFolder(folder);
+	}
+	const dot = fileName.lastIndexOf(".");
+	const base = fileName.slice(0, dot);
+	const ext = fileName.slice(dot);
+	let path = normalizePath(`${folder}/${fileName}`);
+	for (let n = 1; app.vault.getAbstractFileByPath(path); n++) {
+		path = normalizePath(`${folder}/${base} ${n}${ext}`);
+	}
+	return path;
+}
+
+/**
+ * Draws the SVG on a canvas and encodes it as PNG.
+ */
+function rasterize(markup: string, width: number, height: number): Promise<ArrayBuffer> {
+	return new Promise((resolve, reject) => {
+		const img = new Image();
+		img.onload = () => {
+			const canvas = document.createElement("canvas");
+			canvas.width = Math.round(width * PNG_SCALE);
+			canvas.height = Math.round(height * PNG_SCALE);
+			const ctx = canvas.getContext("2d");
+			if (!ctx) {
+				reject(new Error("canvas not available"));
+				return;
+			}
+			ctx.scale(PNG_SCALE, PNG_SCALE);
+			ctx.drawImage(img, 0, 0, width, height);
+			canvas.toBlob((blob) => {
+				if (!blob) reject(new Error("PNG encoding failed"));
+				else blob.arrayBuffer().then(resolve, reject);
+			}, "image/png");
+		};
+		img.onerror = () => reject(new Error("could not load the chart image"));
+		// A data URL keeps the canvas untainted
+		img.src = "data:image/svg+xml;charset=utf-8," + encodeURIComponent(markup);
+	});
+}
+
+async function copyEmbed(file: TFile, sourcePath: string): Promise<boolean> {
+	const link = app.fileManager.generateMarkdownLink(file, sourcePath);
+	try {
+		await navigator.clipboard.writeText(link.startsWith("!") ? link : "!" + link);
+		return true;
+	} catch {
+		return false;
+	}
+}
@@ -0,0 +1,134 @@
+/**
+ * Chart Notes Code Block
+ *
+ * Renders ```chartnotes fenced blocks. The block body is a YAML ChartSpec
+ * that runs through the query engine over the indexer, so charts can live
+ * inline in any note without a Base.
+ */
+
+import { App, MarkdownRenderChild, TFile, parseYaml } from "obsidian";
+import type { PropChartsIndexer } from "./indexer";
+import type { PropChartsQueryEngine } from "./query";
+import type { PropChartsRenderer } from "./renderer";
+import type { RenderContext } from "./renderer/renderer-common";
+import type { ChartSpec } from "./types";
+import { parseChartSpec } from "./spec";
+import { matchPath } from "./utils";
+
+export const CHARTNOTES_CODE_BLOCK = "chartnotes";
+
+/** Delay before re-rendering after index changes (batches bursts of edits) */
+const RERENDER_DELAY_MS = 300;
+
+export class ChartNotesCodeBlock extends MarkdownRenderChild {
+	private spec: ChartSpec | null = null;
+	private renderedNotes: Set<string> = new Set();
+	private rerenderTimer: number | null = null;
+	private unsubscribe: (() => void) | null = null;
+
+	constructor(
+		containerEl: HTMLElement,
+		private readonly source: string,
+		private readonly sourcePath: string,
+		private readonly app: App,
+		private readonly indexer: PropChartsIndexer,
+		private readonly query: PropChartsQueryEngine,
+		private readonly renderer: PropChartsRenderer
+	) {
+		super(containerEl);
+	}
+
+	onload(): void {
+		this.unsubscribe = this.indexer.onChange((paths) => this.onIndexChanged(paths));
+		this.render();
+	}
+
+	onunload(): void {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		if (this.rerenderTimer != null) {
+			window.clearTimeout(this.rerenderTimer);
+			this.rerenderTimer = null;
+		}
+	}
+
+	// ============================================================================
+	// Rendering
+	// ============================================================================
+
+	private render(): void {
+		const el = this.containerEl;
+
+		let spec: ChartSpec;
+		try {
+			spec = parseChartSpec(parseYaml(this.source));
+		} catch (e) {
+			this.spec = null;
+			this.renderError(`Invalid chartnotes block: ${(e as Error).message}`);
+			return;
+		}
+		this.spec = spec;
+
+		let result;
+		try {
+			result = this.query.run(spec);
+		} catch (e) {
+			this.renderError((e as Error).message);
+			return;
+		}
+
+		this.renderedNotes = new Set(result.rows.flatMap((r) => r.notes ?? []));
+
+		const ctx: RenderContext = {
+			sourcePath: this.sourcePath,
+			refresh: () => this.render(),
+			reindexFile: async (path: string) => {
+				const file = this.app.vault.getAbstractFileByPath(path);
+				if (file instanceof TFile) {
+					await this.indexer.updateFile(file);
+				}
+			},
+		};
+
+		this.renderer.render(el, spec, result, ctx);
+	}
+
+	private renderError(message: string): void {
+		const el = this.containerEl;
+		el.empty();
+		el.addClass("prop-charts-container");
+		el.createDiv({ cls: "prop-charts-error", text: message });
+	}
+
+	// ============================================================================
+	// Live Updates
+	// ============================================================================
+
+	private onIndexChanged(paths: string[] | null): void {
+		if (paths && !this.isRelevant(paths)) return;
+		if (this.rerenderTimer != null) {
+			window.clearTimeout(this.rerenderTimer);
+		}
+		this.rerenderTimer = window.setTimeout(() => {
+			this.rerenderTimer = null;
+			this.render();
+		}, RERENDER_DELAY_MS);
+	}
+
+	/**
+	 * A change is relevant if it touches a note already in the chart or a note
+	 * that could now match the block's source paths.
+	 */
+	private isRelevant(paths: string[]): boolean {
+		// An invalid spec never re-renders on data changes
+		if (!this.spec) return false;
+
+		const sourcePaths = this.spec.source?.paths ?? [];
+		return paths.some(
+			(p) =>
+				this.renderedNotes.has(p) ||
+				sourcePaths.length === 0 ||
+				matchPath(p, sourcePaths)
+		);
+	}
+}
@@ -0,0 +1,159 @@
+/**
+ * Date Buckets
+ *
+ * Groups dates into day / week / month / quarter / year buckets, picks a
+ * granularity from the span of the data ("auto") and lists every bucket in
+ * a range so empty buckets can be filled with zero.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DateBucket = "day" | "week" | "month" | "quarter" | "year";
+
+/** First day of the week: 0 = Sunday, 1 = Monday */
+export type WeekStart = 0 | 1;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Largest span (in days) for each granularity when resolving "auto".
+ * Keeps charts roughly between 10 and 45 buckets.
+ */
+const AUTO_MAX_SPAN_DAYS: [DateBucket, number][] = [
+	["day", 45],
+	["week", 180],
+	["month", 3 * 365],
+	["quarter", 8 * 365],
+];
+
+/** Upper bound for enumerateBuckets, so a bad date can't create thousands of bars */
+export const MAX_FILLED_BUCKETS = 2000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Formats a date as YYYY-MM-DD string
+ */
+export function formatDay(date: Date): string {
+	const year = date.getFullYear();
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+	return `${year}-${month}-${day}`;
+}
+
+/**
+ * Returns the first day (local midnight) of the bucket containing `date`.
+ * Weeks start on Monday unless `weekStart` is 0 (Sunday).
+ */
+export function bucketStart(date: Date, bucket: DateBucket, weekStart: WeekStart = 1): Date {
+	const y = date.getFullYear();
+	const m = date.getMonth();
+	switch (bucket) {
+		case "day":
+			return new Date(y, m, date.getDate());
+		case "week": {
+			const result = new Date(y, m, date.getDate());
+			const dayOfWeek = (result.getDay() + 7 - weekStart) % 7; // days since the week started
+			result.setDate(result.getDate() - dayOfWeek);
+			return result;
+		}
+		case "month":
+			return new Date(y, m, 1);
+		case "quarter":
+			return new Date(y, Math.floor(m / 3) * 3, 1);
+		case "year":
+			return new Date(y, 0, 1);
+	}
+}
+
+/**
+ * Returns the start of the bucket following the one that starts at `start`.
+ */
+export function nextBucketStart(start: Date, bucket: DateBucket): Date {
+	const y = start.getFullYear();
+	const m = start.getMonth();
+	switch (bucket) {
+		case "day":
+			return new Date(y, m, start.getDate() + 1);
+		case "week":
+			return new Date(y, m, start.getDate() + 7);
+		case "month":
+			return new Date(y, m + 1, 1);
+		case "quarter":
+			return new Date(y, m + 3, 1);
+		case "year":
+			return new Date(y + 1, 0, 1);
+	}
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Returns the label of the bucket containing `date`:
+ * - day: 2024-03-15
+ * - week: 2024-03-11 (W) (first day of that week)
+ * - month: 2024-03
+ * - quarter: 2024-Q1
+ * - year: 2024
+ */
+export function bucketKey(date: Date, bucket: DateBucket, weekStart: WeekStart = 1): string {
+	const start = bucketStart(date, bucket, weekStart);
+	switch (bucket) {
+		case "day":
+			return formatDay(start);
+		case "week":
+			return `${formatDay(start)} (W)`;
+		case "month":
+			return `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, "0")}`;
+		case "quarter":
+			return `${start.getFullYear()}-Q${Math.floor(start.getMonth() / 3) + 1}`;
+		case "year":
+			return `${start.getFullYear()}`;
+	}
+}
+
+/**
+ * Picks a granularity from the span between the earliest and latest date.
+ *
+ * @param min - Earliest date in the data
+ * @param max - Latest date in the data
+ * @returns day (≤ 45 days), week (≤ 180 days), month (≤ 3 years), quarter (≤ 8 years) or year
+ */
+export function resolveAutoBucket(min: Date, max: Date): DateBucket {
+	const spanDays = Math.abs(max.getTime() - min.getTime()) / MS_PER_DAY;
+	for (const [bucket, maxSpan] of AUTO_MAX_SPAN_DAYS) {
+		if (spanDays <= maxSpan) return bucket;
+	}
+	return "year";
+}
+
+/**
+ * Lists the keys of every bucket between `min` and `max` (inclusive), in order.
+ * Returns an empty list if the range needs more than MAX_FILLED_BUCKETS buckets.
+ */
+export function enumerateBuckets(
+	min: Date,
+	max: Date,
+	bucket: DateBucket,
+	weekStart: WeekStart = 1
+): string[] {
+	const keys: string[] = [];
+	const end = bucketStart(max, bucket, weekStart).getTime();
+	let cursor = bucketStart(min, bucket, weekStart);
+	while (cursor.getTime() <= end) {
+		if (keys.length >= MAX_FILLED_BUCKETS) return [];
+		keys.push(bucketKey(cursor, bucket, weekStart));
+		cursor = nextBucketStart(cursor, bucket);
+	}
+	return keys;
+}
@@ -0,0 +1,91 @@
+/**
+ * Gantt Baseline
+ *
+ * Compares a task's actual dates with its planned (baseline) dates: builds
+ * the baseline interval drawn as a ghost bar, the slip in days and a
+ * summary of how many tasks are late.
+ */
+
+import type { TaskInterval } from "./gantt-schedule";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BaselineSlip {
+	/** Actual start − planned start, in days (positive = later than planned) */
+	startDays: number;
+	/** Actual end − planned end, in days (positive = late) */
+	endDays: number;
+}
+
+export interface BaselineSummary {
+	/** Tasks with a baseline */
+	planned: number;
+	/** Tasks ending after their planned end */
+	late: number;
+	/** Tasks ending before their planned end */
+	early: number;
+	/** Largest end slip among late tasks, in days */
+	maxSlipDays: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Builds the planned interval of a task. With only one planned date, the
+ * other one keeps the task's actual duration. Returns null without any.
+ */
+export function resolveBaseline(
+	actual: TaskInterval,
+	plannedStart?: Date | null,
+	plannedEnd?: Date | null
+): TaskInterval | null {
+	const start = plannedStart ? plannedStart.getTime() : NaN;
+	const end = plannedEnd ? plannedEnd.getTime() : NaN;
+	const length = actual.end - actual.start;
+
+	if (!isNaN(start) && !isNaN(end)) {
+		return start <= end ? { start, end } : { start: end, end: start };
+	}
+	if (!isNaN(start)) return { start, end: start + length };
+	if (!isNaN(end)) return { start: end - length, end };
+	return null;
+}
+
+/**
+ * Slip of the actual dates against the baseline, rounded to 0.1 day.
+ */
+export function baselineSlip(actual: TaskInterval, baseline: TaskInterval): BaselineSlip {
+	const days = (ms: number) => Math.round((ms / MS_PER_DAY) * 10) / 10;
+	return {
+		startDays: days(actual.start - baseline.start),
+		endDays: days(actual.end - baseline.end),
+	};
+}
+
+/**
+ * Counts late and early tasks. Tasks without a baseline are skipped.
+ */
+export function summarizeBaseline(slips: (BaselineSlip | null)[]): BaselineSummary {
+	const summary: BaselineSummary = { planned: 0, late: 0, early: 0, maxSlipDays: 0 };
+	for (const slip of slips) {
+		if (!slip) continue;
+		summary.planned++;
+		if (slip.endDays > 0) {
+			summary.late++;
+			summary.maxSlipDays = Math.max(summary.maxSlipDays, slip.endDays);
+		} else if (slip.endDays < 0) {
+			summary.early++;
+		}
+	}
+	return summary;
+}
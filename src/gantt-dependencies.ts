@@ -0,0 +1,183 @@
+/**
+ * Gantt Dependencies
+ *
+ * Resolves "depends on" links between Gantt tasks into finish-to-start
+ * edges, flags tasks that start before a predecessor ends and finds the
+ * critical path (the longest chain of task durations through the graph).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DependencyTask {
+	/** Note path, e.g. "Projects/Design.md" */
+	path?: string;
+	/** Task label shown in the chart */
+	label: string;
+	/** Start / end timestamps (ms) */
+	start: number;
+	end: number;
+	/** Raw links to predecessors, e.g. ["[[Design]]", "Research"] */
+	dependsOn: string[];
+}
+
+export interface DependencyEdge {
+	/** Index of the predecessor task */
+	from: number;
+	/** Index of the dependent task */
+	to: number;
+	/** True when the dependent task starts before the predecessor ends */
+	violated: boolean;
+}
+
+export interface DependencyGraph {
+	edges: DependencyEdge[];
+	/** Links that don't match any task in the chart */
+	unresolved: { task: number; target: string }[];
+}
+
+export interface CriticalPath {
+	/** Task indices on the path, from first to last */
+	tasks: number[];
+	/** Indices into the edge list */
+	edges: number[];
+	/** Sum of the task durations on the path (ms) */
+	duration: number;
+}
+
+// ============================================================================
+// Link Parsing
+// ============================================================================
+
+/**
+ * Normalizes a link or path to the key used for matching:
+ * "[[Projects/Design.md#Goals|Design]]" → "design".
+ */
+export function linkKey(raw: string): string {
+	let s = String(raw).trim();
+	const wiki = s.match(/^!?\[\[([\s\S]*?)\]\]$/);
+	if (wiki) s = wiki[1];
+	s = s.split("|")[0].split("#")[0].trim();
+	s = s.replace(/\.md$/i, "");
+	const slash = s.lastIndexOf("/");
+	if (slash >= 0) s = s.slice(slash + 1);
+	return s.trim().toLowerCase();
+}
+
+/**
+ * Reads a "depends on" property: a list, a single link, several
+ * [[links]] in one string or a comma-separated list of names.
+ */
+export function parseDependsOn(raw: unknown): string[] {
+	if (raw == null) return [];
+	if (Array.isArray(raw)) return raw.flatMap((item) => parseDependsOn(item));
+
+	const s = String(raw).trim();
+	if (!s) return [];
+
+	const links = s.match(/\[\[[^\]]+\]\]/g);
+	if (links) return links;
+	return s
+		.split(",")
+		.map((part) => part.trim())
+		.filter((part) => part);
+}
+
+// ============================================================================
+// Graph
+// ============================================================================
+
+/**
+ * Matches each task's links to the other tasks, by note name or label.
+ * Self-references and duplicate links are ignored.
+ */
+export function resolveDependencies(tasks: DependencyTask[]): DependencyGraph {
+	const byKey = new Map<string, number>();
+	tasks.forEach((task, idx) => {
+		for (const key of [task.path ? linkKey(task.path) : "", linkKey(task.label)]) {
+			if (key && !byKey.has(key)) byKey.set(key, idx);
+		}
+	});
+
+	const edges: DependencyEdge[] = [];
+	const unresolved: DependencyGraph["unresolved"] = [];
+	const seen = new Set<string>();
+
+	tasks.forEach((task, to) => {
+		for (const target of task.dependsOn) {
+			const from = byKey.get(linkKey(target));
+			if (from == null) {
+				unresolved.push({ task: to, target });
+				continue;
+			}
+			const id = `${from}->${to}`;
+			if (from === to || seen.has(id)) continue;
+			seen.add(id);
+			edges.push({ from, to, violated: task.start < tasks[from].end });
+		}
+	});
+
+	return { edges, unresolved };
+}
+
+/**
+ * Finds the chain of dependent tasks with the largest total duration.
+ * Tasks caught in a dependency cycle are left out.
+ * Returns null when there are no dependencies.
+ */
+export function findCriticalPath(
+	tasks: DependencyTask[],
+	edges: DependencyEdge[]
+): CriticalPath | null {
+	if (!edges.length) return null;
+
+	const n = tasks.length;
+	const incoming: number[][] = Array.from({ length: n }, () => []);
+	const outgoing: number[][] = Array.from({ length: n }, () => []);
+	const inDegree = new Array<number>(n).fill(0);
+	edges.forEach((edge, idx) => {
+		incoming[edge.to].push(idx);
+		outgoing[edge.from].push(idx);
+		inDegree[edge.to]++;
+	});
+
+	const durationOf = (i: number) => Math.max(0, tasks[i].end - tasks[i].start);
+	const total = new Array<number>(n).fill(-1);
+	const viaEdge = new Array<number>(n).fill(-1);
+
+	// Kahn's algorithm: each task is settled once all its predecessors are
+	const queue: number[] = [];
+	for (let i = 0; i < n; i++) if (inDegree[i] === 0) queue.push(i);
+
+	while (queue.length) {
+		const node = queue.shift()!;
+		let best = -1;
+		for (const e of incoming[node]) {
+			const prev = total[edges[e].from];
+			if (prev > best) {
+				best = prev;
+				viaEdge[node] = e;
+			}
+		}
+		total[node] = Math.max(best, 0) + durationOf(node);
+		for (const e of outgoing[node]) {
+			if (--inDegree[edges[e].to] === 0) queue.push(edges[e].to);
+		}
+	}
+
+	let last = -1;
+	for (let i = 0; i < n; i++) {
+		if (viaEdge[i] >= 0 && (last < 0 || total[i] > total[last])) last = i;
+	}
+	if (last < 0) return null;
+
+	const pathTasks = [last];
+	const pathEdges: number[] = [];
+	for (let node = last; viaEdge[node] >= 0; node = edges[viaEdge[node]].from) {
+		pathEdges.unshift(viaEdge[node]);
+		pathTasks.unshift(edges[viaEdge[node]].from);
+	}
+
+	return { tasks: pathTasks, edges: pathEdges, duration: total[last] };
+}
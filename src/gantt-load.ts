@@ -0,0 +1,198 @@
+/**
+ * Gantt Load
+ *
+ * Sums the work of each lane (e.g. assignee) per time bucket for the load
+ * histogram under the Gantt, and the capacity of each bucket.
+ *
+ * A task without an estimate counts as full-time work: on each working day
+ * it covers, its overlap with that day up to the daily capacity. With an
+ * estimate (the duration property), the estimate is spread over the same
+ * days in proportion.
+ */
+
+import { bucketStart, nextBucketStart } from "./date-buckets";
+import { isNonWorkingDay, type NonWorkingDays } from "./gantt-scale";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LoadTask {
+	/** Lane the task belongs to (group key) */
+	lane: string;
+	/** Start / end timestamps (ms) */
+	start: number;
+	end: number;
+	/** Estimated work in minutes; without it the task counts as full-time */
+	effortMinutes?: number;
+}
+
+export interface LoadBucket {
+	start: number;
+	end: number;
+}
+
+export interface LaneLoad {
+	lane: string;
+	/** Work per bucket, in minutes */
+	minutes: number[];
+	/** Number of tasks contributing to each bucket */
+	tasks: number[];
+}
+
+export interface LoadResult {
+	lanes: LaneLoad[];
+	/** Capacity per bucket, in minutes (working days × daily capacity) */
+	capacity: number[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/** Default daily capacity: 8 hours */
+export const DEFAULT_CAPACITY_MINUTES = 8 * 60;
+
+/** Days looked at per task, so a bad date can't stall the chart */
+const MAX_TASK_DAYS = 3660;
+
+// ============================================================================
+// Capacity
+// ============================================================================
+
+/**
+ * Reads a daily capacity: "8h", "7.5", "450m", "6h/day".
+ * Plain numbers are hours. Returns minutes, or null when unreadable.
+ */
+export function parseCapacity(raw: unknown): number | null {
+	if (raw == null) return null;
+	if (typeof raw === "number") return raw > 0 ? raw * 60 : null;
+
+	const m = String(raw)
+		.trim()
+		.toLowerCase()
+		.match(/^(\d+(?:[.,]\d+)?)\s*(h|hours?|m|min|minutes?)?\s*(?:\/\s*d(?:ay)?)?$/);
+	if (!m) return null;
+
+	const value = Number(m[1].replace(",", "."));
+	if (!(value > 0)) return null;
+	return m[2] && m[2].startsWith("m") ? value : value * 60;
+}
+
+// ============================================================================
+// Load
+// ============================================================================
+
+/**
+ * Splits a task into minutes of work per day (keyed by local midnight).
+ */
+function dailyWork(
+	task: LoadTask,
+	nonWorking: NonWorkingDays,
+	capacityMinutes: number
+): Map<number, number> {
+	const work = new Map<number, number>();
+	if (!(task.end > task.start)) return work;
+
+	const overlaps = new Map<number, number>();
+	let day = bucketStart(new Date(task.start), "day");
+	for (let n = 0; day.getTime() < task.end && n < MAX_TASK_DAYS; n++) {
+		const next = nextBucketStart(day, "day");
+		const overlap =
+			(Math.min(task.end, next.getTime()) - Math.max(task.start, day.getTime())) /
+			MS_PER_MINUTE;
+		if (overlap > 0) overlaps.set(day.getTime(), overlap);
+		if (overlap > 0 && !isNonWorkingDay(day, nonWorking)) {
+			work.set(day.getTime(), Math.min(overlap, capacityMinutes));
+		}
+		day = next;
+	}
+
+	if (task.effortMinutes == null || !(task.effortMinutes >= 0)) return work;
+
+	// Spread the estimate; a task only on non-working days keeps its own days
+	const weights = work.size ? work : overlaps;
+	let total = 0;
+	weights.forEach((w) => (total += w));
+	const spread = new Map<number, number>();
+	if (total > 0) {
+		weights.forEach((w, key) => spread.set(key, (task.effortMinutes as number) * (w / total)));
+	}
+	return spread;
+}
+
+/**
+ * Bucket of a day (local midnight). The first bucket may start partway
+ * through a day (a domain that doesn't start at midnight): that day is
+ * counted in it.
+ */
+function bucketOfDay(buckets: LoadBucket[], day: number): number {
+	const first = buckets[0];
+	if (first && day < first.start && nextBucketStart(new Date(day), "day").getTime() > first.start) {
+		return 0;
+	}
+	return findBucket(buckets, day);
+}
+
+function findBucket(buckets: LoadBucket[], ts: number): number {
+	let lo = 0;
+	let hi = buckets.length - 1;
+	while (lo <= hi) {
+		const mid = (lo + hi) >> 1;
+		if (ts < buckets[mid].start) hi = mid - 1;
+		else if (ts >= buckets[mid].end) lo = mid + 1;
+		else return mid;
+	}
+	return -1;
+}
+
+/**
+ * Sums the work of every lane per bucket.
+ *
+ * @param tasks - Tasks with their lane
+ * @param buckets - Consecutive time buckets (e.g. the Gantt's day or week cells)
+ * @param nonWorking - Days without capacity
+ * @param capacityMinutes - Daily capacity of one lane
+ * @returns Work per lane and bucket, lanes in order of first appearance
+ */
+export function computeLoad(
+	tasks: LoadTask[],
+	buckets: LoadBucket[],
+	nonWorking: NonWorkingDays,
+	capacityMinutes = DEFAULT_CAPACITY_MINUTES
+): LoadResult {
+	const lanes = new Map<string, LaneLoad>();
+
+	for (const task of tasks) {
+		const lane = lanes.get(task.lane) ?? {
+			lane: task.lane,
+			minutes: new Array<number>(buckets.length).fill(0),
+			tasks: new Array<number>(buckets.length).fill(0),
+		};
+		lanes.set(task.lane, lane);
+
+		const touched = new Set<number>();
+		dailyWork(task, nonWorking, capacityMinutes).forEach((minutes, day) => {
+			const idx = bucketOfDay(buckets, day);
+			if (idx < 0 || minutes <= 0) return;
+			lane.minutes[idx] += minutes;
+			touched.add(idx);
+		});
+		touched.forEach((idx) => lane.tasks[idx]++);
+	}
+
+	const capacity = buckets.map((bucket, i) => {
+		let days = 0;
+		let day = bucketStart(new Date(bucket.start), "day");
+		while (day.getTime() < bucket.end) {
+			const counted = day.getTime() >= bucket.start || i === 0;
+			if (counted && !isNonWorkingDay(day, nonWorking)) days++;
+			day = nextBucketStart(day, "day");
+		}
+		return days * capacityMinutes;
+	});
+
+	return { lanes: Array.from(lanes.values()), capacity };
+}
@@ -0,0 +1,61 @@
+/**
+ * Gantt Progress & Milestones
+ *
+ * Reads the percent complete of a task (a number, "40%", or a done/total
+ * pair such as "3/5") and the milestone flag.
+ */
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toNumber(raw: unknown): number | null {
+	if (raw == null || raw === "" || typeof raw === "boolean") return null;
+	const n = Number(String(raw).trim().replace(/%$/, "").trim());
+	return Number.isFinite(n) ? n : null;
+}
+
+function clampPercent(value: number): number {
+	return Math.min(100, Math.max(0, value));
+}
+
+function fromPair(done: unknown, total: unknown): number | undefined {
+	const d = toNumber(done);
+	const t = toNumber(total);
+	if (d == null || t == null || t <= 0) return undefined;
+	return clampPercent((d / t) * 100);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Converts a progress property to a percentage between 0 and 100.
+ *
+ * Accepts 0–100 numbers, "40%", "3/5" and [done, total] lists.
+ * Returns undefined when the value can't be read.
+ */
+export function parseProgress(raw: unknown): number | undefined {
+	if (Array.isArray(raw)) {
+		if (raw.length >= 2) return fromPair(raw[0], raw[1]);
+		return raw.length ? parseProgress(raw[0]) : undefined;
+	}
+
+	const pair = typeof raw === "string" ? raw.match(/^\s*([\d.]+)\s*\/\s*([\d.]+)\s*$/) : null;
+	if (pair) return fromPair(pair[1], pair[2]);
+
+	const n = toNumber(raw);
+	return n == null ? undefined : clampPercent(n);
+}
+
+/**
+ * Reads a milestone flag: true, "true", "yes" and 1 count as set.
+ */
+export function parseMilestoneFlag(raw: unknown): boolean {
+	const value = Array.isArray(raw) ? raw[0] : raw;
+	if (typeof value === "boolean") return value;
+	if (typeof value === "number") return value === 1;
+	if (typeof value !== "string") return false;
+	return ["true", "yes", "1"].includes(value.trim().toLowerCase());
+}
@@ -0,0 +1,292 @@
+/**
+ * Gantt Time Scale
+ *
+ * Builds the two-level Gantt header (e.g. "Jan 2026" over "W03") for the
+ * hour / day / week / month / quarter scales, picks a scale from the zoom
+ * ("auto") and finds the non-working days to shade.
+ */
+
+import { bucketStart, formatDay, nextBucketStart, type WeekStart } from "./date-buckets";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TimeScale = "hour" | "day" | "week" | "month" | "quarter";
+
+/** Scale picked in the chart controls; "auto" follows the zoom */
+export type TimeScaleMode = "auto" | TimeScale;
+
+export interface ScaleTick {
+	/** Start / end of the cell (ms, local time) */
+	start: number;
+	end: number;
+	label: string;
+}
+
+export interface ScaleHeader {
+	/** Top row: days (hour scale), months (day / week scale) or years */
+	major: ScaleTick[];
+	/** Bottom row: one cell per hour, day, week, month or quarter */
+	minor: ScaleTick[];
+}
+
+export interface NonWorkingDays {
+	/** 0 = Sunday … 6 = Saturday */
+	weekdays: number[];
+	/** Single dates (holidays) as YYYY-MM-DD */
+	dates: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+export const TIME_SCALES: TimeScale[] = ["hour", "day", "week", "month", "quarter"];
+
+/** Average length of one minor cell, in days */
+const APPROX_DAYS: Record<TimeScale, number> = {
+	hour: 1 / 24,
+	day: 1,
+	week: 7,
+	month: 30.44,
+	quarter: 91.31,
+};
+
+/** Minimum width (px) of one minor cell so its label stays readable */
+export const MIN_CELL_PX: Record<TimeScale, number> = {
+	hour: 22,
+	day: 20,
+	week: 34,
+	month: 34,
+	quarter: 30,
+};
+
+/** Upper bound of minor cells; finer scales fall back to a coarser one */
+export const MAX_SCALE_CELLS = 500;
+
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+export const DEFAULT_NON_WORKING_DAYS: NonWorkingDays = { weekdays: [0, 6], dates: [] };
+
+// ============================================================================
+// Scale Selection
+// ============================================================================
+
+export function isTimeScaleMode(value: unknown): value is TimeScaleMode {
+	return value === "auto" || TIME_SCALES.includes(value as TimeScale);
+}
+
+/**
+ * Picks the finest scale whose cells are wide enough for their labels.
+ */
+export function resolveAutoScale(pxPerDay: number): TimeScale {
+	for (const scale of TIME_SCALES) {
+		if (pxPerDay * APPROX_DAYS[scale] >= MIN_CELL_PX[scale]) return scale;
+	}
+	return "quarter";
+}
+
+/**
+ * Returns `scale`, or the next coarser one when the span would need more
+ * than MAX_SCALE_CELLS cells (e.g. hours over a whole year).
+ */
+export function limitScale(scale: TimeScale, spanDays: number): TimeScale {
+	for (let i = TIME_SCALES.indexOf(scale); i < TIME_SCALES.length; i++) {
+		if (spanDays / APPROX_DAYS[TIME_SCALES[i]] <= MAX_SCALE_CELLS) return TIME_SCALES[i];
+	}
+	return "quarter";
+}
+
+/** Plot width (px) needed to give every cell of `scale` its minimum width */
+export function minPlotWidth(scale: TimeScale, spanDays: number): number {
+	return Math.ceil((spanDays / APPROX_DAYS[scale]) * MIN_CELL_PX[scale]);
+}
+
+// ============================================================================
+// Labels
+// ============================================================================
+
+function monthName(date: Date, locale: string): string {
+	try {
+		return date.toLocaleString(locale || "en", { month: "short" });
+	} catch {
+		return date.toLocaleString("en", { month: "short" });
+	}
+}
+
+function weekdayName(date: Date, locale: string): string {
+	try {
+		return date.toLocaleString(locale || "en", { weekday: "short" });
+	} catch {
+		return date.toLocaleString("en", { weekday: "short" });
+	}
+}
+
+/**
+ * Week of the year: ISO 8601 when weeks start on Monday; when they start on
+ * Sunday, week 1 is the week containing January 1st.
+ */
+export function weekNumber(date: Date, weekStart: WeekStart = 1): number {
+	// Calendar-day math in UTC so daylight-saving changes don't shift the count
+	const day = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+	const dow = new Date(day).getUTCDay();
+
+	// The week is named after its Thursday (ISO) or its Saturday (US)
+	const anchor = new Date(
+		weekStart === 1 ? day + (3 - ((dow + 6) % 7)) * MS_PER_DAY : day + (6 - dow) * MS_PER_DAY
+	);
+	const yearStart = Date.UTC(anchor.getUTCFullYear(), 0, 1);
+	return Math.floor((anchor.getTime() - yearStart) / MS_PER_DAY / 7) + 1;
+}
+
+function majorLabel(start: Date, scale: TimeScale, locale: string): string {
+	switch (scale) {
+		case "hour":
+			return `${weekdayName(start, locale)} ${start.getDate()} ${monthName(start, locale)}`;
+		case "day":
+		case "week":
+			return `${monthName(start, locale)} ${start.getFullYear()}`;
+		default:
+			return String(start.getFullYear());
+	}
+}
+
+function minorLabel(start: Date, scale: TimeScale, weekStart: WeekStart, locale: string): string {
+	switch (scale) {
+		case "hour":
+			return String(start.getHours()).padStart(2, "0");
+		case "day":
+			return String(start.getDate());
+		case "week":
+			return `W${String(weekNumber(start, weekStart)).padStart(2, "0")}`;
+		case "month":
+			return monthName(start, locale);
+		case "quarter":
+			return `Q${Math.floor(start.getMonth() / 3) + 1}`;
+	}
+}
+
+// ============================================================================
+// Header
+// ============================================================================
+
+/** Unit of the top row for each scale */
+const MAJOR_UNIT: Record<TimeScale, "day" | "month" | "year"> = {
+	hour: "day",
+	day: "month",
+	week: "month",
+	month: "year",
+	quarter: "year",
+};
+
+function floorTo(ts: number, unit: TimeScale | "year", weekStart: WeekStart): Date {
+	if (unit === "hour") {
+		const d = new Date(ts);
+		d.setMinutes(0, 0, 0);
+		return d;
+	}
+	return bucketStart(new Date(ts), unit, weekStart);
+}
+
+function nextTick(start: Date, unit: TimeScale | "year"): Date {
+	if (unit === "hour") return new Date(start.getTime() + MS_PER_HOUR);
+	return nextBucketStart(start, unit);
+}
+
+function buildTicks(
+	min: number,
+	max: number,
+	unit: TimeScale | "year",
+	label: (start: Date) => string,
+	weekStart: WeekStart
+): ScaleTick[] {
+	const ticks: ScaleTick[] = [];
+	let cursor = floorTo(min, unit, weekStart);
+	while (cursor.getTime() < max && ticks.length < MAX_SCALE_CELLS * 2) {
+		const next = nextTick(cursor, unit);
+		ticks.push({ start: cursor.getTime(), end: next.getTime(), label: label(cursor) });
+		cursor = next;
+	}
+	return ticks;
+}
+
+/**
+ * Lists the header cells covering [min, max]. The first and last cells may
+ * start before `min` or end after `max`.
+ *
+ * @example
+ * buildScaleHeader(jan5, jan20, "week")
+ * // major: [{ label: "Jan 2026" }], minor: [{ label: "W02" }, { label: "W03" }, …]
+ */
+export function buildScaleHeader(
+	min: number,
+	max: number,
+	scale: TimeScale,
+	weekStart: WeekStart = 1,
+	locale = ""
+): ScaleHeader {
+	const major = MAJOR_UNIT[scale];
+	return {
+		major: buildTicks(min, max, major, (d) => majorLabel(d, scale, locale), weekStart),
+		minor: buildTicks(min, max, scale, (d) => minorLabel(d, scale, weekStart, locale), weekStart),
+	};
+}
+
+// ============================================================================
+// Non-working Days
+// ============================================================================
+
+/**
+ * Reads the non-working days option: weekday names and YYYY-MM-DD dates,
+ * separated by commas or spaces ("sat, sun, 2026-12-25"). Missing values
+ * fall back to weekends; "none" turns shading off.
+ */
+export function parseNonWorkingDays(raw: unknown): NonWorkingDays {
+	if (raw == null) return DEFAULT_NON_WORKING_DAYS;
+
+	const tokens = (Array.isArray(raw) ? raw.map(String) : String(raw).split(/[,;\s]+/))
+		.map((t) => t.trim().toLowerCase())
+		.filter((t) => t);
+	if (!tokens.length) return DEFAULT_NON_WORKING_DAYS;
+
+	const weekdays = new Set<number>();
+	const dates = new Set<string>();
+	for (const token of tokens) {
+		if (/^\d{4}-\d{2}-\d{2}$/.test(token)) {
+			dates.add(token);
+			continue;
+		}
+		const idx = WEEKDAY_NAMES.indexOf(token.slice(0, 3));
+		if (idx >= 0) weekdays.add(idx);
+	}
+	return { weekdays: Array.from(weekdays).sort((a, b) => a - b), dates: Array.from(dates) };
+}
+
+export function isNonWorkingDay(date: Date, days: NonWorkingDays): boolean {
+	return days.weekdays.includes(date.getDay()) || days.dates.includes(formatDay(date));
+}
+
+/**
+ * Lists the non-working days in [min, max] as { start, end } intervals,
+ * one per day (local midnight to midnight).
+ */
+export function nonWorkingIntervals(
+	min: number,
+	max: number,
+	days: NonWorkingDays
+): { start: number; end: number }[] {
+	const out: { start: number; end: number }[] = [];
+	if (!days.weekdays.length && !days.dates.length) return out;
+
+	let cursor = bucketStart(new Date(min), "day");
+	while (cursor.getTime() < max) {
+		const next = nextBucketStart(cursor, "day");
+		if (isNonWorkingDay(cursor, days)) out.push({ start: cursor.getTime(), end: next.getTime() });
+		cursor = next;
+	}
+	return out;
+}
@@ -0,0 +1,213 @@
+/**
+ * Gantt Scheduling
+ *
+ * Date math behind dragging and resizing Gantt bars: picking the snap grid
+ * for the current zoom, snapping the dragged edge and turning the new
+ * interval into frontmatter updates.
+ */
+
+import { bucketStart, formatDay, type WeekStart } from "./date-buckets";
+import { toDate } from "./utils";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SnapUnit = "hour" | "day" | "week";
+
+/** Which part of the bar is being dragged */
+export type DragMode = "move" | "start" | "end";
+
+export interface TaskInterval {
+	start: number;
+	end: number;
+}
+
+/** Frontmatter keys configured for the Gantt (encoding.start / end / due / duration) */
+export interface TaskDateKeys {
+	start?: string;
+	end?: string;
+	due?: string;
+	duration?: string;
+}
+
+/** Frontmatter changes: a value to write, or undefined to delete the key */
+export type FrontmatterPatch = Record<string, string | number | undefined>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+const UNIT_MS: Record<SnapUnit, number> = {
+	hour: MS_PER_HOUR,
+	day: MS_PER_DAY,
+	week: 7 * MS_PER_DAY,
+};
+
+/** Minimum width (px) of one grid cell before snapping to a coarser unit */
+const MIN_PX_PER_HOUR = 4;
+const MIN_PX_PER_DAY = 10;
+
+// ============================================================================
+// Snapping
+// ============================================================================
+
+/**
+ * Picks the snap grid for the current zoom: hours when a day is wide
+ * enough to show them, then days, then weeks.
+ */
+export function pickSnapUnit(pxPerDay: number): SnapUnit {
+	if (pxPerDay >= 24 * MIN_PX_PER_HOUR) return "hour";
+	if (pxPerDay >= MIN_PX_PER_DAY) return "day";
+	return "week";
+}
+
+export function snapUnitMs(unit: SnapUnit): number {
+	return UNIT_MS[unit];
+}
+
+/**
+ * Rounds a timestamp to the nearest grid line (local time).
+ */
+export function snapTime(ts: number, unit: SnapUnit, weekStart: WeekStart = 1): number {
+	const date = new Date(ts);
+	if (unit === "hour") {
+		const floor = new Date(date);
+		floor.setMinutes(0, 0, 0);
+		return ts - floor.getTime() >= MS_PER_HOUR / 2
+			? floor.getTime() + MS_PER_HOUR
+			: floor.getTime();
+	}
+
+	const floor = bucketStart(date, unit === "week" ? "week" : "day", weekStart);
+	const next = new Date(floor);
+	next.setDate(next.getDate() + (unit === "week" ? 7 : 1));
+	return ts - floor.getTime() >= (next.getTime() - floor.getTime()) / 2
+		? next.getTime()
+		: floor.getTime();
+}
+
+/**
+ * Shifts a timestamp by whole grid units, in calendar days so that
+ * daylight-saving changes don't move the time of day.
+ */
+function shiftByUnits(ts: number, units: number, unit: SnapUnit): number {
+	if (unit === "hour") return ts + units * MS_PER_HOUR;
+	const date = new Date(ts);
+	date.setDate(date.getDate() + units * (unit === "week" ? 7 : 1));
+	return date.getTime();
+}
+
+/**
+ * Applies a horizontal drag to a task interval.
+ *
+ * - move: shifts start and end together by whole grid units (the time of
+ *   day and the duration are kept)
+ * - start / end: moves that edge to the nearest grid line, keeping at least
+ *   one grid unit between start and end
+ */
+export function applyDrag(
+	interval: TaskInterval,
+	deltaMs: number,
+	mode: DragMode,
+	unit: SnapUnit,
+	weekStart: WeekStart = 1
+): TaskInterval {
+	const { start, end } = interval;
+	const minLength = Math.min(UNIT_MS[unit], Math.max(0, end - start)) || UNIT_MS[unit];
+
+	if (mode === "move") {
+		const units = Math.round(deltaMs / UNIT_MS[unit]);
+		return { start: shiftByUnits(start, units, unit), end: shiftByUnits(end, units, unit) };
+	}
+	if (mode === "start") {
+		const newStart = Math.min(snapTime(start + deltaMs, unit, weekStart), end - minLength);
+		return { start: newStart, end };
+	}
+	const newEnd = Math.max(snapTime(end + deltaMs, unit, weekStart), start + minLength);
+	return { start, end: newEnd };
+}
+
+// ============================================================================
+// Frontmatter Updates
+// ============================================================================
+
+/** Formats a date like the edit modal: YYYY-MM-DD or YYYY-MM-DDTHH:mm (local) */
+export function formatTaskDate(ts: number, withTime: boolean): string {
+	const d = new Date(ts);
+	const day = formatDay(d);
+	if (!withTime) return day;
+	const hh = String(d.getHours()).padStart(2, "0");
+	const mi = String(d.getMinutes()).padStart(2, "0");
+	return `${day}T${hh}:${mi}`;
+}
+
+function hasValue(front: Record<string, any>, key: string | undefined): key is string {
+	return !!key && front[key] != null && String(front[key]).trim() !== "";
+}
+
+/**
+ * Works out which frontmatter keys to write after a drag.
+ *
+ * Keys already set in the note are updated in place. When moving, edges
+ * derived from other fields follow on their own. When resizing an edge that
+ * was derived from the duration (start + duration, end − duration), the
+ * duration is updated instead. Bars derived only from the due date can be
+ * moved but not resized.
+ *
+ * @returns The changes to write, or null when nothing can be saved
+ */
+export function planDateUpdate(
+	front: Record<string, any>,
+	keys: TaskDateKeys,
+	before: TaskInterval,
+	after: TaskInterval,
+	unit: SnapUnit
+): FrontmatterPatch | null {
+	const patch: FrontmatterPatch = {};
+	const resized = after.end - after.start !== before.end - before.start;
+	const lengthMinutes = Math.round((after.end - after.start) / MS_PER_MINUTE);
+
+	// Keep times when the note already uses them or when snapping to hours
+	const format = (key: string, ts: number) => {
+		const withTime =
+			unit === "hour" ||
+			new Date(ts).getHours() !== 0 ||
+			new Date(ts).getMinutes() !== 0 ||
+			/\d{1,2}:\d{2}/.test(String(front[key] ?? ""));
+		return formatTaskDate(ts, withTime);
+	};
+
+	const setDuration = () => {
+		if (hasValue(front, keys.duration) && Number(front[keys.duration]) !== lengthMinutes) {
+			patch[keys.duration] = lengthMinutes;
+		}
+	};
+
+	// Resizing an edge the note doesn't store: change the duration if it has one
+	const resizeDerived = (key: string | undefined, ts: number) => {
+		if (hasValue(front, keys.duration)) setDuration();
+		else if (key) patch[key] = format(key, ts);
+	};
+
+	if (hasValue(front, keys.start) || hasValue(front, keys.end)) {
+		if (after.start !== before.start) {
+			if (hasValue(front, keys.start)) patch[keys.start] = format(keys.start, after.start);
+			else if (resized) resizeDerived(keys.start, after.start);
+		}
+		if (after.end !== before.end) {
+			if (hasValue(front, keys.end)) patch[keys.end] = format(keys.end, after.end);
+			else if (resized) resizeDerived(keys.end, after.end);
+		}
+	} else if (hasValue(front, keys.due)) {
+		const due = toDate(front[keys.due]);
+		if (resized || !due) return null;
+		patch[keys.due] = format(keys.due, due.getTime() + (after.start - before.start));
+	}
+
+	return Object.keys(patch).length ? patch : null;
+}
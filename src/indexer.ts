@@ -1,20 +1,82 @@
-import { App, TFile, parseYaml } from "obsidian";
+import type { App, CachedMetadata, TFile } from "obsidian";
 import type { IndexedNote } from "./types";
+import type { PropChartsSettings } from "./settings";
+import { matchPath } from "./utils";
+import { mergeInlineFields, parseInlineFields } from "./inline-fields";
+
+/**
+ * Called after the index changes.
+ * `paths` lists the changed notes, or is null after a full rebuild.
+ */
+export type IndexChangeListener = (paths: string[] | null) => void;
+
+/** Changes arriving within this window are sent to listeners together */
+const NOTIFY_BATCH_MS = 150;
 
 export class PropChartsIndexer {
   private app: App;
+  private getSettings: () => PropChartsSettings;
   private index: Map<string, IndexedNote> = new Map();
+  private listeners: Set<IndexChangeListener> = new Set();
+  private pendingPaths: Set<string> = new Set();
+  private notifyTimer: number | null = null;
+  private buildGeneration = 0;
+  /** Notes changed while a rebuild runs, re-read once it is swapped in */
+  private touchedDuringBuild: Set<string> | null = null;
+  /** Notes read before the metadata cache had them (cold start, cache rebuild) */
+  private missingCache: Set<string> = new Set();
 
-  constructor(app: App) {
+  constructor(app: App, getSettings: () => PropChartsSettings) {
     this.app = app;
+    this.getSettings = getSettings;
   }
 
+  /**
+   * Rebuilds the whole index from the metadata cache.
+   * Queries keep seeing the previous index until the rebuild finishes; notes
+   * changed in the meantime are read again after the swap.
+   */
   async buildIndex() {
-    this.index.clear();
-    const files = this.app.vault.getMarkdownFiles();
+    const generation = ++this.buildGeneration;
+    if (!this.touchedDuringBuild) this.touchedDuringBuild = new Set();
+    const { defaultPaths, maxNotes } = this.getSettings();
+    let files = this.app.vault
+      .getMarkdownFiles()
+      .filter((f) => matchPath(f.path, defaultPaths));
+
+    if (files.length > maxNotes) {
+      // mantém as notas modificadas mais recentemente
+      console.warn(
+        `Chart Notes: ${files.length} notas nas pastas indexadas; indexando só as ${maxNotes} mais recentes`
+      );
+      files = files.sort((a, b) => b.stat.mtime - a.stat.mtime).slice(0, maxNotes);
+    }
+
+    const next: Map<string, IndexedNote> = new Map();
     for (const f of files) {
-      await this.updateFile(f);
+      next.set(f.path, await this.readNote(f));
+      // outro rebuild começou (ex.: settings mudaram): este é descartado
+      if (generation !== this.buildGeneration) return;
     }
+
+    this.index = next;
+    const touched = Array.from(this.touchedDuringBuild ?? []);
+    this.touchedDuringBuild = null;
+    this.cancelPendingNotify();
+    this.notify(null);
+
+    // alterações que chegaram durante o rebuild foram para o índice antigo
+    for (const path of touched) await this.refreshPath(path);
+  }
+
+  /**
+   * Re-reads the notes that were indexed before the metadata cache had them.
+   * Call on the metadataCache "resolved" event.
+   */
+  async onCacheResolved() {
+    const paths = Array.from(this.missingCache);
+    this.missingCache.clear();
+    for (const path of paths) await this.refreshPath(path);
   }
 
   async fullReindex() {
@@ -25,41 +87,136 @@ export class PropChartsIndexer {
     return Array.from(this.index.values());
   }
 
-  async updateFile(file: TFile) {
-    if (file.extension !== "md") return;
+  /**
+   * Subscribes to index changes. Returns a function that unsubscribes.
+   * Incremental changes are batched, so one call may list several notes.
+   */
+  onChange(listener: IndexChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Re-reads one note. Pass `cache`/`data` from a metadataCache "changed"
+   * event to avoid touching the disk.
+   */
+  async updateFile(file: TFile, cache?: CachedMetadata | null, data?: string) {
+    this.touchedDuringBuild?.add(file.path);
+    if (!this.accepts(file)) return;
+    this.index.set(file.path, await this.readNote(file, cache, data));
+    this.queueNotify([file.path]);
+  }
+
+  async renameFile(file: TFile, oldPath: string) {
+    this.touchedDuringBuild?.add(oldPath);
+    this.missingCache.delete(oldPath);
+    const wasIndexed = this.index.delete(oldPath);
+    if (wasIndexed) this.queueNotify([oldPath]);
+    await this.updateFile(file);
+  }
+
+  removeFile(file: TFile) {
+    this.touchedDuringBuild?.add(file.path);
+    this.missingCache.delete(file.path);
+    if (!this.index.delete(file.path)) return;
+    this.queueNotify([file.path]);
+  }
+
+  /**
+   * Brings one path up to date with the vault: re-reads the note, or drops
+   * it when the file is gone.
+   */
+  private async refreshPath(path: string) {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    // arquivo (pastas não têm extensão)
+    if (file && "extension" in file) {
+      await this.updateFile(file as TFile);
+    } else if (this.index.delete(path)) {
+      this.queueNotify([path]);
+    }
+  }
+
+  /**
+   * A note is indexed if it is inside the indexed folders and, when new,
+   * the index is below the note limit.
+   */
+  private accepts(file: TFile): boolean {
+    if (file.extension !== "md") return false;
+    const { defaultPaths, maxNotes } = this.getSettings();
+    if (!matchPath(file.path, defaultPaths)) return false;
+    // nota nova com o índice cheio: ignora até o próximo rebuild
+    return this.index.has(file.path) || this.index.size < maxNotes;
+  }
+
+  private queueNotify(paths: string[]) {
+    for (const p of paths) this.pendingPaths.add(p);
+    if (this.notifyTimer != null) return;
+    this.notifyTimer = window.setTimeout(() => {
+      this.notifyTimer = null;
+      const batch = Array.from(this.pendingPaths);
+      this.pendingPaths.clear();
+      if (batch.length) this.notify(batch);
+    }, NOTIFY_BATCH_MS);
+  }
+
+  private cancelPendingNotify() {
+    if (this.notifyTimer != null) {
+      window.clearTimeout(this.notifyTimer);
+      this.notifyTimer = null;
+    }
+    this.pendingPaths.clear();
+  }
 
+  private notify(paths: string[] | null) {
+    for (const listener of this.listeners) {
+      try {
+        listener(paths);
+      } catch (e) {
+        console.error("Chart Notes: erro ao notificar alteração do índice", e);
+      }
+    }
+  }
+
+  private async readNote(
+    file: TFile,
+    cache?: CachedMetadata | null,
+    data?: string
+  ): Promise<IndexedNote> {
     const props: Record<string, any> = {};
+    let inlineKeys: string[] | undefined;
 
     try {
-      // 1) frontmatter direto do arquivo (sempre o valor real salvo)
-      const content = await this.app.vault.read(file);
-      const m = content.match(/^---\n([\s\S]*?)\n---\n?/);
-      if (m) {
-        const fm = parseYaml(m[1]) || {};
-        if (fm && typeof fm === "object") {
-          for (const [k, v] of Object.entries(fm)) {
-            if (k === "position") continue;
-            props[k] = v;
-          }
+      // 1) frontmatter do metadataCache (já parseado pelo Obsidian)
+      const meta = cache ?? this.app.metadataCache.getFileCache(file);
+      // sem cache ainda: relido no próximo "resolved"
+      if (meta) this.missingCache.delete(file.path);
+      else this.missingCache.add(file.path);
+      if (meta?.frontmatter) {
+        for (const [k, v] of Object.entries(meta.frontmatter)) {
+          if (k === "position") continue;
+          props[k] = v;
         }
       }
 
-      // 2) tags do corpo se não houver `tags` no frontmatter
-      const cache = this.app.metadataCache.getFileCache(file);
-      if (cache?.tags && !props["tags"]) {
-        props["tags"] = cache.tags.map((t) => t.tag.replace(/^#/, ""));
+      // 2) inline fields (key:: value) do corpo; o frontmatter tem precedência.
+      //    Só aqui é preciso ler o conteúdo da nota.
+      if (this.getSettings().enableInlineFields) {
+        const content = data ?? (await this.app.vault.cachedRead(file));
+        const fields = parseInlineFields(content);
+        inlineKeys = Object.keys(fields).filter((k) => !(k in props));
+        mergeInlineFields(props, fields);
+      }
+
+      // 3) tags do corpo se não houver `tags` no frontmatter
+      if (meta?.tags && !props["tags"]) {
+        props["tags"] = meta.tags.map((t) => t.tag.replace(/^#/, ""));
       }
     } catch (e) {
       console.error("Chart Notes: erro ao indexar", file.path, e);
     }
 
-    this.index.set(file.path, {
-      path: file.path,
-      props,
-    });
-  }
-
-  removeFile(file: TFile) {
-    this.index.delete(file.path);
+    return inlineKeys?.length ? { path: file.path, props, inlineKeys } : { path: file.path, props };
   }
 }
@@ -0,0 +1,190 @@
+/**
+ * Inline Fields
+ *
+ * Extracts Dataview-style inline fields from a note body:
+ * - full lines: `key:: value` (also inside list items, tasks and quotes)
+ * - bracketed: `[key:: value]` and `(key:: value)`, anywhere in a line
+ *
+ * Fenced code blocks, inline code and the frontmatter are ignored.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type InlineValue = string | number | boolean;
+
+/** Field name → every value found in the note, in document order */
+export type InlineFields = Record<string, InlineValue[]>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Characters allowed in a field name (no colons, brackets or parentheses) */
+const KEY_CHARS = "[^:\\[\\]()\\n]";
+
+/**
+ * `key:: value` on its own line, after optional quote markers, a list marker
+ * and a task checkbox.
+ */
+const FULL_LINE_RE = new RegExp(
+	`^\\s*(?:>\\s*)*(?:(?:[-*+]|\\d+[.)])\\s+)?(?:\\[.\\]\\s+)?([^\\s:\\[\\]()]${KEY_CHARS}*?)::(.*)$`
+);
+
+/** Start of a bracketed field: `[key::` or `(key::` */
+const BRACKET_START_RE = new RegExp(`[\\[(]\\s*(${KEY_CHARS}+?)::`, "y");
+
+const FENCE_RE = /^\s*(```|~~~)/;
+const INLINE_CODE_RE = /`[^`]*`/g;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Removes markdown emphasis around a field name: `**Status**` → `Status` */
+function cleanKey(raw: string): string {
+	return raw.trim().replace(/^[*_~]+|[*_~]+$/g, "").trim();
+}
+
+/**
+ * Lower-case, dash-separated form of a field name, so `Time Spent` can be
+ * queried as `time-spent`.
+ */
+export function canonicalKey(key: string): string {
+	return key
+		.trim()
+		.toLowerCase()
+		.replace(/\s+/g, "-")
+		.replace(/[^\p{L}\p{N}_-]/gu, "");
+}
+
+/**
+ * Converts a raw field value: numbers and booleans are typed, everything
+ * else (dates, links, text) is kept as a trimmed string.
+ * Returns null for empty values.
+ */
+export function parseInlineValue(raw: string): InlineValue | null {
+	const value = raw.trim();
+	if (!value) return null;
+	if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+	const lower = value.toLowerCase();
+	if (lower === "true") return true;
+	if (lower === "false") return false;
+	return value;
+}
+
+function addField(fields: InlineFields, rawKey: string, rawValue: string): void {
+	const key = cleanKey(rawKey);
+	const value = parseInlineValue(rawValue);
+	if (!key || value === null) return;
+
+	const keys = [key];
+	const canonical = canonicalKey(key);
+	if (canonical && canonical !== key) keys.push(canonical);
+
+	for (const k of keys) {
+		(fields[k] ??= []).push(value);
+	}
+}
+
+/**
+ * Finds the closing bracket matching the one at `start`, skipping nested
+ * pairs such as `[[links]]`. Returns -1 if it is never closed.
+ */
+function findClosing(line: string, start: number): number {
+	const open = line[start];
+	const close = open === "[" ? "]" : ")";
+	let depth = 0;
+	for (let i = start; i < line.length; i++) {
+		if (line[i] === open) depth++;
+		else if (line[i] === close) {
+			depth--;
+			if (depth === 0) return i;
+		}
+	}
+	return -1;
+}
+
+function parseBracketedFields(line: string, fields: InlineFields): boolean {
+	let found = false;
+	let i = 0;
+	while (i < line.length) {
+		const ch = line[i];
+		if (ch !== "[" && ch !== "(") {
+			i++;
+			continue;
+		}
+		BRACKET_START_RE.lastIndex = i;
+		const m = BRACKET_START_RE.exec(line);
+		const end = m ? findClosing(line, i) : -1;
+		if (!m || end < 0) {
+			i++;
+			continue;
+		}
+		addField(fields, m[1], line.slice(i + m[0].length, end));
+		found = true;
+		i = end + 1;
+	}
+	return found;
+}
+
+function stripFrontmatter(content: string): string {
+	const m = content.match(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/);
+	return m ? content.slice(m[0].length) : content;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Extracts all inline fields from a note.
+ *
+ * @param content - Full note content (the frontmatter is skipped)
+ * @returns Values per field name; names with spaces or capitals are also
+ *          available under their canonical form (see canonicalKey)
+ */
+export function parseInlineFields(content: string): InlineFields {
+	const fields: InlineFields = {};
+	let inFence: string | null = null;
+
+	for (const rawLine of stripFrontmatter(content).split(/\r?\n/)) {
+		const fence = rawLine.match(FENCE_RE);
+		if (fence) {
+			if (!inFence) inFence = fence[1];
+			else if (fence[1] === inFence) inFence = null;
+			continue;
+		}
+		if (inFence) continue;
+
+		const line = rawLine.replace(INLINE_CODE_RE, "");
+		if (!line.includes("::")) continue;
+
+		// Bracketed fields win: "- [ ] task [due:: 2024-05-01]" is not a full-line field
+		if (parseBracketedFields(line, fields)) continue;
+
+		const full = line.match(FULL_LINE_RE);
+		if (full) addField(fields, full[1], full[2]);
+	}
+
+	return fields;
+}
+
+/**
+ * Merges inline fields into the frontmatter properties.
+ *
+ * Precedence: a property set in the frontmatter always wins and its inline
+ * values are ignored. Other fields become a single value, or a list when
+ * the note has several values for the same name.
+ */
+export function mergeInlineFields(
+	props: Record<string, any>,
+	fields: InlineFields
+): Record<string, any> {
+	for (const [key, values] of Object.entries(fields)) {
+		if (key in props) continue;
+		props[key] = values.length === 1 ? values[0] : values;
+	}
+	return props;
+}
@@ -0,0 +1,396 @@
+/**
+ * Metric Formulas
+ *
+ * Derived Indicator values: arithmetic (+ - * / and parentheses) over
+ * aggregates of the notes in the view, optionally named first:
+ *
+ *   done = count(where status = done)
+ *   total = count()
+ *   done / total * 100
+ *
+ * Aggregates take a property and/or a `where` filter (WHERE expression
+ * language):
+ *
+ * - `count()`, `count(where ...)` – notes
+ * - `filled(prop)` – notes where the property is set
+ * - `sum(prop)`, `avg(prop)`, `min(prop)`, `max(prop)` – numeric values
+ * - `distinct(prop)` – different values (list items count one by one)
+ *
+ * e.g. `sum(spent) / sum(estimate)` or `sum(hours) / distinct(project)`.
+ * Statements are separated by new lines or ";" (outside parentheses and
+ * quotes); the last one that isn't a definition is the result (or the last
+ * definition).
+ */
+
+import { evalWhere, parseWhere, whereFields, type WhereExpr } from "./where";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FormulaAggregate = "count" | "filled" | "sum" | "avg" | "min" | "max" | "distinct";
+
+export type FormulaExpr =
+	| { kind: "number"; value: number }
+	| { kind: "name"; name: string }
+	| { kind: "neg"; expr: FormulaExpr }
+	| { kind: "binary"; op: "+" | "-" | "*" | "/"; left: FormulaExpr; right: FormulaExpr }
+	| { kind: "aggregate"; fn: FormulaAggregate; property: string | null; filter: WhereExpr | null };
+
+export interface MetricFormula {
+	/** Named sub-aggregates, in order */
+	definitions: Array<{ name: string; expr: FormulaExpr }>;
+	result: FormulaExpr;
+	/** Properties read by aggregates and filters */
+	fields: string[];
+}
+
+/** A note of the view with the properties the formula reads */
+export interface FormulaNote {
+	path: string;
+	props: Record<string, any>;
+}
+
+export interface FormulaResult {
+	/** null on division by zero or an aggregate without values (avg of nothing) */
+	value: number | null;
+	/** Notes of the first aggregate of the result, for drilldown */
+	notes: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const AGGREGATES: FormulaAggregate[] = ["count", "filled", "sum", "avg", "min", "max", "distinct"];
+
+const DEFINITION_RE = /^([A-Za-z_][\w]*)\s*=(?!=)\s*([\s\S]+)$/;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function syntaxError(message: string, pos: number): Error {
+	return new Error(`${message} at position ${pos}`);
+}
+
+/**
+ * Splits a formula into statements at new lines and at ";" outside
+ * parentheses and quoted values (`count(where title = 'a;b')`). As in WHERE
+ * expressions, a quote only opens a string at the start of a word.
+ */
+function splitStatements(text: string): string[] {
+	const statements: string[] = [];
+	let start = 0;
+	let quote: string | null = null;
+	let depth = 0;
+
+	for (let i = 0; i < text.length; i++) {
+		const ch = text[i];
+		if (ch === "\n") {
+			statements.push(text.slice(start, i));
+			start = i + 1;
+			quote = null;
+			depth = 0;
+		} else if (quote) {
+			if (ch === "\\") i++;
+			else if (ch === quote) quote = null;
+		} else if ((ch === "'" || ch === '"') && !/\w/.test(text[i - 1] ?? "")) {
+			quote = ch;
+		} else if (ch === "(") {
+			depth++;
+		} else if (ch === ")") {
+			depth = Math.max(0, depth - 1);
+		} else if (ch === ";" && depth === 0) {
+			statements.push(text.slice(start, i));
+			start = i + 1;
+		}
+	}
+	statements.push(text.slice(start));
+	return statements;
+}
+
+/**
+ * Recursive-descent parser for one formula statement.
+ */
+class FormulaParser {
+	private pos = 0;
+
+	constructor(private readonly input: string, private readonly names: Set<string>) {}
+
+	parse(): FormulaExpr {
+		const expr = this.parseSum();
+		this.skipSpace();
+		if (this.pos < this.input.length) {
+			throw syntaxError(`Unexpected "${this.input[this.pos]}"`, this.pos + 1);
+		}
+		return expr;
+	}
+
+	private skipSpace(): void {
+		while (this.pos < this.input.length && /\s/.test(this.input[this.pos])) this.pos++;
+	}
+
+	private peek(): string {
+		this.skipSpace();
+		return this.input[this.pos] ?? "";
+	}
+
+	private parseSum(): FormulaExpr {
+		let left = this.parseProduct();
+		for (let ch = this.peek(); ch === "+" || ch === "-"; ch = this.peek()) {
+			this.pos++;
+			left = { kind: "binary", op: ch, left, right: this.parseProduct() };
+		}
+		return left;
+	}
+
+	private parseProduct(): FormulaExpr {
+		let left = this.parseFactor();
+		for (let ch = this.peek(); ch === "*" || ch === "/"; ch = this.peek()) {
+			this.pos++;
+			left = { kind: "binary", op: ch, left, right: this.parseFactor() };
+		}
+		return left;
+	}
+
+	private parseFactor(): FormulaExpr {
+		const ch = this.peek();
+		const start = this.pos + 1;
+
+		if (ch === "-") {
+			this.pos++;
+			return { kind: "neg", expr: this.parseFactor() };
+		}
+		if (ch === "(") {
+			this.pos++;
+			const expr = this.parseSum();
+			if (this.peek() !== ")") throw syntaxError('Expected ")"', this.pos + 1);
+			this.pos++;
+			return expr;
+		}
+
+		const number = this.input.slice(this.pos).match(/^\d+(?:\.\d+)?/);
+		if (number) {
+			this.pos += number[0].length;
+			return { kind: "number", value: Number(number[0]) };
+		}
+
+		const word = this.input.slice(this.pos).match(/^[A-Za-z_]\w*/);
+		if (!word) {
+			throw syntaxError(ch ? `Unexpected "${ch}"` : "Unexpected end of formula", start);
+		}
+		this.pos += word[0].length;
+
+		if (this.peek() === "(") {
+			const fn = word[0].toLowerCase() as FormulaAggregate;
+			if (!AGGREGATES.includes(fn)) throw syntaxError(`Unknown function "${word[0]}"`, start);
+			return this.parseAggregate(fn, start);
+		}
+		if (!this.names.has(word[0])) throw syntaxError(`Unknown name "${word[0]}"`, start);
+		return { kind: "name", name: word[0] };
+	}
+
+	/**
+	 * Reads `(property where filter)` after an aggregate name; the filter is
+	 * taken up to the matching ")" so it can use parentheses and quotes.
+	 */
+	private parseAggregate(fn: FormulaAggregate, start: number): FormulaExpr {
+		this.pos++; // "("
+		const argStart = this.pos;
+		let depth = 1;
+		let quote: string | null = null;
+		for (; this.pos < this.input.length; this.pos++) {
+			const c = this.input[this.pos];
+			if (quote) {
+				if (c === "\\") this.pos++;
+				else if (c === quote) quote = null;
+			} else if ((c === "'" || c === '"') && !/\w/.test(this.input[this.pos - 1])) {
+				quote = c;
+			} else if (c === "(") {
+				depth++;
+			} else if (c === ")" && --depth === 0) {
+				break;
+			}
+		}
+		if (depth !== 0) throw syntaxError(`Missing ")" for ${fn}(`, start);
+		const arg = this.input.slice(argStart, this.pos).trim();
+		this.pos++; // ")"
+
+		const m = arg.match(/^([\s\S]*?)(?:(?:^|\s)where\s+([\s\S]*))?$/i);
+		const property = m?.[1].trim() || null;
+		const filterText = m?.[2]?.trim() ?? "";
+
+		if (property && !/^[\w.-]+$/.test(property)) {
+			throw syntaxError(`Invalid property "${property}" in ${fn}()`, start);
+		}
+		if (!property && fn !== "count") {
+			throw syntaxError(`${fn}() needs a property`, start);
+		}
+
+		let filter: WhereExpr | null = null;
+		if (filterText) {
+			try {
+				filter = parseWhere(filterText);
+			} catch (e) {
+				throw syntaxError(`Invalid filter in ${fn}() (${(e as Error).message})`, start);
+			}
+		}
+		return { kind: "aggregate", fn, property, filter };
+	}
+}
+
+function collectFields(expr: FormulaExpr, fields: string[]): void {
+	const add = (f: string) => {
+		if (!fields.includes(f)) fields.push(f);
+	};
+	switch (expr.kind) {
+		case "neg":
+			collectFields(expr.expr, fields);
+			return;
+		case "binary":
+			collectFields(expr.left, fields);
+			collectFields(expr.right, fields);
+			return;
+		case "aggregate":
+			if (expr.property) add(expr.property);
+			if (expr.filter) whereFields(expr.filter).forEach(add);
+			return;
+	}
+}
+
+/**
+ * Parses a formula.
+ *
+ * @throws Error naming the statement and position of the problem
+ */
+export function parseMetricFormula(text: string): MetricFormula {
+	const statements = splitStatements(String(text ?? ""))
+		.map((s) => s.trim())
+		.filter((s) => s.length > 0);
+	if (statements.length === 0) throw new Error("Empty formula");
+
+	const names = new Set<string>();
+	const definitions: MetricFormula["definitions"] = [];
+	let result: FormulaExpr | null = null;
+
+	statements.forEach((statement, index) => {
+		const def = statement.match(DEFINITION_RE);
+		const source = def ? def[2] : statement;
+		let expr: FormulaExpr;
+		try {
+			expr = new FormulaParser(source, names).parse();
+		} catch (e) {
+			const where = statements.length > 1 ? ` (line ${index + 1})` : "";
+			throw new Error(`${(e as Error).message}${where}`);
+		}
+		if (def) {
+			names.add(def[1]);
+			definitions.push({ name: def[1], expr });
+			result = { kind: "name", name: def[1] };
+		} else {
+			result = expr;
+		}
+	});
+
+	const fields: string[] = [];
+	definitions.forEach((d) => collectFields(d.expr, fields));
+	collectFields(result!, fields);
+	return { definitions, result: result!, fields };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function valuesOf(raw: unknown): unknown[] {
+	if (raw == null || raw === "") return [];
+	return Array.isArray(raw) ? raw.filter((v) => v != null && v !== "") : [raw];
+}
+
+function numbersOf(raw: unknown): number[] {
+	return valuesOf(raw)
+		.map((v) => (typeof v === "number" ? v : Number(String(v).trim())))
+		.filter((n) => Number.isFinite(n));
+}
+
+function aggregate(
+	expr: Extract<FormulaExpr, { kind: "aggregate" }>,
+	notes: FormulaNote[]
+): { value: number | null; notes: string[] } {
+	const matched = expr.filter ? notes.filter((n) => evalWhere(n.props, expr.filter!)) : notes;
+	const prop = expr.property;
+
+	if (expr.fn === "count" && !prop) {
+		return { value: matched.length, notes: matched.map((n) => n.path) };
+	}
+
+	const withValue = matched.filter((n) => valuesOf(n.props[prop!]).length > 0);
+	const paths = withValue.map((n) => n.path);
+
+	switch (expr.fn) {
+		case "count":
+		case "filled":
+			return { value: withValue.length, notes: paths };
+		case "distinct": {
+			const distinct = new Set<string>();
+			withValue.forEach((n) => valuesOf(n.props[prop!]).forEach((v) => distinct.add(String(v))));
+			return { value: distinct.size, notes: paths };
+		}
+	}
+
+	const numbers = matched.flatMap((n) => numbersOf(n.props[prop!]));
+	if (expr.fn === "sum") return { value: numbers.reduce((a, b) => a + b, 0), notes: paths };
+	if (numbers.length === 0) return { value: null, notes: paths };
+	switch (expr.fn) {
+		case "avg":
+			return { value: numbers.reduce((a, b) => a + b, 0) / numbers.length, notes: paths };
+		case "min":
+			return { value: Math.min(...numbers), notes: paths };
+		default:
+			return { value: Math.max(...numbers), notes: paths };
+	}
+}
+
+/**
+ * Evaluates a parsed formula over the notes of the view.
+ */
+export function evalMetricFormula(formula: MetricFormula, notes: FormulaNote[]): FormulaResult {
+	const values = new Map<string, { value: number | null; notes: string[] | null }>();
+
+	// Value of an expression and the notes of its first aggregate
+	const evaluate = (expr: FormulaExpr): { value: number | null; notes: string[] | null } => {
+		switch (expr.kind) {
+			case "number":
+				return { value: expr.value, notes: null };
+			case "name":
+				return values.get(expr.name) ?? { value: null, notes: null };
+			case "aggregate":
+				return aggregate(expr, notes);
+			case "neg": {
+				const inner = evaluate(expr.expr);
+				return { value: inner.value == null ? null : -inner.value, notes: inner.notes };
+			}
+			case "binary": {
+				const left = evaluate(expr.left);
+				const right = evaluate(expr.right);
+				const first = left.notes ?? right.notes;
+				if (left.value == null || right.value == null) return { value: null, notes: first };
+				switch (expr.op) {
+					case "+":
+						return { value: left.value + right.value, notes: first };
+					case "-":
+						return { value: left.value - right.value, notes: first };
+					case "*":
+						return { value: left.value * right.value, notes: first };
+					case "/":
+						return { value: right.value === 0 ? null : left.value / right.value, notes: first };
+				}
+			}
+		}
+	};
+
+	for (const def of formula.definitions) values.set(def.name, evaluate(def.expr));
+	const result = evaluate(formula.result);
+	return { value: result.value, notes: result.notes ?? [] };
+}
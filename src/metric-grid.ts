@@ -0,0 +1,221 @@
+/**
+ * Metric Grid
+ *
+ * Several metrics in one Indicator view (KPI grid). Each card is written as
+ * one entry, one per line or separated by ";" (outside quotes and parentheses):
+ *
+ *   Label | property | operation | filter | color rules | trend direction
+ *
+ * e.g. `Open tasks | | count | status = open` or
+ * `Hours spent | spent | sum | status = done and due >= 2026-01-01`.
+ * The property may be empty (count notes); the filter uses the WHERE
+ * expression language of code blocks. Color rules (metric-rules syntax, ";"
+ * between rules) and the trend direction (up-good, up-bad, neutral) belong to
+ * the card: `Overdue | | count | due < today | > 5 red; else green | up-bad`.
+ *
+ * A formula card writes its formula after "=" in place of the property:
+ * `Done | = count(where status = done) / count() * 100`. Formula cards and
+ * cards with rules run to the end of their line, so their own ";" don't
+ * start a new card:
+ * `Done | = done = count(where status = done); total = count(); done / total`.
+ */
+
+import { parseWhere, whereFields, type WhereExpr } from "./where";
+import { parseMetricFormula, type MetricFormula } from "./metric-formula";
+import { parseMetricRules, type MetricRule } from "./metric-rules";
+import { isTrendDirection, type TrendDirection } from "./metric-trend";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MetricCardSpec {
+	label: string;
+	/** Property measured by the card; null counts notes */
+	property: string | null;
+	/** Widget operation (countAll, countNonEmpty, sum, avg, min, max, oldest, newest, dateRange, formula) */
+	operation: string;
+	/** Parsed formula of a formula card */
+	formula?: MetricFormula;
+	/** Data type passed to the metric builder */
+	dataType: "number" | "date";
+	filter: WhereExpr | null;
+	/** Properties read by the filter */
+	filterFields: string[];
+	/** Color rules of this card (grid cards don't share the view's rules) */
+	rules: MetricRule[];
+	/** How this card colors its trend; unset uses the view's option */
+	trendDirection?: TrendDirection;
+	/** Why the card can't be computed (unknown operation, invalid filter, formula or rules) */
+	error?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Operation names accepted in a card, with their widget operation */
+const OPERATION_ALIASES: Record<string, string> = {
+	count: "countAll",
+	countall: "countAll",
+	filled: "countNonEmpty",
+	"count-value": "countNonEmpty",
+	countnonempty: "countNonEmpty",
+	sum: "sum",
+	avg: "avg",
+	average: "avg",
+	min: "min",
+	max: "max",
+	oldest: "oldest",
+	newest: "newest",
+	range: "dateRange",
+	daterange: "dateRange",
+};
+
+const DATE_OPERATIONS = ["oldest", "newest", "dateRange"];
+
+/** A single "|" (not "||", which is "or" in filters) */
+const FIELD_SEPARATOR = /(?<!\|)\|(?!\|)/;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Bases property id for a name: `status` → `note.status`; ids that already
+ * have a prefix (`file.mtime`, `formula.x`) are kept.
+ */
+export function propertyId(name: string): string {
+	return name.includes(".") ? name : `note.${name}`;
+}
+
+/**
+ * Splits the text into card entries: at new lines, and at ";" outside
+ * parentheses and quoted filter values, unless the entry is a formula card
+ * or has reached its color rules.
+ */
+function splitEntries(text: string): string[] {
+	const entries: string[] = [];
+	let start = 0;
+	let quote: string | null = null;
+	let depth = 0;
+	let field = 0;
+	let fieldStart = 0;
+	let formula = false;
+
+	const endEntry = (end: number) => {
+		entries.push(text.slice(start, end));
+		start = end + 1;
+		fieldStart = start;
+		field = 0;
+		depth = 0;
+		quote = null;
+		formula = false;
+	};
+
+	for (let i = 0; i < text.length; i++) {
+		const ch = text[i];
+		if (ch === "\n") {
+			endEntry(i);
+		} else if (quote) {
+			if (ch === "\\") i++;
+			else if (ch === quote) quote = null;
+		} else if ((ch === '"' || ch === "'") && field >= 3 && !/\w/.test(text[i - 1])) {
+			// Only filter values are quoted, from the start of a word (not O'Brien)
+			quote = ch;
+		} else if (ch === "(") {
+			depth++;
+		} else if (ch === ")") {
+			depth = Math.max(0, depth - 1);
+		} else if (ch === "|" && text[i - 1] !== "|" && text[i + 1] !== "|") {
+			field++;
+			fieldStart = i + 1;
+		} else if (ch === "=" && field === 1 && !text.slice(fieldStart, i).trim()) {
+			formula = true;
+		} else if (ch === ";" && depth === 0 && !formula && field < 4) {
+			endEntry(i);
+		}
+	}
+	entries.push(text.slice(start));
+	return entries;
+}
+
+function splitFields(entry: string): string[] {
+	const parts = entry.split(FIELD_SEPARATOR);
+	// Anything after the fifth separator belongs to the trend direction
+	const head = parts.slice(0, 5);
+	if (parts.length > 5) head.push(parts.slice(5).join("|"));
+	return head.map((p) => p.trim());
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Reads the cards of a KPI grid, in order. Entries without a label are
+ * skipped; cards with an unknown operation, an invalid filter, formula or
+ * color rules, or an unknown trend direction keep an `error` so the card can
+ * say what is wrong.
+ */
+export function parseMetricCards(raw: unknown): MetricCardSpec[] {
+	if (raw == null) return [];
+	const cards: MetricCardSpec[] = [];
+	const entries = splitEntries(String(raw))
+		.map((s) => s.trim())
+		.filter((s) => s.length > 0);
+
+	for (const entry of entries) {
+		const [label = "", property = "", opRaw = "", filterRaw = "", rulesRaw = "", directionRaw = ""] =
+			splitFields(entry);
+		if (!label) continue;
+
+		const card: MetricCardSpec = {
+			label,
+			property: property || null,
+			operation: property ? "countNonEmpty" : "countAll",
+			dataType: "number",
+			filter: null,
+			filterFields: [],
+			rules: parseMetricRules(rulesRaw),
+		};
+
+		if (property.startsWith("=")) {
+			card.property = null;
+			card.operation = "formula";
+			try {
+				card.formula = parseMetricFormula(property.slice(1).trim());
+			} catch (e) {
+				card.error = `Invalid formula: ${(e as Error).message}`;
+			}
+		} else if (opRaw) {
+			const operation = OPERATION_ALIASES[opRaw.toLowerCase()];
+			if (operation) card.operation = operation;
+			else card.error = `Unknown operation "${opRaw}"`;
+		}
+		if (!card.property && card.operation !== "countAll" && !property.startsWith("=")) {
+			card.error = card.error ?? "Operation requires a property";
+		}
+		if (DATE_OPERATIONS.includes(card.operation)) card.dataType = "date";
+
+		if (filterRaw) {
+			try {
+				card.filter = parseWhere(filterRaw);
+				card.filterFields = whereFields(card.filter);
+			} catch (e) {
+				card.error = card.error ?? `Invalid filter: ${(e as Error).message}`;
+			}
+		}
+		if (rulesRaw && card.rules.length === 0) {
+			card.error = card.error ?? `Invalid color rules "${rulesRaw}"`;
+		}
+		if (directionRaw) {
+			const direction = directionRaw.toLowerCase();
+			if (isTrendDirection(direction)) card.trendDirection = direction;
+			else card.error = card.error ?? `Unknown trend direction "${directionRaw}"`;
+		}
+
+		cards.push(card);
+	}
+	return cards;
+}
@@ -0,0 +1,146 @@
+/**
+ * Metric Rules
+ *
+ * Ordered threshold rules for the Indicator widget. The first rule whose
+ * condition holds styles the card; one entry per line or separated by ";":
+ *
+ * - `> 5 red 🔥` (condition, number color, icon)
+ * - `>= 1 orange bg=#fff3e0` (background)
+ * - `else green` (fallback, also `*`)
+ *
+ * Styles can also be written as `color=`, `bg=` and `icon=`. Colors are the
+ * widget color names (green, red, orange...) or CSS colors (#hex, rgb(),
+ * gold); a word written alone is a color, anything else is the icon.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RuleOperator = ">" | ">=" | "<" | "<=" | "=" | "!=" | "else";
+
+export interface MetricRule {
+	op: RuleOperator;
+	/** Threshold; unused for "else" */
+	value: number;
+	color?: string;
+	background?: string;
+	icon?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Color names understood by the widget (see getColorValue) */
+export const METRIC_COLOR_NAMES = ["auto", "accent", "green", "red", "blue", "orange", "purple"];
+
+const CONDITION_RE = /^(>=|<=|!=|==|=|>|<)\s*([-+]?\d+(?:[.,]\d+)?)\s*:?\s*(.*)$/;
+const ELSE_RE = /^(?:else|otherwise|\*)\s*:?\s*(.*)$/i;
+const CSS_COLOR_RE = /^(#[0-9a-f]{3,8}|(?:rgb|hsl)a?\([^)]*\)|var\([^)]*\)|[a-z]+)$/i;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+export function isColorToken(token: string): boolean {
+	return CSS_COLOR_RE.test(token);
+}
+
+/**
+ * Splits the style part of a rule into tokens; rgb()/hsl() keep their spaces.
+ */
+function tokenize(text: string): string[] {
+	return text.match(/[^\s=]+=(?:\w+\([^)]*\)|\S+)|\w+\([^)]*\)|\S+/g) ?? [];
+}
+
+/**
+ * Color names are case-insensitive; CSS colors are kept as written.
+ */
+function normalizeColor(token: string): string {
+	const lower = token.toLowerCase();
+	return METRIC_COLOR_NAMES.includes(lower) ? lower : token;
+}
+
+function readStyle(rule: MetricRule, text: string): void {
+	const icons: string[] = [];
+	for (const token of tokenize(text)) {
+		const eq = token.indexOf("=");
+		if (eq > 0) {
+			const key = token.slice(0, eq).toLowerCase();
+			const value = token.slice(eq + 1).trim();
+			if (!value) continue;
+			if (key === "color") rule.color = normalizeColor(value);
+			else if (key === "bg" || key === "background") rule.background = normalizeColor(value);
+			else if (key === "icon") rule.icon = value;
+		} else if (!rule.color && isColorToken(token)) {
+			rule.color = normalizeColor(token);
+		} else {
+			icons.push(token);
+		}
+	}
+	if (!rule.icon && icons.length) rule.icon = icons.join(" ");
+}
+
+/**
+ * Reads the rules of a widget, in order; entries that can't be read are skipped.
+ */
+export function parseMetricRules(raw: unknown): MetricRule[] {
+	if (raw == null) return [];
+	const rules: MetricRule[] = [];
+	const entries = String(raw)
+		.split(/[;\n]/)
+		.map((s) => s.trim())
+		.filter((s) => s.length > 0);
+
+	for (const entry of entries) {
+		let rule: MetricRule;
+		let style: string;
+		const m = entry.match(CONDITION_RE);
+		if (m) {
+			const value = Number(m[2].replace(",", "."));
+			if (!Number.isFinite(value)) continue;
+			rule = { op: (m[1] === "==" ? "=" : m[1]) as RuleOperator, value };
+			style = m[3];
+		} else {
+			const e = entry.match(ELSE_RE);
+			if (!e) continue;
+			rule = { op: "else", value: 0 };
+			style = e[1];
+		}
+		readStyle(rule, style);
+		if (rule.color || rule.background || rule.icon) rules.push(rule);
+	}
+	return rules;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function holds(rule: MetricRule, value: number): boolean {
+	switch (rule.op) {
+		case ">":
+			return value > rule.value;
+		case ">=":
+			return value >= rule.value;
+		case "<":
+			return value < rule.value;
+		case "<=":
+			return value <= rule.value;
+		case "=":
+			return value === rule.value;
+		case "!=":
+			return value !== rule.value;
+		case "else":
+			return true;
+	}
+}
+
+/**
+ * First rule that applies to a value, or null (also when there's no value).
+ */
+export function matchMetricRule(rules: MetricRule[], value: number | null): MetricRule | null {
+	if (value == null || !Number.isFinite(value)) return null;
+	return rules.find((rule) => holds(rule, value)) ?? null;
+}
@@ -0,0 +1,174 @@
+/**
+ * Metric Trend
+ *
+ * Windowed values for the metric widget: the metric over the last N days
+ * (the current window), the same metric over the N days before, and a short
+ * series of earlier windows for the sparkline.
+ */
+
+import { periodChange, type PeriodChange } from "./period-compare";
+import { startOfDay } from "./utils";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Whether a rising value is good news (green), bad news (red) or neither */
+export type TrendDirection = "up-good" | "up-bad" | "neutral";
+
+/** One note of the widget, placed in time by the trend date property */
+export interface TrendSample {
+	date: Date;
+	/** Numeric value of the metric property, null when missing or not a number */
+	value: number | null;
+	/** Whether the metric property is set */
+	present: boolean;
+	note: string;
+}
+
+export interface MetricTrend {
+	/** Window length in days */
+	days: number;
+	/** Metric over the current window; null when it can't be computed (avg of nothing) */
+	current: number | null;
+	previous: number | null;
+	/** Change from the previous window; null when either side is missing */
+	change: PeriodChange | null;
+	/** Metric per window, oldest first; the last value is `current` */
+	sparkline: (number | null)[];
+	/** Notes of the current window */
+	notes: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_TREND_WINDOW = 7;
+
+/** Number of windows drawn in the sparkline */
+export const SPARKLINE_WINDOWS = 8;
+
+export const TREND_DIRECTIONS: TrendDirection[] = ["up-good", "up-bad", "neutral"];
+
+/** Operations that can be computed per window */
+const TREND_OPERATIONS = ["countAll", "countNonEmpty", "sum", "avg", "min", "max"];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isTrendDirection(value: unknown): value is TrendDirection {
+	return TREND_DIRECTIONS.includes(value as TrendDirection);
+}
+
+export function supportsTrend(operation: string): boolean {
+	return TREND_OPERATIONS.includes(operation);
+}
+
+/**
+ * Reads a window length in days: "7", "7d", "30 days", "2w".
+ *
+ * @returns Days, or null if empty/invalid
+ */
+export function parseTrendWindow(raw: unknown): number | null {
+	if (raw == null) return null;
+	if (typeof raw === "number") return raw >= 1 ? Math.floor(raw) : null;
+	const match = String(raw).trim().toLowerCase().match(/^(\d+)\s*(d|days?|w|weeks?)?$/);
+	if (!match) return null;
+	const size = Number(match[1]);
+	if (!Number.isFinite(size) || size < 1) return null;
+	return match[2]?.startsWith("w") ? size * 7 : size;
+}
+
+/**
+ * Applies a widget operation to the samples of one window.
+ */
+function computeWindow(samples: TrendSample[], operation: string): number | null {
+	if (operation === "countAll") return samples.length;
+	if (operation === "countNonEmpty") return samples.filter((s) => s.present).length;
+
+	const numbers = samples
+		.map((s) => s.value)
+		.filter((n): n is number => n != null);
+	if (operation === "sum") return numbers.reduce((a, b) => a + b, 0);
+	if (numbers.length === 0) return null;
+	switch (operation) {
+		case "avg":
+			return numbers.reduce((a, b) => a + b, 0) / numbers.length;
+		case "min":
+			return Math.min(...numbers);
+		case "max":
+			return Math.max(...numbers);
+		default:
+			return null;
+	}
+}
+
+/**
+ * Color class of a change: "good", "bad" or "neutral".
+ */
+export function trendTone(
+	change: PeriodChange | null,
+	direction: TrendDirection
+): "good" | "bad" | "neutral" {
+	if (!change || change.delta === 0 || direction === "neutral") return "neutral";
+	const up = change.delta > 0;
+	return up === (direction === "up-good") ? "good" : "bad";
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Computes the metric over the last `days` days (today included) and over
+ * the windows before it. Notes dated after today are left out.
+ *
+ * @param samples - Notes with a trend date
+ * @param operation - Widget operation (countAll, countNonEmpty, sum, avg, min, max)
+ * @param days - Window length in days
+ * @param now - Reference date (today)
+ * @param windows - Number of windows for the sparkline (at least 2)
+ */
+export function computeMetricTrend(
+	samples: TrendSample[],
+	operation: string,
+	days: number,
+	now: Date = new Date(),
+	windows: number = SPARKLINE_WINDOWS
+): MetricTrend {
+	const count = Math.max(2, Math.floor(windows));
+	const size = Math.max(1, Math.floor(days));
+
+	// Window i covers [starts[i], starts[i - 1]), counted back from tomorrow;
+	// built with setDate so DST days keep their calendar length
+	const end = startOfDay(now);
+	end.setDate(end.getDate() + 1);
+	const starts = Array.from({ length: count }, (_, i) => {
+		const d = new Date(end.getTime());
+		d.setDate(d.getDate() - (i + 1) * size);
+		return d.getTime();
+	});
+	const buckets: TrendSample[][] = Array.from({ length: count }, () => []);
+
+	for (const sample of samples) {
+		const t = sample.date.getTime();
+		if (isNaN(t) || t >= end.getTime()) continue;
+		const index = starts.findIndex((start) => t >= start);
+		if (index >= 0) buckets[index].push(sample);
+	}
+
+	const sparkline = buckets.map((b) => computeWindow(b, operation)).reverse();
+	const current = sparkline[count - 1];
+	const previous = sparkline[count - 2];
+
+	return {
+		days: size,
+		current,
+		previous,
+		change: current != null && previous != null ? periodChange(current, previous) : null,
+		sparkline,
+		notes: buckets[0].map((s) => s.note),
+	};
+}
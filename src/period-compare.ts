@@ -0,0 +1,156 @@
+/**
+ * Period Comparison
+ *
+ * Pairs each point of a date series with the same series one period earlier
+ * (previous bucket, last week, last month, last quarter or last year), so
+ * line charts can draw the previous period as an overlay and show the change.
+ */
+
+import type { QueryResultRow } from "./types";
+import { bucketKey, formatDay, type DateBucket, type WeekStart } from "./date-buckets";
+import { categoryStart } from "./chart-annotations";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ComparePeriod = "previous" | "week" | "month" | "quarter" | "year";
+
+export interface PeriodChange {
+	delta: number;
+	/** Percent change; null when the previous value is 0 */
+	percent: number | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const COMPARE_PERIODS: ComparePeriod[] = ["previous", "week", "month", "quarter", "year"];
+
+/** Buckets from shortest to longest */
+const BUCKET_ORDER: DateBucket[] = ["day", "week", "month", "quarter", "year"];
+
+/** Legend / tooltip name of each comparison */
+export const COMPARE_LABELS: Record<ComparePeriod, string> = {
+	previous: "previous period",
+	week: "last week",
+	month: "last month",
+	quarter: "last quarter",
+	year: "last year",
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isComparePeriod(value: unknown): value is ComparePeriod {
+	return COMPARE_PERIODS.includes(value as ComparePeriod);
+}
+
+/**
+ * Granularity of an X value: date bucket keys keep their bucket,
+ * plain dates count as days. Returns null for non-date values.
+ * Four-digit values are years only with `yearKeys` (X grouped by year).
+ */
+export function detectBucket(x: unknown, yearKeys = false): DateBucket | null {
+	if (x instanceof Date) return isNaN(x.getTime()) ? null : "day";
+	const s = String(x ?? "").trim();
+	if (/^\d{4}-\d{2}-\d{2} \(W\)$/.test(s)) return "week";
+	if (/^\d{4}-\d{2}$/.test(s)) return "month";
+	if (/^\d{4}-Q[1-4]$/.test(s)) return "quarter";
+	if (/^\d{4}$/.test(s)) return yearKeys ? "year" : null;
+	return categoryStart(s) ? "day" : null;
+}
+
+/**
+ * Moves a date back by one unit. Months keep the day of month when it
+ * exists (Mar 31 → Feb 28).
+ */
+export function shiftBack(date: Date, unit: DateBucket): Date {
+	const d = new Date(date.getTime());
+	switch (unit) {
+		case "day":
+			d.setDate(d.getDate() - 1);
+			return d;
+		case "week":
+			d.setDate(d.getDate() - 7);
+			return d;
+		case "month":
+		case "quarter":
+		case "year": {
+			const months = unit === "month" ? 1 : unit === "quarter" ? 3 : 12;
+			const day = d.getDate();
+			d.setDate(1);
+			d.setMonth(d.getMonth() - months);
+			const lastDay = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+			d.setDate(Math.min(day, lastDay));
+			return d;
+		}
+	}
+}
+
+function keyOf(date: Date, bucket: DateBucket, weekStart: WeekStart): string {
+	return bucket === "day" ? formatDay(date) : bucketKey(date, bucket, weekStart);
+}
+
+/**
+ * Change from the previous value to the current one.
+ */
+export function periodChange(current: number, previous: number): PeriodChange {
+	const delta = current - previous;
+	return {
+		delta,
+		percent: previous === 0 ? null : (delta / Math.abs(previous)) * 100,
+	};
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Sets `previousY` on every row whose series has a value one period earlier.
+ * Rows with non-date X, without a matching earlier point, or grouped in
+ * buckets longer than the period are unchanged.
+ *
+ * @param rows - Aggregated rows (after cumulative / smoothing)
+ * @param period - "previous" (one bucket back) or a fixed period
+ * @param weekStart - First day of week buckets
+ * @param yearKeys - Whether X is grouped by year ("2026")
+ * @returns New rows, in the same order
+ */
+export function applyPeriodComparison(
+	rows: QueryResultRow[],
+	period: ComparePeriod,
+	weekStart: WeekStart = 1,
+	yearKeys = false
+): QueryResultRow[] {
+	const seriesOf = (r: QueryResultRow) => r.series ?? "";
+
+	type Located = { row: QueryResultRow; start: Date; bucket: DateBucket };
+	const located: (Located | null)[] = rows.map((row) => {
+		const bucket = detectBucket(row.x, yearKeys);
+		const start = bucket ? categoryStart(row.x, yearKeys) : null;
+		return bucket && start ? { row, start, bucket } : null;
+	});
+
+	const byKey = new Map<string, QueryResultRow>();
+	for (const loc of located) {
+		if (!loc) continue;
+		byKey.set(`${seriesOf(loc.row)}\u0000${keyOf(loc.start, loc.bucket, weekStart)}`, loc.row);
+	}
+
+	return rows.map((row, i) => {
+		const loc = located[i];
+		if (!loc) return row;
+
+		// "Last week" means nothing for monthly points
+		const unit = period === "previous" ? loc.bucket : period;
+		if (BUCKET_ORDER.indexOf(unit) < BUCKET_ORDER.indexOf(loc.bucket)) return row;
+
+		const prevKey = keyOf(shiftBack(loc.start, unit), loc.bucket, weekStart);
+		const previous = byKey.get(`${seriesOf(row)}\u0000${prevKey}`);
+		return previous ? { ...row, previousY: previous.y } : row;
+	});
+}
@@ -14,11 +14,17 @@ import type {
 import {
 	matchPath,
 	matchTags,
-	parseWhere,
-	evalCond,
 	looksLikeISODate,
 	toDate,
 } from "./utils";
+import { parseWhere, evalWhere } from "./where";
+import type { WhereExpr } from "./where";
+import { parseDependsOn } from "./gantt-dependencies";
+import { parseMilestoneFlag, parseProgress } from "./gantt-progress";
+import { DEFAULT_ANNOTATION_PROPERTY, categoryStart, noteAnnotation } from "./chart-annotations";
+import { applyPeriodComparison, isComparePeriod } from "./period-compare";
+import type { WeekStart } from "./date-buckets";
+import { parseSize } from "./scatter-size";
 
 // ============================================================================
 // Types
@@ -26,6 +32,21 @@ import {
 
 type SortDirection = "asc" | "desc";
 
+export type MovingWindowKind = "avg" | "sum" | "ema";
+
+export type MovingWindowUnit = "points" | "days";
+
+/**
+ * Moving-window transform applied per series.
+ * - avg / sum: over the last `size` points, or the last `size` days (current day included)
+ * - ema: exponential moving average with a span of `size` points (or days)
+ */
+export interface MovingWindow {
+	kind: MovingWindowKind;
+	size: number;
+	unit: MovingWindowUnit;
+}
+
 interface DateKeyNormalized {
 	key: string | number | Date;
 	isDate: boolean;
@@ -46,6 +67,7 @@ interface GroupAggregation {
 	count: number;
 	min: number;
 	max: number;
+	values: number[];
 	notes: string[];
 	xRep: any;
 	isDate: boolean;
@@ -58,6 +80,7 @@ interface GroupAggregation {
 // ============================================================================
 
 const NO_SERIES_KEY = "__no_series__";
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
 const SERIES_X_SEPARATOR = "||";
 const MILLISECONDS_PER_MINUTE = 60000;
 
@@ -87,6 +110,26 @@ function normalizeDateKey(original: any): DateKeyNormalized {
 	return { key: original, isDate: false };
 }
 
+/**
+ * Reads a numeric Y value. Repeated inline fields (several `spent::` in one
+ * note) add up their numeric items; other lists, such as frontmatter lists,
+ * use their first item.
+ *
+ * @param sumList - Whether the value comes from inline fields
+ * @returns The number, or null when nothing is numeric
+ */
+function numericY(raw: any, sumList: boolean): number | null {
+	const items = Array.isArray(raw) ? (sumList ? raw : raw.slice(0, 1)) : [raw];
+	let total: number | null = null;
+	for (const item of items) {
+		if (item == null || String(item).trim() === "") continue;
+		const num = Number(item);
+		if (Number.isNaN(num)) continue;
+		total = (total ?? 0) + num;
+	}
+	return total;
+}
+
 /**
  * Compares two rows by X value (ascending).
  * Dates are compared by timestamp, other values as strings.
@@ -178,33 +221,111 @@ function applyRollingInOrder(
 	if (!windowSize || windowSize <= 1) {
 		return [...rows];
 	}
+	return applyMovingWindow(rows, { kind: "avg", size: windowSize, unit: "points" });
+}
+
+/**
+ * Parses a moving window size: "7" (or 7) = 7 points, "7d" = 7 days.
+ * 
+ * @param raw - Window size from configuration
+ * @returns Parsed size and unit, or null if empty/invalid
+ */
+export function parseMovingWindow(
+	raw: unknown
+): { size: number; unit: MovingWindowUnit } | null {
+	if (raw == null) return null;
+	if (typeof raw === "number") {
+		return raw >= 1 ? { size: Math.floor(raw), unit: "points" } : null;
+	}
+	const match = String(raw).trim().toLowerCase().match(/^(\d+)\s*(d|days?|p|points?)?$/);
+	if (!match) return null;
+	const size = Number(match[1]);
+	if (!Number.isFinite(size) || size < 1) return null;
+	const unit: MovingWindowUnit = match[2]?.startsWith("d") ? "days" : "points";
+	return { size, unit };
+}
+
+/**
+ * Reads a row's X as a timestamp (local time), or null if X is not a date.
+ * Date-grouping keys (2024-05, 2024-Q2, 2024, week labels) count from the
+ * start of their period; four-digit years only with `yearKeys`.
+ */
+function rowTime(x: QueryResultRow["x"], yearKeys: boolean): number | null {
+	if (x instanceof Date) return x.getTime();
+	if (typeof x === "string" && looksLikeISODate(x)) {
+		return toDate(x)?.getTime() ?? null;
+	}
+	if (typeof x === "string") return categoryStart(x, yearKeys)?.getTime() ?? null;
+	return null;
+}
+
+/**
+ * Applies a moving-window transform PER SERIES in the current row order.
+ * The original value is kept in `rawY`.
+ * 
+ * Day windows need date X values (or date-grouping keys such as 2024-05);
+ * rows whose X is not a date keep their value.
+ * 
+ * @param rows - Rows to transform (should already be sorted by X ascending)
+ * @param window - Transform kind, size and unit
+ * @param yearKeys - Whether X is grouped by year ("2024")
+ * @returns Rows with smoothed Y values
+ */
+export function applyMovingWindow(
+	rows: QueryResultRow[],
+	window: MovingWindow,
+	yearKeys = false
+): QueryResultRow[] {
+	const size = Math.max(1, Math.floor(window.size));
+	const byDays = window.unit === "days";
+	// Smoothing factor for a span of `size` points (size = 1 → no smoothing)
+	const alpha = 2 / (size + 1);
 
-	const bufferBySeries = new Map<string, number[]>();
-	const sumBySeries = new Map<string, number>();
+	const buffers = new Map<string, { t: number; y: number }[]>();
+	const emaState = new Map<string, { value: number; t: number | null }>();
 	const output: QueryResultRow[] = [];
 
 	for (const row of rows) {
 		const seriesKey = row.series ?? NO_SERIES_KEY;
+		const t = byDays ? rowTime(row.x, yearKeys) : null;
 
-		let buffer = bufferBySeries.get(seriesKey);
-		if (!buffer) {
-			buffer = [];
-			bufferBySeries.set(seriesKey, buffer);
+		if (byDays && t == null) {
+			output.push({ ...row, rawY: row.y });
+			continue;
 		}
-		let sum = sumBySeries.get(seriesKey) ?? 0;
 
-		buffer.push(row.y);
-		sum += row.y;
-		if (buffer.length > windowSize) {
-			const removed = buffer.shift()!;
-			sum -= removed;
+		let y: number;
+		if (window.kind === "ema") {
+			const previous = emaState.get(seriesKey);
+			if (!previous) {
+				y = row.y;
+			} else {
+				// For day windows the weight grows with the days elapsed since the previous point
+				const elapsed =
+					byDays && previous.t != null ? (t! - previous.t) / MS_PER_DAY : 1;
+				const weight = elapsed > 0 ? 1 - Math.pow(1 - alpha, elapsed) : alpha;
+				y = previous.value + weight * (row.y - previous.value);
+			}
+			emaState.set(seriesKey, { value: y, t });
+		} else {
+			let buffer = buffers.get(seriesKey);
+			if (!buffer) {
+				buffer = [];
+				buffers.set(seriesKey, buffer);
+			}
+			buffer.push({ t: t ?? 0, y: row.y });
+			if (byDays) {
+				// Keep the last `size` days, current day included
+				const cutoff = t! - size * MS_PER_DAY;
+				while (buffer.length && buffer[0].t <= cutoff) buffer.shift();
+			} else if (buffer.length > size) {
+				buffer.shift();
+			}
+			const sum = buffer.reduce((total, item) => total + item.y, 0);
+			y = window.kind === "sum" ? sum : sum / buffer.length;
 		}
-		sumBySeries.set(seriesKey, sum);
-
-		const denominator = buffer.length || 1;
-		const average = sum / denominator;
 
-		output.push({ ...row, y: average });
+		output.push({ ...row, y, rawY: row.y });
 	}
 
 	return output;
@@ -216,11 +337,16 @@ function applyRollingInOrder(
 
 export class PropChartsQueryEngine {
 	private getIndex: () => IndexedNote[];
-	private defaultPaths: string[];
+	private getWeekStart: () => WeekStart;
 
-	constructor(getIndex: () => IndexedNote[], defaultPaths: string[]) {
+	/**
+	 * @param getIndex - Indexed notes; the index only holds the indexed folders,
+	 *   so blocks without `source.paths` query all of them
+	 * @param getWeekStart - First day of week buckets (from the settings)
+	 */
+	constructor(getIndex: () => IndexedNote[], getWeekStart: () => WeekStart = () => 1) {
 		this.getIndex = getIndex;
-		this.defaultPaths = defaultPaths;
+		this.getWeekStart = getWeekStart;
 	}
 
 	/**
@@ -230,22 +356,32 @@ export class PropChartsQueryEngine {
 		const allNotes = this.getIndex();
 
 		// Apply basic filters: paths + tags
-		const sourcePaths =
-			spec.source?.paths && spec.source.paths.length
-				? spec.source.paths
-				: this.defaultPaths;
+		const sourcePaths = spec.source?.paths ?? [];
 
 		const sourceTags =
 			spec.source?.tags && spec.source.tags.length
 				? spec.source.tags
 				: [];
 
+		// Where conditions: parsed once, all of them must pass
+		const conditions: WhereExpr[] = (spec.source?.where ?? []).map(
+			(conditionStr) => {
+				try {
+					return parseWhere(conditionStr);
+				} catch (err) {
+					throw new Error(
+						`Invalid condition: ${conditionStr} (${(err as Error).message})`
+					);
+				}
+			}
+		);
+
 		const filtered: IndexedNote[] = [];
 
 		for (const note of allNotes) {
-			// Path filter: if no paths specified (neither in spec nor default), don't filter by path
+			// Path filter: if no paths specified, don't filter by path
 			const passesPath =
-				sourcePaths && sourcePaths.length
+				sourcePaths.length
 					? matchPath(note.path, sourcePaths)
 					: true;
 
@@ -258,24 +394,9 @@ export class PropChartsQueryEngine {
 			// Note must pass BOTH path AND tag filters
 			if (!passesPath || !passesTag) continue;
 
-			// Where conditions
-			let passesWhere = true;
-			if (spec.source?.where && spec.source.where.length > 0) {
-				for (const conditionStr of spec.source.where) {
-					let parsed;
-					try {
-						parsed = parseWhere(conditionStr);
-					} catch (err) {
-						throw new Error(
-							`Invalid condition: ${conditionStr} (${(err as Error).message})`
-						);
-					}
-					if (!evalCond(note.props, parsed)) {
-						passesWhere = false;
-						break;
-					}
-				}
-			}
+			const passesWhere = conditions.every((cond) =>
+				evalWhere(note.props, cond)
+			);
 			if (!passesWhere) continue;
 
 			filtered.push(note);
@@ -286,11 +407,40 @@ export class PropChartsQueryEngine {
 			return this.runGantt(spec, filtered);
 		}
 		if (spec.type === "table") {
-			return this.runTable(spec, filtered);
+			// With encoding.x the table is a pivot (aggregated like a bar chart);
+			// without it, it simply lists the matching notes.
+			return spec.encoding?.x
+				? this.runStandard(spec, filtered)
+				: this.runTable(spec, filtered);
 		}
 
 		// Standard charts (bar / line / stacked-area / pie / scatter / stacked-bar)
-		return this.runStandard(spec, filtered);
+		const result = this.runStandard(spec, filtered);
+		if (
+			spec.type === "bar" ||
+			spec.type === "stacked-bar" ||
+			spec.type === "line" ||
+			spec.type === "stacked-area"
+		) {
+			result.annotations = this.collectAnnotations(spec, filtered);
+		}
+		return result;
+	}
+
+	/**
+	 * Date annotations from the notes of the source that have the
+	 * annotation property (options.annotationProperty, "annotation" by default).
+	 */
+	private collectAnnotations(spec: ChartSpec, notes: IndexedNote[]): QueryResult["annotations"] {
+		const field = spec.options?.annotationProperty ?? DEFAULT_ANNOTATION_PROPERTY;
+		if (!field) return [];
+
+		const annotations: NonNullable<QueryResult["annotations"]> = [];
+		for (const note of notes) {
+			const annotation = noteAnnotation(note.path, note.props[field]);
+			if (annotation) annotations.push(annotation);
+		}
+		return annotations;
 	}
 
 	// ============================================================================
@@ -326,6 +476,11 @@ export class PropChartsQueryEngine {
 		const seriesField: string | undefined = encoding.series;
 		const durationField: string | undefined = encoding.duration;
 		const dueField: string | undefined = encoding.due;
+		const dependsOnField: string | undefined = encoding.dependsOn;
+		const progressField: string | undefined = encoding.progress;
+		const milestoneField: string | undefined = encoding.milestone;
+		const baselineStartField: string | undefined = encoding.baselineStart;
+		const baselineEndField: string | undefined = encoding.baselineEnd;
 
 		const rows: QueryResultRow[] = [];
 
@@ -395,6 +550,25 @@ export class PropChartsQueryEngine {
 				props,
 			};
 			if (dueDate) (row as any).due = dueDate;
+			if (dependsOnField) {
+				const dependsOn = parseDependsOn(props[dependsOnField]);
+				if (dependsOn.length) row.dependsOn = dependsOn;
+			}
+			if (progressField) {
+				const progress = parseProgress(props[progressField]);
+				if (progress != null) row.progress = progress;
+			}
+			if (milestoneField && parseMilestoneFlag(props[milestoneField])) {
+				row.milestone = true;
+			}
+			if (baselineStartField) {
+				const date = toDate(pickScalar(props[baselineStartField]));
+				if (date) row.baselineStart = date;
+			}
+			if (baselineEndField) {
+				const date = toDate(pickScalar(props[baselineEndField]));
+				if (date) row.baselineEnd = date;
+			}
 			rows.push(row);
 		}
 
@@ -413,7 +587,8 @@ export class PropChartsQueryEngine {
 	}
 
 	/**
-	 * Handles standard chart queries (bar, line, stacked-area, pie, scatter, stacked-bar).
+	 * Handles standard chart queries (bar, line, stacked-area, pie, scatter, stacked-bar)
+	 * and pivot tables.
 	 */
 	private runStandard(spec: ChartSpec, notes: IndexedNote[]): QueryResult {
 		const xField = spec.encoding?.x;
@@ -425,7 +600,10 @@ export class PropChartsQueryEngine {
 		}
 
 		const aggregateConfig: any = spec.aggregate ?? {};
-		const aggregateMode: string | null = aggregateConfig.y ?? null;
+		// Pivot tables always aggregate: default to sum (or count without y)
+		const aggregateMode: string | null =
+			aggregateConfig.y ??
+			(spec.type === "table" ? (yField ? "sum" : "count") : null);
 		const cumulative: boolean = !!aggregateConfig.cumulative;
 		const rolling = aggregateConfig.rolling;
 
@@ -461,10 +639,8 @@ export class PropChartsQueryEngine {
 			if (aggregateMode === "count") {
 				yValue = 1;
 			} else {
-				const rawY = pickScalar(props[yField!]);
-				if (rawY == null) continue;
-				const num = Number(rawY);
-				if (Number.isNaN(num)) continue;
+				const num = numericY(props[yField!], !!note.inlineKeys?.includes(yField!));
+				if (num == null) continue;
 				yValue = num;
 			}
 
@@ -503,6 +679,7 @@ export class PropChartsQueryEngine {
 					count: 0,
 					min: Number.POSITIVE_INFINITY,
 					max: Number.NEGATIVE_INFINITY,
+					values: [],
 					notes: [],
 					xRep: row.x,
 					isDate: row._isDate,
@@ -514,6 +691,7 @@ export class PropChartsQueryEngine {
 				group.count += 1;
 				if (row.y < group.min) group.min = row.y;
 				if (row.y > group.max) group.max = row.y;
+				group.values.push(row.y);
 				group.notes.push(...row.notes);
 				group.props = row.props ?? group.props;
 
@@ -545,15 +723,22 @@ export class PropChartsQueryEngine {
 					notes: group.notes,
 					series: group.series,
 					props: group.props,
+					// Pivot totals of avg / min / max are computed from the raw values
+					...(spec.type === "table"
+						? { bucket: { values: group.values, distinct: [], count: group.count } }
+						: {}),
 				});
 			}
 		} else {
+			// Bubble size (scatter): one value per note, so only without aggregation
+			const sizeField = spec.type === "scatter" ? spec.encoding?.size : undefined;
 			aggregated = rawRows.map((row) => ({
 				x: row.x,
 				y: row.y,
 				notes: row.notes,
 				series: row.series,
 				props: row.props,
+				...(sizeField ? { size: parseSize(row.props?.[sizeField]) } : {}),
 			}));
 		}
 
@@ -592,6 +777,12 @@ export class PropChartsQueryEngine {
 			transformed = applyCumulativeInOrder(aggregated);
 		}
 
+		// Previous period overlay, compared on the values as drawn
+		const comparePeriod = spec.options?.comparePeriod;
+		if (spec.type === "line" && isComparePeriod(comparePeriod)) {
+			transformed = applyPeriodComparison(transformed, comparePeriod, this.getWeekStart());
+		}
+
 		// Do NOT re-sort after transformations: the order used is the same as sort.x
 		return { rows: transformed, xField, yField };
 	}
@@ -6,7 +6,9 @@ import { renderLine, renderStackedArea } from "./renderer/line";
 import { renderPie } from "./renderer/pie";
 import { renderScatter } from "./renderer/scatter";
 import { renderMetric } from "./renderer/metric";
+import { renderTable } from "./renderer/table";
 import type { RenderContext } from "./renderer/renderer-common";
+import { addExportButton } from "./chart-export";
 
 export class PropChartsRenderer {
 	render(
@@ -20,8 +22,9 @@ export class PropChartsRenderer {
 		container.addClass("prop-charts-container");
 
 		// Metric widgets don't show title in header (they have their own label)
+		let header: HTMLElement | null = null;
 		if (spec.type !== "metric") {
-			const header = container.createDiv({ cls: "prop-charts-title-row" });
+			header = container.createDiv({ cls: "prop-charts-title-row" });
 			const titleEl = header.createDiv({ cls: "prop-charts-title" });
 			if (title) {
 				titleEl.textContent = title;
@@ -53,11 +56,18 @@ export class PropChartsRenderer {
 			case "metric":
 				renderMetric(container, spec, data);
 				break;
+			case "table":
+				renderTable(container, spec, data);
+				break;
 			default:
 				container.createDiv({
 					text: "Chart Notes: unsupported type: " + spec.type,
 				});
 		}
+
+		if (header) {
+			addExportButton(container, header, spec, data, ctx?.sourcePath);
+		}
 	}
 }
 
@@ -0,0 +1,173 @@
+// src/renderer/annotations.ts
+
+/**
+ * Draws chart annotations (reference lines, value bands, date markers) on
+ * the SVG of bar and line charts.
+ */
+
+import type { ChartAnnotation } from "../types";
+import type { ChartAnnotations } from "../chart-annotations";
+import { formatDateShort, formatNumber, hideTooltip, openDetails, showTooltip } from "./renderer-common";
+
+const LINE_COLOR = "#e67e22";
+const BAND_COLOR = "#5b6cff";
+const BAND_OPACITY = "0.1";
+const DATE_COLOR = "#7a7a7a";
+/** Height of the hover target at the top of a date marker */
+const HIT_STRIP_H = 14;
+
+export interface PlotArea {
+	left: number;
+	right: number;
+	top: number;
+	bottom: number;
+}
+
+function svgEl<K extends keyof SVGElementTagNameMap>(
+	svg: SVGSVGElement,
+	tag: K,
+	attrs: Record<string, string | number>
+): SVGElementTagNameMap[K] {
+	const el = document.createElementNS(svg.namespaceURI, tag) as SVGElementTagNameMap[K];
+	for (const [key, value] of Object.entries(attrs)) el.setAttribute(key, String(value));
+	return el;
+}
+
+function drawLabel(
+	svg: SVGSVGElement,
+	text: string,
+	x: number,
+	y: number,
+	anchor: "start" | "end",
+	color: string
+): void {
+	if (!text) return;
+	const label = svgEl(svg, "text", {
+		x,
+		y,
+		"text-anchor": anchor,
+		"font-size": 10,
+		fill: color,
+	});
+	label.classList.add("chart-notes-annotation-label");
+	label.textContent = text;
+	svg.appendChild(label);
+}
+
+/**
+ * Draws value bands. Call before the data so bars and lines stay on top.
+ */
+export function drawValueBands(
+	svg: SVGSVGElement,
+	annotations: ChartAnnotations,
+	yScale: (v: number) => number,
+	area: PlotArea
+): void {
+	for (const band of annotations.bands) {
+		const yTop = Math.max(area.top, Math.min(area.bottom, yScale(band.to)));
+		const yBottom = Math.max(area.top, Math.min(area.bottom, yScale(band.from)));
+		if (!(yBottom - yTop > 0)) continue;
+
+		const color = band.color ?? BAND_COLOR;
+		const rect = svgEl(svg, "rect", {
+			x: area.left,
+			y: yTop,
+			width: area.right - area.left,
+			height: yBottom - yTop,
+			fill: color,
+			"fill-opacity": BAND_OPACITY,
+		});
+		rect.classList.add("chart-notes-band");
+		svg.appendChild(rect);
+		drawLabel(svg, band.label, area.left + 4, yTop + 11, "start", color);
+	}
+}
+
+/**
+ * Draws reference lines. Call after the data so they stay visible.
+ */
+export function drawReferenceLines(
+	svg: SVGSVGElement,
+	annotations: ChartAnnotations,
+	yScale: (v: number) => number,
+	area: PlotArea
+): void {
+	for (const ref of annotations.lines) {
+		const y = yScale(ref.value);
+		if (y < area.top - 0.5 || y > area.bottom + 0.5) continue;
+
+		const color = ref.color ?? LINE_COLOR;
+		const line = svgEl(svg, "line", {
+			x1: area.left,
+			y1: y,
+			x2: area.right,
+			y2: y,
+			stroke: color,
+			"stroke-width": 1.5,
+			"stroke-dasharray": "6,3",
+		});
+		line.classList.add("chart-notes-reference-line");
+		svg.appendChild(line);
+
+		const text = ref.label ? `${ref.label} (${formatNumber(ref.value)})` : formatNumber(ref.value);
+		drawLabel(svg, text, area.right - 2, y - 4, "end", color);
+	}
+}
+
+/**
+ * Draws vertical date markers. `xOf` returns null for dates outside the axis.
+ * Markers from notes open the note list on click.
+ */
+export function drawDateAnnotations(
+	svg: SVGSVGElement,
+	dates: ChartAnnotation[],
+	xOf: (date: Date) => number | null,
+	area: PlotArea,
+	ui: { container: HTMLElement; tooltip: HTMLElement; details: HTMLElement; drilldown: boolean }
+): void {
+	for (const annotation of dates) {
+		const x = xOf(annotation.date);
+		if (x == null || x < area.left - 0.5 || x > area.right + 0.5) continue;
+
+		const color = annotation.color ?? DATE_COLOR;
+		const line = svgEl(svg, "line", {
+			x1: x,
+			y1: area.top,
+			x2: x,
+			y2: area.bottom,
+			stroke: color,
+			"stroke-width": 1,
+			"stroke-dasharray": "3,3",
+		});
+		line.classList.add("chart-notes-annotation");
+		svg.appendChild(line);
+
+		// Keep labels near the right edge inside the plot
+		const nearRight = x > area.right - 80;
+		drawLabel(svg, annotation.label, nearRight ? x - 3 : x + 3, area.top + 10, nearRight ? "end" : "start", color);
+
+		// Hover / click target on the label strip, so the data below stays clickable
+		const hit = svgEl(svg, "rect", {
+			x: nearRight ? x - 80 : x - 4,
+			y: area.top,
+			width: 84,
+			height: HIT_STRIP_H,
+			fill: "transparent",
+		});
+		hit.classList.add("chart-notes-annotation-hit");
+		const notes = annotation.note ? [annotation.note] : [];
+		const title = annotation.label || formatDateShort(annotation.date);
+		hit.addEventListener("mouseenter", (ev: MouseEvent) =>
+			showTooltip(ui.container, ui.tooltip, title, formatDateShort(annotation.date), notes.length, ev)
+		);
+		hit.addEventListener("mouseleave", () => hideTooltip(ui.tooltip));
+		if (notes.length) {
+			hit.style.cursor = "pointer";
+			hit.addEventListener("click", (ev: MouseEvent) => {
+				ev.preventDefault();
+				openDetails(ui.container, ui.details, title, 0, notes, ui.drilldown);
+			});
+		}
+		svg.appendChild(hit);
+	}
+}
@@ -7,8 +7,20 @@ import {
 	showTooltip,
 	hideTooltip,
 	openDetails,
-	DEFAULT_H,
+	getChartHeight,
 } from "./renderer-common";
+import {
+	categoryPosition,
+	extendValueDomain,
+	resolveAnnotations,
+	type ChartAnnotations,
+} from "../chart-annotations";
+import {
+	drawDateAnnotations,
+	drawReferenceLines,
+	drawValueBands,
+	type PlotArea,
+} from "./annotations";
 
 export function renderBar(
 	container: HTMLElement,
@@ -38,7 +50,7 @@ export function renderBar(
 	const PAD_T2 = 18;
 	const PAD_B2 = 28;
 
-	const height = DEFAULT_H;
+	const height = getChartHeight();
 	svg.setAttribute("height", String(height));
 
 	const plotW = width - PAD_L2 - PAD_R2;
@@ -77,8 +89,18 @@ export function renderBar(
 	});
 	if (!isFinite(maxY) || maxY <= 0) maxY = 1;
 
+	// Reference lines and bands above the data widen the axis
+	const annotations = resolveAnnotations(opts, data.annotations);
+	maxY = extendValueDomain(0, maxY, annotations).max;
+
 	const yScale = (v: number) => PAD_T2 + plotH - (v / (maxY || 1)) * plotH;
 	const baselineY = yScale(0);
+	const area: PlotArea = {
+		left: PAD_L2,
+		right: width - PAD_R2,
+		top: PAD_T2,
+		bottom: PAD_T2 + plotH,
+	};
 
 	const yTicks = 4;
 	for (let i = 0; i <= yTicks; i++) {
@@ -104,6 +126,8 @@ export function renderBar(
 		svg.appendChild(label);
 	}
 
+	drawValueBands(svg, annotations, yScale, area);
+
 	const step = nCats > 0 ? plotW / nCats : plotW;
 
 	categories.forEach((cat, idx) => {
@@ -251,6 +275,13 @@ export function renderBar(
 			svg.appendChild(rect);
 		});
 	});
+
+	drawAnnotationsOver(svg, annotations, yScale, area, categories, step, opts.yearBuckets === true, {
+		container,
+		tooltip,
+		details,
+		drilldown,
+	});
 }
 
 export function renderStackedBar(
@@ -308,7 +339,7 @@ export function renderStackedBar(
 		PAD_R2 = 16,
 		PAD_T2 = 18,
 		PAD_B2 = 28;
-	const height = DEFAULT_H;
+	const height = getChartHeight();
 	svg.setAttribute("height", String(height));
 
 	const plotW = width - PAD_L2 - PAD_R2;
@@ -321,7 +352,16 @@ export function renderStackedBar(
 	});
 	if (!isFinite(maxY) || maxY <= 0) maxY = 1;
 
+	const annotations = resolveAnnotations(opts, data.annotations);
+	maxY = extendValueDomain(0, maxY, annotations).max;
+
 	const yScale = (v: number) => PAD_T2 + plotH - (v / (maxY || 1)) * plotH;
+	const area: PlotArea = {
+		left: PAD_L2,
+		right: width - PAD_R2,
+		top: PAD_T2,
+		bottom: PAD_T2 + plotH,
+	};
 
 	// Eixo Y
 	const yTicks = 4;
@@ -348,6 +388,8 @@ export function renderStackedBar(
 		svg.appendChild(label);
 	}
 
+	drawValueBands(svg, annotations, yScale, area);
+
 	const step = nCats > 0 ? plotW / nCats : plotW;
 
 	// X labels
@@ -443,5 +485,41 @@ export function renderStackedBar(
 			svg.appendChild(rect);
 		});
 	});
+
+	drawAnnotationsOver(svg, annotations, yScale, area, categories, step, opts.yearBuckets === true, {
+		container,
+		tooltip,
+		details,
+		drilldown,
+	});
 }
 
+/**
+ * Reference lines and date markers, drawn over the bars. Dates land inside
+ * their category when the categories are dates or date buckets.
+ */
+function drawAnnotationsOver(
+	svg: SVGSVGElement,
+	annotations: ChartAnnotations,
+	yScale: (v: number) => number,
+	area: PlotArea,
+	categories: { label: any }[],
+	step: number,
+	yearKeys: boolean,
+	ui: { container: HTMLElement; tooltip: HTMLElement; details: HTMLElement; drilldown: boolean }
+): void {
+	drawReferenceLines(svg, annotations, yScale, area);
+	if (!annotations.dates.length) return;
+
+	const labels = categories.map((cat) => cat.label);
+	drawDateAnnotations(
+		svg,
+		annotations.dates,
+		(date) => {
+			const pos = categoryPosition(labels, date, yearKeys);
+			return pos == null ? null : area.left + step * pos;
+		},
+		area,
+		ui
+	);
+}
@@ -0,0 +1,106 @@
+// src/renderer/data-export.ts
+
+/**
+ * Turns the rows behind a chart (QueryResult.rows, already aggregated) into a
+ * plain table and serializes it as CSV or as a Markdown table, so the
+ * numbers can be pasted into reports or checked against the chart.
+ */
+
+import type { ChartSpec, QueryResult } from "../types";
+import { formatDay } from "../date-buckets";
+import { prettifyLabelFull } from "./renderer-common";
+
+export interface DataTable {
+	headers: string[];
+	rows: string[][];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * "2026-03-05", or "2026-03-05 14:30" when the date has a time of day.
+ */
+function formatDate(d: Date | undefined): string {
+	if (!(d instanceof Date) || isNaN(d.getTime())) return "";
+	const day = formatDay(d);
+	if (d.getHours() === 0 && d.getMinutes() === 0) return day;
+	return `${day} ${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+}
+
+function formatCell(value: unknown): string {
+	if (value == null) return "";
+	if (value instanceof Date) return formatDate(value);
+	if (typeof value === "number") {
+		// Drop float noise from aggregation (0.1 + 0.2)
+		return Number.isFinite(value) ? String(Math.round(value * 1e6) / 1e6) : "";
+	}
+	return String(value);
+}
+
+/**
+ * Builds the exported table for a chart.
+ *
+ * Gantt: one row per task with label, start, end, due and duration (days).
+ * Other charts: x, series (when any row has one), y and the number of notes.
+ */
+export function chartDataTable(spec: ChartSpec, data: QueryResult): DataTable {
+	if (spec.type === "gantt") {
+		return {
+			headers: ["label", "start", "end", "due", "duration (days)"],
+			rows: data.rows.map((r) => {
+				const label =
+					typeof r.x === "string" ? prettifyLabelFull(r.x) : formatCell(r.x);
+				const duration =
+					r.start instanceof Date && r.end instanceof Date
+						? formatCell((r.end.getTime() - r.start.getTime()) / MS_PER_DAY)
+						: "";
+				return [label, formatDate(r.start), formatDate(r.end), formatDate(r.due), duration];
+			}),
+		};
+	}
+
+	const hasSeries = data.rows.some((r) => r.series != null && r.series !== "");
+	const headers = [data.xField || "x"];
+	if (hasSeries) headers.push("series");
+	headers.push(data.yField || "y", "notes");
+
+	return {
+		headers,
+		rows: data.rows.map((r) => {
+			const cells = [formatCell(r.x)];
+			if (hasSeries) cells.push(formatCell(r.series));
+			cells.push(formatCell(r.y), String(r.notes?.length ?? 0));
+			return cells;
+		}),
+	};
+}
+
+/**
+ * CSV (RFC 4180): fields with commas, quotes or line breaks are quoted.
+ */
+export function toCsv(table: DataTable): string {
+	const escape = (cell: string) =>
+		/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+	const lines = [table.headers, ...table.rows].map((row) => row.map(escape).join(","));
+	return lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Markdown table; pipes are escaped and line breaks become spaces.
+ * Number columns are right-aligned.
+ */
+export function toMarkdownTable(table: DataTable): string {
+	const escape = (cell: string) => cell.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+	const numeric = table.headers.map(
+		(_, col) =>
+			table.rows.some((row) => row[col] !== "") &&
+			table.rows.every((row) => row[col] === "" || !isNaN(Number(row[col])))
+	);
+	const line = (cells: string[]) => `| ${cells.map(escape).join(" | ")} |`;
+
+	return [
+		line(table.headers),
+		`| ${numeric.map((n) => (n ? "---:" : "---")).join(" | ")} |`,
+		...table.rows.map(line),
+	].join("\n");
+}
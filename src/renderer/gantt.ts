@@ -12,18 +12,155 @@ import {
 	PAD_T,
 	PAD_B,
 	PAD_R,
-	DEFAULT_H,
+	getChartHeight,
 	ensureContainer,
 	showTooltip,
 	hideTooltip,
 	openDetails,
 	colorFor,
 	formatDateShort,
+	formatNumber,
+	getChartDefaults,
 	type RenderContext,
 } from "./renderer-common";
+import {
+	findCriticalPath,
+	resolveDependencies,
+	type DependencyEdge,
+} from "../gantt-dependencies";
+import {
+	applyDrag,
+	formatTaskDate,
+	pickSnapUnit,
+	planDateUpdate,
+	type DragMode,
+	type FrontmatterPatch,
+	type TaskInterval,
+} from "../gantt-schedule";
+import {
+	baselineSlip,
+	resolveBaseline,
+	summarizeBaseline,
+} from "../gantt-baseline";
+import {
+	DEFAULT_CAPACITY_MINUTES,
+	computeLoad,
+	parseCapacity,
+} from "../gantt-load";
+import {
+	MIN_CELL_PX,
+	buildScaleHeader,
+	isTimeScaleMode,
+	limitScale,
+	minPlotWidth,
+	nonWorkingIntervals,
+	parseNonWorkingDays,
+	resolveAutoScale,
+	type TimeScale,
+	type TimeScaleMode,
+} from "../gantt-scale";
 
 declare const app: App;
 
+/** Pointer movement (px) before a press on a bar becomes a drag */
+const DRAG_THRESHOLD_PX = 3;
+/** Width (px) of the resize handles at each end of a bar */
+const RESIZE_HANDLE_PX = 6;
+/** Height (px) of each row of the two-level time header */
+const HEADER_ROW_H = 14;
+/** Days narrower than this (px) are not shaded as non-working */
+const MIN_SHADED_DAY_PX = 4;
+/** Top-row cells narrower than this (px) get no label */
+const MIN_MAJOR_LABEL_PX = 40;
+/** Height (px) of the baseline ghost bar under each task */
+const BASELINE_BAR_H = 4;
+/** Height (px) of each lane in the load histogram, and the space above it */
+const LOAD_ROW_H = 30;
+const LOAD_PANEL_GAP = 24;
+const LOAD_COLOR = "#74a9e8";
+
+const DEPENDENCY_COLOR = "#555555";
+const VIOLATION_COLOR = "#e03131";
+const CRITICAL_COLOR = "#f08c00";
+
+const SCALE_LABELS: Record<TimeScaleMode, string> = {
+	auto: "Auto scale",
+	hour: "Hours",
+	day: "Days",
+	week: "Weeks",
+	month: "Months",
+	quarter: "Quarters",
+};
+
+interface LastMove {
+	notePath: string;
+	noteTitle: string;
+	previous: FrontmatterPatch;
+}
+
+/** Last drag per chart container, so it can be undone */
+const lastMoves = new WeakMap<HTMLElement, LastMove>();
+
+/**
+ * Splits a note into its parsed frontmatter and the body after it.
+ */
+function splitFrontmatter(raw: string): { front: Record<string, any>; body: string } {
+	const fmMatch = raw.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
+	if (!fmMatch) return { front: {}, body: raw };
+	let front: Record<string, any>;
+	try {
+		front = (parseYaml(fmMatch[1]) ?? {}) as Record<string, any>;
+	} catch {
+		front = {};
+	}
+	return { front, body: fmMatch[2] ?? "" };
+}
+
+/**
+ * Writes task fields to a note's frontmatter (undefined deletes the key).
+ * Shared by the edit modal and drag & drop.
+ *
+ * @returns The previous values of the changed keys, for undo
+ */
+async function updateTaskFrontmatter(
+	file: TFile,
+	patch: FrontmatterPatch
+): Promise<FrontmatterPatch> {
+	const raw = await app.vault.read(file);
+	const { front, body } = splitFrontmatter(raw);
+
+	const previous: FrontmatterPatch = {};
+	for (const [key, value] of Object.entries(patch)) {
+		previous[key] = front[key];
+		if (value === undefined) delete front[key];
+		else front[key] = value;
+	}
+
+	const fm = stringifyYaml(front).trim();
+	await app.vault.modify(file, `---\n${fm}\n---\n` + body);
+	return previous;
+}
+
+/**
+ * Re-reads the note and redraws the chart after a write.
+ */
+async function afterTaskWrite(notePath: string, ctx?: RenderContext): Promise<void> {
+	if (ctx?.reindexFile) {
+		try {
+			await ctx.reindexFile(notePath);
+		} catch {
+			// ignore
+		}
+	}
+	if (ctx?.refresh) {
+		try {
+			ctx.refresh();
+		} catch {
+			// ignore
+		}
+	}
+}
+
 
 class GanttEditModal extends Modal {
 	private notePath: string;
@@ -71,20 +208,7 @@ class GanttEditModal extends Modal {
 		// Show the note name associated with the Gantt item in the title
 		this.titleEl.setText(`Edit task – ${file.basename}`);
 
-		const raw = await this.app.vault.read(file);
-
-		// Frontmatter + body
-		let front: Record<string, any> = {};
-		let body = raw;
-		const fmMatch = raw.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
-		if (fmMatch) {
-			try {
-				front = (parseYaml(fmMatch[1]) ?? {}) as Record<string, any>;
-			} catch {
-				front = {};
-			}
-			body = fmMatch[2] ?? "";
-		}
+		const { front } = splitFrontmatter(await this.app.vault.read(file));
 
 		const form = contentEl.createDiv({ cls: "gantt-edit-form" });
 
@@ -230,37 +354,31 @@ class GanttEditModal extends Modal {
 
 		saveBtn.addEventListener("click", async () => {
 			// Update frontmatter based on inputs
+			const patch: FrontmatterPatch = {};
+
 			if (this.startKey && startInput) {
-				const v = fromDateTimeInput(startInput.value);
-				if (v) front[this.startKey] = v;
-				else delete front[this.startKey];
+				patch[this.startKey] = fromDateTimeInput(startInput.value);
 			}
 
 			if (this.endKey && endInput) {
-				const v = fromDateTimeInput(endInput.value);
-				if (v) front[this.endKey] = v;
-				else delete front[this.endKey];
+				patch[this.endKey] = fromDateTimeInput(endInput.value);
 			}
 
 			if (this.durationKey && durInput) {
 				const rawVal = durInput.value.trim();
 				if (rawVal === "") {
-					delete front[this.durationKey];
+					patch[this.durationKey] = undefined;
 				} else {
 					const n = Number(rawVal);
-					if (!Number.isNaN(n)) front[this.durationKey] = n;
+					if (!Number.isNaN(n)) patch[this.durationKey] = n;
 				}
 			}
 
 			if (this.dueKey && dueInput) {
-				const v = fromDateTimeInput(dueInput.value);
-				if (v) front[this.dueKey] = v;
-				else delete front[this.dueKey];
+				patch[this.dueKey] = fromDateTimeInput(dueInput.value);
 			}
 
-			const fm = stringifyYaml(front).trim();
-			const newContent = `---\n${fm}\n---\n` + body;
-			await this.app.vault.modify(file, newContent);
+			await updateTaskFrontmatter(file, patch);
 
 			if (this.reindexFile) {
 				try {
@@ -298,6 +416,8 @@ export function renderGantt(
 	const background: string | undefined = opts.background;
 	const drilldown: boolean = opts.drilldown ?? true;
 	const editable: boolean = true;
+	const showCriticalPath: boolean = opts.criticalPath === true;
+	const showLoad = opts.loadPanel === true;
 
 	const normalizeFullName = (raw: any): string => {
 		if (raw == null) return "";
@@ -317,7 +437,7 @@ export function renderGantt(
 	// Limpa restos de renderizações anteriores
 	Array.from(
 		container.querySelectorAll(
-			".gantt-zoom-controls, .gantt-label-floating-btn, .chart-notes-scroll, .chart-notes-details, .chart-notes-tooltip, .prop-charts-empty"
+			".gantt-zoom-controls, .gantt-label-floating-btn, .chart-notes-scroll, .chart-notes-details, .chart-notes-tooltip, .prop-charts-empty, .gantt-dependency-warning, .gantt-baseline-summary, .gantt-drag-hint"
 		)
 	).forEach((el) => el.remove());
 
@@ -385,6 +505,14 @@ export function renderGantt(
 
 		const due = (r as any).due as Date | undefined;
 
+		const interval: TaskInterval | null =
+			start instanceof Date && end instanceof Date
+				? { start: start.getTime(), end: end.getTime() }
+				: null;
+		const baseline = interval
+			? resolveBaseline(interval, r.baselineStart, r.baselineEnd)
+			: null;
+
 		let estMinutes: number | undefined;
 		const estRaw = getPropValue(props, durationField);
 		if (estRaw != null) {
@@ -396,6 +524,9 @@ export function renderGantt(
 			row: r,
 			start,
 			end,
+			progress: r.progress,
+			// Tasks without length are milestones too
+			milestone: r.milestone === true || start?.getTime() === end?.getTime(),
 			props,
 			fullName,
 			groupKey,
@@ -403,6 +534,8 @@ export function renderGantt(
 			noteTitle,
 			due,
 			estMinutes,
+			baseline,
+			slip: interval && baseline ? baselineSlip(interval, baseline) : null,
 		};
 	});
 
@@ -430,6 +563,24 @@ export function renderGantt(
 		return a.fullName.localeCompare(b.fullName);
 	});
 
+	// Finish-to-start dependencies between the tasks in the chart
+	const depTasks = validTasks.map((t) => ({
+		path: t.notePath,
+		label: t.fullName,
+		start: t.start.getTime(),
+		end: t.end.getTime(),
+		dependsOn: t.row.dependsOn ?? [],
+	}));
+	const hasDependencies = depTasks.some((t) => t.dependsOn.length > 0);
+	const depGraph = hasDependencies
+		? resolveDependencies(depTasks)
+		: { edges: [] as DependencyEdge[], unresolved: [] };
+	const critical = showCriticalPath
+		? findCriticalPath(depTasks, depGraph.edges)
+		: null;
+	const criticalTasks = new Set(critical?.tasks ?? []);
+	const criticalEdges = new Set(critical?.edges ?? []);
+
 	const rowH = 26;
 	let totalRows = 0;
 	let lastGroup: string | null = null;
@@ -445,6 +596,10 @@ export function renderGantt(
 		totalRows += 1; // task row
 	}
 
+	// Load histogram: one row per lane under the tasks
+	const loadLaneCount = showLoad ? new Set(validTasks.map((t) => t.groupKey)).size : 0;
+	const loadPanelH = loadLaneCount ? LOAD_PANEL_GAP + loadLaneCount * LOAD_ROW_H : 0;
+
 	const minStart = Math.min(...validTasks.map((t) => t.start.getTime()));
 	const maxEnd = Math.max(...validTasks.map((t) => t.end.getTime()));
 	if (!isFinite(minStart) || !isFinite(maxEnd)) {
@@ -465,6 +620,11 @@ export function renderGantt(
 	const minDay = floorToDay(minStart);
 	const maxDay = floorToDay(maxEnd);
 
+	const rawSpan = maxDay + DAY - minDay || 1;
+	const domainMin = minDay - rawSpan * 0.02;
+	const domainMax = maxDay + DAY + rawSpan * 0.08;
+	const spanDaysVisible = (domainMax - domainMin) / DAY;
+
 	let titleRow = container.querySelector(
 		".prop-charts-title-row"
 	) as HTMLElement | null;
@@ -476,6 +636,10 @@ export function renderGantt(
 		container.dataset.ganttZoomMode || String(opts.zoomMode ?? "100");
 	container.dataset.ganttZoomMode = zoomMode;
 
+	const scaleRaw = container.dataset.ganttScale || String(opts.timeScale ?? "auto");
+	const scaleMode: TimeScaleMode = isTimeScaleMode(scaleRaw) ? scaleRaw : "auto";
+	container.dataset.ganttScale = scaleMode;
+
 	const labelModeNow =
 		container.dataset.ganttLabelMode || String(opts.labelMode ?? "compact");
 	container.dataset.ganttLabelMode = labelModeNow;
@@ -502,6 +666,40 @@ export function renderGantt(
 		});
 	});
 
+	const scaleSelect = zoomBar.createEl("select", { cls: "dropdown gantt-scale-select" });
+	scaleSelect.setAttr("title", "Time scale");
+	for (const [id, label] of Object.entries(SCALE_LABELS)) {
+		scaleSelect.createEl("option", { value: id, text: label });
+	}
+	scaleSelect.value = scaleMode;
+	scaleSelect.addEventListener("change", () => {
+		container.dataset.ganttScale = scaleSelect.value;
+		renderGantt(container, spec, data, ctx);
+	});
+
+	const lastMove = lastMoves.get(container);
+	if (lastMove) {
+		const undoBtn = zoomBar.createEl("button", {
+			cls: "gantt-zoom-btn gantt-undo-btn",
+			text: "↶ Undo",
+		});
+		undoBtn.setAttr("title", `Undo last move (${lastMove.noteTitle})`);
+		undoBtn.addEventListener("click", async (ev: MouseEvent) => {
+			ev.preventDefault();
+			lastMoves.delete(container);
+			const file = app.vault.getAbstractFileByPath(lastMove.notePath);
+			if (!(file instanceof TFile)) {
+				new Notice("File not found: " + lastMove.notePath);
+				renderGantt(container, spec, data, ctx);
+				return;
+			}
+			await updateTaskFrontmatter(file, lastMove.previous);
+			await afterTaskWrite(lastMove.notePath, ctx);
+			if (!ctx?.refresh) renderGantt(container, spec, data, ctx);
+			new Notice(`Move undone – ${lastMove.noteTitle}`);
+		});
+	}
+
 	// (fullscreen removido aqui)
 
 	const baseLabelWidthRaw = Number(opts.labelWidth);
@@ -524,6 +722,13 @@ export function renderGantt(
 		width = baseWidth * factor;
 	}
 
+	// A fixed scale widens the chart until every cell fits its label
+	const fixedScale: TimeScale | null =
+		scaleMode === "auto" ? null : limitScale(scaleMode, spanDaysVisible);
+	if (fixedScale) {
+		width = Math.max(width, labelColWidth + PAD_R + minPlotWidth(fixedScale, spanDaysVisible));
+	}
+
 	const { inner, svg, tooltip, details } = ensureContainer(
 		container,
 		background
@@ -599,47 +804,86 @@ export function renderGantt(
 	const PAD_RIGHT = PAD_R;
 
 	const height = Math.max(
-		DEFAULT_H,
-		PAD_TOP + PAD_BOTTOM + totalRows * rowH + 24
+		getChartHeight(),
+		PAD_TOP + PAD_BOTTOM + HEADER_ROW_H + totalRows * rowH + loadPanelH + 24
 	);
 	svg.setAttribute("height", String(height));
 
 	const plotW = width - labelColWidth - PAD_RIGHT;
-	const axisY = PAD_TOP + 6;
+	const axisY = PAD_TOP + 6 + HEADER_ROW_H;
 
 	svg.style.color = "#111111";
 
-	const rawSpan = maxDay + DAY - minDay || 1;
-	const domainMin = minDay - rawSpan * 0.02;
-	const domainMax = maxDay + DAY + rawSpan * 0.08;
-
 	const xScale = (ts: number) =>
 		labelColWidth + ((ts - domainMin) / (domainMax - domainMin)) * plotW;
+	const clampX = (ts: number) =>
+		Math.min(width - PAD_RIGHT, Math.max(labelColWidth, xScale(ts)));
+
+	// Drag & drop: snap to hours, days or weeks depending on the zoom
+	const pxPerDay = plotW / spanDaysVisible;
+	const msPerPx = (domainMax - domainMin) / plotW;
+	const snapUnit = pickSnapUnit(pxPerDay);
+	const weekStart = getChartDefaults().weekStart;
+	const dateKeys = {
+		start: enc.start as string | undefined,
+		end: enc.end as string | undefined,
+		due: enc.due as string | undefined,
+		duration: enc.duration as string | undefined,
+	};
+	const formatDragDate = (ts: number) =>
+		formatTaskDate(ts, snapUnit === "hour").replace("T", " ");
 
-	const spanDaysVisible = (domainMax - domainMin) / DAY;
+	const persistDrag = async (
+		notePath: string,
+		noteTitle: string,
+		before: TaskInterval,
+		after: TaskInterval
+	) => {
+		const file = app.vault.getAbstractFileByPath(notePath);
+		if (!(file instanceof TFile)) {
+			new Notice("File not found: " + notePath);
+			renderGantt(container, spec, data, ctx);
+			return;
+		}
+		const { front } = splitFrontmatter(await app.vault.read(file));
+		const patch = planDateUpdate(front, dateKeys, before, after, snapUnit);
+		if (!patch) {
+			new Notice("This task only has a due date: it can be moved but not resized.");
+			renderGantt(container, spec, data, ctx);
+			return;
+		}
+		const previous = await updateTaskFrontmatter(file, patch);
+		lastMoves.set(container, { notePath, noteTitle, previous });
+		await afterTaskWrite(notePath, ctx);
+	};
 
-	const idealPixelPerTick = 90;
-	const maxTicks = Math.max(
-		4,
-		Math.min(12, Math.floor(plotW / idealPixelPerTick) || 4)
+	const timeScale = fixedScale ?? limitScale(resolveAutoScale(pxPerDay), spanDaysVisible);
+	const header = buildScaleHeader(
+		domainMin,
+		domainMax,
+		timeScale,
+		weekStart,
+		getChartDefaults().locale
 	);
-	const rawStepDays = spanDaysVisible / maxTicks;
 
-	const candidates = [1, 2, 3, 5, 7, 10, 14, 21, 30, 60, 90, 180, 365];
-	let stepDays = candidates[candidates.length - 1];
-	for (const c of candidates) {
-		if (c >= rawStepDays) {
-			stepDays = c;
-			break;
+	const nonWorking = parseNonWorkingDays(opts.nonWorkingDays);
+
+	// Weekends and holidays, when days are wide enough to tell apart
+	if (pxPerDay >= MIN_SHADED_DAY_PX) {
+		for (const day of nonWorkingIntervals(domainMin, domainMax, nonWorking)) {
+			const x1 = clampX(day.start);
+			const shade = document.createElementNS(svg.namespaceURI, "rect");
+			shade.setAttribute("class", "gantt-nonworking");
+			shade.setAttribute("x", String(x1));
+			shade.setAttribute("y", String(axisY));
+			shade.setAttribute("width", String(Math.max(0, clampX(day.end) - x1)));
+			shade.setAttribute("height", String(height - PAD_BOTTOM - axisY));
+			shade.setAttribute("fill", "#111111");
+			shade.setAttribute("fill-opacity", "0.06");
+			svg.appendChild(shade);
 		}
 	}
 
-	const tickTimes: number[] = [];
-	const firstTick = floorToDay(domainMin);
-	for (let ts = firstTick; ts <= domainMax + 0.5 * DAY; ts += stepDays * DAY) {
-		tickTimes.push(ts);
-	}
-
 	const axisX = document.createElementNS(svg.namespaceURI, "line");
 	axisX.setAttribute("x1", String(labelColWidth));
 	axisX.setAttribute("y1", String(axisY));
@@ -648,27 +892,56 @@ export function renderGantt(
 	axisX.setAttribute("stroke", "#111111");
 	svg.appendChild(axisX);
 
-	for (const ts of tickTimes) {
-		const x = xScale(ts);
-
+	const drawGridLine = (x: number, y1: number, opacity: string, dash: string | null) => {
 		const grid = document.createElementNS(svg.namespaceURI, "line");
 		grid.setAttribute("x1", String(x));
-		grid.setAttribute("y1", String(axisY));
+		grid.setAttribute("y1", String(y1));
 		grid.setAttribute("x2", String(x));
 		grid.setAttribute("y2", String(height - PAD_BOTTOM));
 		grid.setAttribute("stroke", "#111111");
-		grid.setAttribute("stroke-opacity", "0.20");
-		grid.setAttribute("stroke-dasharray", "2,4");
+		grid.setAttribute("stroke-opacity", opacity);
+		if (dash) grid.setAttribute("stroke-dasharray", dash);
 		svg.appendChild(grid);
+	};
 
+	const drawHeaderLabel = (text: string, x: number, y: number, anchor: string, weight: string | null) => {
 		const label = document.createElementNS(svg.namespaceURI, "text");
 		label.setAttribute("x", String(x));
-		label.setAttribute("y", String(axisY - 4));
-		label.setAttribute("text-anchor", "middle");
+		label.setAttribute("y", String(y));
+		label.setAttribute("text-anchor", anchor);
 		label.setAttribute("font-size", "10");
 		label.setAttribute("fill", "#111111");
-		label.textContent = formatDateShort(new Date(ts));
+		if (weight) label.setAttribute("font-weight", weight);
+		label.textContent = text;
 		svg.appendChild(label);
+	};
+
+	// Bottom row: one cell per hour / day / week / month / quarter
+	const majorStarts = new Set(header.major.map((tick) => tick.start));
+	const fullCell = header.minor[1] ?? header.minor[0];
+	const cellPx = fullCell ? xScale(fullCell.end) - xScale(fullCell.start) : plotW;
+	const labelEvery = Math.max(1, Math.ceil(MIN_CELL_PX[timeScale] / Math.max(1, cellPx)));
+
+	header.minor.forEach((tick, idx) => {
+		if (tick.start > domainMin && !majorStarts.has(tick.start)) {
+			drawGridLine(xScale(tick.start), axisY - HEADER_ROW_H, "0.20", "2,4");
+		}
+		const x1 = clampX(tick.start);
+		const x2 = clampX(tick.end);
+		if (idx % labelEvery !== 0 || x2 - x1 < cellPx / 2) return;
+		drawHeaderLabel(tick.label, (x1 + x2) / 2, axisY - 4, "middle", null);
+	});
+
+	// Top row: days, months or years
+	for (const tick of header.major) {
+		if (tick.start > domainMin) {
+			drawGridLine(xScale(tick.start), axisY - 2 * HEADER_ROW_H, "0.40", null);
+		}
+		const x1 = clampX(tick.start);
+		if (clampX(tick.end) - x1 < MIN_MAJOR_LABEL_PX) continue;
+		// Keep clear of the floating ↔ button at the left edge of the plot
+		const labelX = Math.max(x1 + 4, labelColWidth + 12);
+		drawHeaderLabel(tick.label, labelX, axisY - 4 - HEADER_ROW_H, "start", "600");
 	}
 
 	const today = new Date();
@@ -722,10 +995,18 @@ export function renderGantt(
 			? optTooltipFields
 			: defaultExtraFields;
 
+	// Arrows go below the bars
+	const depLayer = document.createElementNS(svg.namespaceURI, "g");
+	depLayer.setAttribute("class", "gantt-dependencies");
+	svg.appendChild(depLayer);
+	const barPositions: { x1: number; x2: number; yTop: number; barH: number }[] = [];
+
 	let rowIndex = 0;
 	let currentGroup: string | null = null;
+	let taskIdx = -1;
 
 	for (const t of validTasks) {
+		taskIdx += 1;
 		const start = t.start;
 		const end = t.end;
 		const durationMin = (end.getTime() - start.getTime()) / 60000;
@@ -757,6 +1038,33 @@ export function renderGantt(
 			}
 		}
 
+		const predecessors = depGraph.edges.filter((e) => e.to === taskIdx);
+		if (predecessors.length) {
+			infoLines.push(
+				`depends on: ${predecessors.map((e) => validTasks[e.from].fullName).join(", ")}`
+			);
+		}
+		for (const e of predecessors) {
+			if (e.violated) {
+				infoLines.push(`⚠ starts before ${validTasks[e.from].fullName} ends`);
+			}
+		}
+		if (criticalTasks.has(taskIdx)) {
+			infoLines.push("critical path");
+		}
+		if (t.progress != null) {
+			infoLines.push(`progress: ${Math.round(t.progress)}%`);
+		}
+		if (t.milestone) {
+			infoLines.push("milestone");
+		}
+		if (t.baseline && t.slip) {
+			infoLines.push(
+				`baseline: ${formatDateShort(new Date(t.baseline.start))} → ${formatDateShort(new Date(t.baseline.end))}`
+			);
+			infoLines.push(`slip: ${formatSlip(t.slip.endDays)}`);
+		}
+
 		const tipValue = infoLines.join("<br>");
 
 		const handleClickTask = (ev: MouseEvent) => {
@@ -810,36 +1118,98 @@ export function renderGantt(
 
 		const yTop = axisY + 8 + rowIndex * rowH;
 		const barH = rowH - 10;
-		const x1 = xScale(start.getTime());
+		const cy = yTop + barH / 2;
+		const fullName = t.fullName;
+		const barColor = colorFor(t.row.series ?? fullName, rowIndex);
+
+		// Milestones are diamonds centred on their date; tasks are bars
+		const barExtent = (next: TaskInterval) => {
+			if (t.milestone) {
+				const xm = xScale(next.start);
+				return { x1: xm - barH / 2, w: barH };
+			}
+			const bx1 = xScale(next.start);
+			return { x1: bx1, w: Math.max(4, xScale(next.end) - bx1) };
+		};
+		const { x1, w } = barExtent({ start: start.getTime(), end: end.getTime() });
 		const x2 = xScale(end.getTime());
-		const w = Math.max(4, x2 - x1);
 
-		const fullName = t.fullName;
+		// Planned dates: a thin ghost bar just under the task
+		if (t.baseline) {
+			const bx1 = xScale(t.baseline.start);
+			const ghost = document.createElementNS(svg.namespaceURI, "rect");
+			ghost.setAttribute("class", "gantt-baseline");
+			ghost.setAttribute("x", String(bx1));
+			ghost.setAttribute("y", String(yTop + barH + 1));
+			ghost.setAttribute("width", String(Math.max(4, xScale(t.baseline.end) - bx1)));
+			ghost.setAttribute("height", String(BASELINE_BAR_H));
+			ghost.setAttribute("rx", "1.5");
+			ghost.setAttribute("fill", t.slip && t.slip.endDays > 0 ? VIOLATION_COLOR : "#888888");
+			ghost.setAttribute("fill-opacity", "0.45");
+			svg.appendChild(ghost);
+		}
 
 		const rect = document.createElementNS(
 			svg.namespaceURI,
-			"rect"
-		) as SVGRectElement;
-		rect.setAttribute("x", String(x1));
-		rect.setAttribute("y", String(yTop));
-		rect.setAttribute("width", String(w));
-		rect.setAttribute("height", String(barH));
-		rect.setAttribute("rx", "3");
-		rect.setAttribute("ry", "3");
-		rect.setAttribute("fill", colorFor(t.row.series ?? fullName, rowIndex));
-		rect.setAttribute("stroke", "rgba(0,0,0,0.25)");
-		rect.setAttribute("stroke-width", "0.5");
-		rect.style.cursor = editable && !!notePath ? "pointer" : "default";
+			t.milestone ? "polygon" : "rect"
+		) as SVGGraphicsElement;
+		if (!t.milestone) {
+			rect.setAttribute("y", String(yTop));
+			rect.setAttribute("height", String(barH));
+			rect.setAttribute("rx", "3");
+			rect.setAttribute("ry", "3");
+		}
+		rect.setAttribute("fill", barColor);
+		// With progress, the remaining part of the bar is lighter
+		if (t.progress != null && !t.milestone) {
+			rect.setAttribute("fill-opacity", "0.45");
+		}
+		if (criticalTasks.has(taskIdx)) {
+			rect.setAttribute("stroke", CRITICAL_COLOR);
+			rect.setAttribute("stroke-width", "2");
+		} else {
+			rect.setAttribute("stroke", "rgba(0,0,0,0.25)");
+			rect.setAttribute("stroke-width", "0.5");
+		}
+		const draggable = editable && !!notePath;
+		rect.style.cursor = draggable ? "grab" : "default";
+
+		// A click right after a drag must not open the edit modal
+		let justDragged = false;
+		const handleClickBar = (ev: MouseEvent) => {
+			if (justDragged) {
+				justDragged = false;
+				ev.preventDefault();
+				return;
+			}
+			handleClickTask(ev);
+		};
 
 		rect.addEventListener("mouseenter", handleEnter);
 		rect.addEventListener("mouseleave", handleLeave);
-		rect.addEventListener("click", handleClickTask);
+		rect.addEventListener("click", handleClickBar);
 
 		svg.appendChild(rect);
+		barPositions[taskIdx] = { x1, x2: x1 + w, yTop, barH };
 
-		const cy = yTop + barH / 2;
-		if (w >= 6) {
-			const strokeColor = colorFor(t.row.series ?? fullName, rowIndex);
+		let progressRect: SVGRectElement | null = null;
+		if (t.progress != null && !t.milestone) {
+			progressRect = document.createElementNS(
+				svg.namespaceURI,
+				"rect"
+			) as SVGRectElement;
+			progressRect.setAttribute("class", "gantt-progress");
+			progressRect.setAttribute("y", String(yTop));
+			progressRect.setAttribute("height", String(barH));
+			progressRect.setAttribute("rx", "3");
+			progressRect.setAttribute("ry", "3");
+			progressRect.setAttribute("fill", barColor);
+			svg.appendChild(progressRect);
+		}
+
+		const markers: SVGCircleElement[] = [];
+		if (w >= 6 && !t.milestone) {
+			const strokeColor = barColor;
 
 			const startMarker = document.createElementNS(
 				svg.namespaceURI,
@@ -864,6 +1234,107 @@ export function renderGantt(
 			endMarker.setAttribute("stroke", strokeColor);
 			endMarker.setAttribute("stroke-width", "1.5");
 			svg.appendChild(endMarker);
+			markers.push(startMarker, endMarker);
+		}
+
+		const placeBar = (next: TaskInterval) => {
+			const { x1: nx1, w: nw } = barExtent(next);
+			if (t.milestone) {
+				const half = barH / 2;
+				const xm = nx1 + half;
+				rect.setAttribute(
+					"points",
+					`${xm},${cy - half} ${xm + half},${cy} ${xm},${cy + half} ${xm - half},${cy}`
+				);
+			} else {
+				rect.setAttribute("x", String(nx1));
+				rect.setAttribute("width", String(nw));
+			}
+			if (progressRect) {
+				progressRect.setAttribute("x", String(nx1));
+				progressRect.setAttribute("width", String((nw * (t.progress ?? 0)) / 100));
+			}
+			markers[0]?.setAttribute("cx", String(nx1));
+			markers[1]?.setAttribute("cx", String(nx1 + nw));
+			return { x1: nx1, w: nw };
+		};
+		placeBar({ start: start.getTime(), end: end.getTime() });
+
+		if (draggable && notePath) {
+			const interval: TaskInterval = { start: start.getTime(), end: end.getTime() };
+
+			const makeHandle = (): SVGRectElement => {
+				const handle = document.createElementNS(
+					svg.namespaceURI,
+					"rect"
+				) as SVGRectElement;
+				handle.setAttribute("y", String(yTop));
+				handle.setAttribute("width", String(RESIZE_HANDLE_PX));
+				handle.setAttribute("height", String(barH));
+				handle.setAttribute("fill", "transparent");
+				handle.setAttribute("class", "gantt-resize-handle");
+				handle.style.cursor = "ew-resize";
+				handle.addEventListener("click", handleClickBar);
+				svg.appendChild(handle);
+				return handle;
+			};
+			// Milestones can be moved but have no length to resize
+			const startHandle = t.milestone ? null : makeHandle();
+			const endHandle = t.milestone ? null : makeHandle();
+
+			const placeDragged = (next: TaskInterval) => {
+				const { x1: nx1, w: nw } = placeBar(next);
+				startHandle?.setAttribute("x", String(nx1 - RESIZE_HANDLE_PX / 2));
+				endHandle?.setAttribute("x", String(nx1 + nw - RESIZE_HANDLE_PX / 2));
+			};
+			placeDragged(interval);
+
+			const beginDrag = (mode: DragMode) => (ev: PointerEvent) => {
+				if (ev.button !== 0) return;
+				ev.preventDefault();
+				// A drag released off the bar gets no click: don't swallow the next one
+				justDragged = false;
+				const originX = ev.clientX;
+				let next = interval;
+				let dragging = false;
+
+				const onMove = (e: PointerEvent) => {
+					const dx = e.clientX - originX;
+					if (!dragging && Math.abs(dx) < DRAG_THRESHOLD_PX) return;
+					if (!dragging) {
+						dragging = true;
+						rect.style.cursor = mode === "move" ? "grabbing" : "ew-resize";
+					}
+					next = applyDrag(interval, dx * msPerPx, mode, snapUnit, weekStart);
+					placeDragged(next);
+					showTooltip(
+						container,
+						tooltip,
+						noteTitle,
+						`${formatDragDate(next.start)} → ${formatDragDate(next.end)}`,
+						noteCount,
+						e
+					);
+				};
+
+				const onUp = () => {
+					window.removeEventListener("pointermove", onMove);
+					window.removeEventListener("pointerup", onUp);
+					if (!dragging) return;
+					justDragged = true;
+					rect.style.cursor = "grab";
+					hideTooltip(tooltip);
+					if (next.start === interval.start && next.end === interval.end) return;
+					void persistDrag(notePath, noteTitle, interval, next);
+				};
+
+				window.addEventListener("pointermove", onMove);
+				window.addEventListener("pointerup", onUp);
+			};
+
+			rect.addEventListener("pointerdown", beginDrag("move"));
+			startHandle?.addEventListener("pointerdown", beginDrag("start"));
+			endHandle?.addEventListener("pointerdown", beginDrag("end"));
 		}
 
 		const labelCenterY = yTop + barH / 2 + 2;
@@ -925,9 +1396,204 @@ export function renderGantt(
 		rowIndex += 1;
 	}
 
+	if (showLoad) {
+		const capacityMinutes = parseCapacity(opts.capacity) ?? DEFAULT_CAPACITY_MINUTES;
+		// A daily capacity can't be split into hours: hour scales use day buckets
+		const buckets =
+			timeScale === "hour"
+				? buildScaleHeader(domainMin, domainMax, "day", weekStart).minor
+				: header.minor;
+		const load = computeLoad(
+			validTasks.map((t) => ({
+				lane: t.groupKey,
+				start: t.start.getTime(),
+				end: t.end.getTime(),
+				effortMinutes: t.estMinutes,
+			})),
+			buckets,
+			nonWorking,
+			capacityMinutes
+		);
+
+		const panelTop = axisY + 8 + rowIndex * rowH + LOAD_PANEL_GAP;
+		const separator = document.createElementNS(svg.namespaceURI, "line");
+		separator.setAttribute("x1", "0");
+		separator.setAttribute("y1", String(panelTop - LOAD_PANEL_GAP / 2));
+		separator.setAttribute("x2", String(width - PAD_RIGHT));
+		separator.setAttribute("y2", String(panelTop - LOAD_PANEL_GAP / 2));
+		separator.setAttribute("stroke", "#111111");
+		separator.setAttribute("stroke-opacity", "0.35");
+		svg.appendChild(separator);
+
+		const panelTitle = document.createElementNS(svg.namespaceURI, "text");
+		panelTitle.setAttribute("x", "4");
+		panelTitle.setAttribute("y", String(panelTop - LOAD_PANEL_GAP / 2 + 12));
+		panelTitle.setAttribute("font-size", "10");
+		panelTitle.setAttribute("fill", "#111111");
+		panelTitle.setAttribute("fill-opacity", "0.7");
+		panelTitle.textContent = `Load (capacity ${formatNumber(capacityMinutes / 60, 1)}h/day)`;
+		svg.appendChild(panelTitle);
+
+		const maxMinutes = Math.max(
+			1,
+			...load.capacity,
+			...load.lanes.flatMap((lane) => lane.minutes)
+		);
+		const maxBarH = LOAD_ROW_H - 6;
+		const hours = (minutes: number) => `${formatNumber(minutes / 60, 1)}h`;
+
+		load.lanes.forEach((lane, laneIdx) => {
+			const laneName = lane.lane === NO_GROUP ? "All tasks" : normalizeFullName(lane.lane);
+			const baseY = panelTop + (laneIdx + 1) * LOAD_ROW_H - 3;
+
+			drawMultilineLabel(laneName, 4, baseY - maxBarH / 2, labelColWidth - 12, 10, null);
+
+			buckets.forEach((bucket, i) => {
+				const bx1 = clampX(bucket.start);
+				const bx2 = clampX(bucket.end);
+				if (bx2 - bx1 <= 0) return;
+				const minutes = lane.minutes[i];
+				const capacity = load.capacity[i];
+
+				if (capacity > 0) {
+					const yCap = baseY - (capacity / maxMinutes) * maxBarH;
+					const capLine = document.createElementNS(svg.namespaceURI, "line");
+					capLine.setAttribute("x1", String(bx1));
+					capLine.setAttribute("y1", String(yCap));
+					capLine.setAttribute("x2", String(bx2));
+					capLine.setAttribute("y2", String(yCap));
+					capLine.setAttribute("stroke", "#111111");
+					capLine.setAttribute("stroke-opacity", "0.35");
+					capLine.setAttribute("stroke-dasharray", "2,2");
+					svg.appendChild(capLine);
+				}
+				if (minutes <= 0) return;
+
+				// Half a minute of slack so rounding doesn't flag a full day
+				const over = minutes > capacity + 0.5;
+				const barHeight = Math.max(1, (minutes / maxMinutes) * maxBarH);
+				const bar = document.createElementNS(svg.namespaceURI, "rect");
+				bar.setAttribute("class", over ? "gantt-load-bar is-over" : "gantt-load-bar");
+				bar.setAttribute("x", String(bx1 + 0.5));
+				bar.setAttribute("y", String(baseY - barHeight));
+				bar.setAttribute("width", String(Math.max(1, bx2 - bx1 - 1)));
+				bar.setAttribute("height", String(barHeight));
+				bar.setAttribute("fill", over ? VIOLATION_COLOR : LOAD_COLOR);
+
+				const lastDay = formatTaskDate(bucket.end - 1, false);
+				const firstDay = formatTaskDate(bucket.start, false);
+				const period = firstDay === lastDay ? firstDay : `${firstDay} → ${lastDay}`;
+				const percent = capacity > 0 ? ` (${Math.round((minutes / capacity) * 100)}%)` : "";
+				const tip =
+					`${period}<br>${hours(minutes)} / ${hours(capacity)}${percent}` +
+					(over ? "<br>⚠ over capacity" : "");
+				bar.addEventListener("mouseenter", (ev: MouseEvent) =>
+					showTooltip(container, tooltip, laneName, tip, lane.tasks[i], ev)
+				);
+				bar.addEventListener("mouseleave", () => hideTooltip(tooltip));
+				svg.appendChild(bar);
+			});
+
+			const axis = document.createElementNS(svg.namespaceURI, "line");
+			axis.setAttribute("x1", String(labelColWidth));
+			axis.setAttribute("y1", String(baseY));
+			axis.setAttribute("x2", String(width - PAD_RIGHT));
+			axis.setAttribute("y2", String(baseY));
+			axis.setAttribute("stroke", "#111111");
+			axis.setAttribute("stroke-opacity", "0.35");
+			svg.appendChild(axis);
+		});
+	}
+
+	depGraph.edges.forEach((edge, idx) => {
+		const from = barPositions[edge.from];
+		const to = barPositions[edge.to];
+		if (!from || !to) return;
+		drawDependencyArrow(depLayer, from, to, edge.violated, criticalEdges.has(idx));
+	});
+
+	const violations = depGraph.edges.filter((e) => e.violated);
+	if (violations.length) {
+		const warning = container.createDiv({ cls: "gantt-dependency-warning" });
+		const list = violations
+			.map((e) => `${validTasks[e.to].fullName} (before ${validTasks[e.from].fullName} ends)`)
+			.join("; ");
+		warning.textContent =
+			`⚠ ${violations.length} task${violations.length === 1 ? "" : "s"} start before a predecessor ends: ${list}`;
+	}
+
+	const baselineSummary = summarizeBaseline(validTasks.map((t) => t.slip));
+	if (baselineSummary.planned) {
+		const summary = container.createDiv({ cls: "gantt-baseline-summary" });
+		const { planned, late, early, maxSlipDays } = baselineSummary;
+		const parts = [`${late} of ${planned} task${planned === 1 ? "" : "s"} late`];
+		if (late) parts.push(`worst slip ${formatSlip(maxSlipDays)}`);
+		if (early) parts.push(`${early} ahead of plan`);
+		summary.textContent = `${late ? "⚠" : "✓"} Baseline: ${parts.join(", ")}`;
+		if (late) summary.addClass("is-late");
+	}
+
 	if (editable) {
-		const hint = container.createDiv({ cls: "prop-charts-empty" });
+		const hint = container.createDiv({ cls: "gantt-drag-hint" });
 		hint.textContent =
-			"Click on a bar or name to adjust dates and task estimate.";
+			"Drag a bar to reschedule it or its ends to resize it. Click on a bar or name to edit dates and task estimate.";
+	}
+}
+
+/** "+2.5 days", "−1 day", "on plan" */
+function formatSlip(days: number): string {
+	if (days === 0) return "on plan";
+	const abs = Math.abs(days);
+	const sign = days > 0 ? "+" : "−";
+	return `${sign}${formatNumber(abs, 1)} day${abs === 1 ? "" : "s"}`;
+}
+
+/**
+ * Draws a finish-to-start arrow from the end of one bar to the start of
+ * another. When the dependent task starts too early, the arrow loops back
+ * between the rows and is drawn in red.
+ */
+function drawDependencyArrow(
+	layer: Element,
+	from: { x1: number; x2: number; yTop: number; barH: number },
+	to: { x1: number; x2: number; yTop: number; barH: number },
+	violated: boolean,
+	critical: boolean
+): void {
+	const ns = layer.namespaceURI;
+	const fromY = from.yTop + from.barH / 2;
+	const toY = to.yTop + to.barH / 2;
+	const gap = 8;
+
+	let d: string;
+	if (to.x1 >= from.x2 + gap * 2) {
+		const midX = from.x2 + gap;
+		d = `M ${from.x2} ${fromY} H ${midX} V ${toY} H ${to.x1}`;
+	} else {
+		// Not enough room: go around, through the space between the rows
+		const betweenY = to.yTop > from.yTop ? to.yTop - 3 : to.yTop + to.barH + 3;
+		d =
+			`M ${from.x2} ${fromY} H ${from.x2 + gap} V ${betweenY} ` +
+			`H ${to.x1 - gap} V ${toY} H ${to.x1}`;
 	}
+
+	const color = violated ? VIOLATION_COLOR : critical ? CRITICAL_COLOR : DEPENDENCY_COLOR;
+
+	const path = document.createElementNS(ns, "path");
+	path.setAttribute("d", d);
+	path.setAttribute("fill", "none");
+	path.setAttribute("stroke", color);
+	path.setAttribute("stroke-width", critical ? "2" : "1.2");
+	path.setAttribute("stroke-opacity", "0.85");
+	if (violated) path.setAttribute("stroke-dasharray", "4,2");
+	path.setAttribute("class", "gantt-dependency-arrow");
+	layer.appendChild(path);
+
+	const head = document.createElementNS(ns, "polygon");
+	head.setAttribute(
+		"points",
+		`${to.x1},${toY} ${to.x1 - 5},${toY - 3} ${to.x1 - 5},${toY + 3}`
+	);
+	head.setAttribute("fill", color);
+	layer.appendChild(head);
 }
@@ -5,6 +5,9 @@
  * - Date-aware X-axis with proportional time spacing
  * - Multiple series with different colors
  * - Cumulative sum aggregation
+ * - Faint raw series behind smoothed (rolling / EMA) values
+ * - Reference lines, value bands and date annotations
+ * - Dashed overlay of the previous period with the change in tooltips
  * - Interactive tooltips and drilldown
  */
 
@@ -15,9 +18,21 @@ import {
 	showTooltip,
 	hideTooltip,
 	openDetails,
-	DEFAULT_H,
+	getChartHeight,
 	formatDateShort,
 } from "./renderer-common";
+import {
+	categoryPosition,
+	extendValueDomain,
+	resolveAnnotations,
+} from "../chart-annotations";
+import {
+	drawDateAnnotations,
+	drawReferenceLines,
+	drawValueBands,
+	type PlotArea,
+} from "./annotations";
+import { COMPARE_LABELS, isComparePeriod, periodChange } from "../period-compare";
 
 // ============================================================================
 // Types
@@ -28,6 +43,8 @@ interface ChartRow {
 	y: number;
 	series?: any;
 	notes?: string[];
+	rawY?: number; // value before smoothing
+	previousY?: number; // same series one period earlier
 }
 
 interface StackedPoint {
@@ -62,6 +79,9 @@ const LARGE_NUMBER_THRESHOLD = 100;
 
 const EMPTY_DATA_MESSAGE = "No data available.";
 
+const RAW_SERIES_OPACITY = "0.35";
+const COMPARE_SERIES_OPACITY = "0.6";
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -137,6 +157,8 @@ function detectDateAxis(rows: ChartRow[]): boolean {
 interface XScaleConfig {
 	xScale: (x: any) => number;
 	xLabelOf: (x: any) => string;
+	/** Position of a date annotation; null when the axis can't place it */
+	xOfDate: (date: Date) => number | null;
 }
 
 /**
@@ -185,7 +207,7 @@ function createDateXScale(
 		return date ? formatDateShort(date) : String(x);
 	};
 
-	return { xScale, xLabelOf };
+	return { xScale, xLabelOf, xOfDate: xScale };
 }
 
 /**
@@ -194,7 +216,8 @@ function createDateXScale(
 function createCategoricalXScale(
 	rows: ChartRow[],
 	plotWidth: number,
-	paddingLeft: number
+	paddingLeft: number,
+	yearKeys: boolean
 ): XScaleConfig {
 	const xValues: any[] = [];
 	const seenX = new Set<string>();
@@ -219,7 +242,16 @@ function createCategoricalXScale(
 
 	const xLabelOf = (x: any): string => String(x);
 
-	return { xScale, xLabelOf };
+	// Date buckets as categories: place the date inside its bucket
+	const xOfDate = (date: Date): number | null => {
+		const pos = categoryPosition(xValues, date, yearKeys);
+		if (pos == null) return null;
+		if (categoryCount === 1) return paddingLeft + plotWidth / 2;
+		const index = Math.min(Math.max(pos - 0.5, 0), categoryCount - 1);
+		return paddingLeft + (index / (categoryCount - 1)) * plotWidth;
+	};
+
+	return { xScale, xLabelOf, xOfDate };
 }
 
 /**
@@ -455,6 +487,100 @@ function sortRowsByX(rows: ChartRow[], isDateAxis: boolean): ChartRow[] {
 	return sorted;
 }
 
+/**
+ * Tooltip body with the value and, for smoothed series, the raw value.
+ * In comparison mode, adds the previous period's value and the change.
+ */
+function formatValueBody(
+	value: number,
+	rawY?: number,
+	previousY?: number,
+	compareLabel?: string
+): string {
+	const round = (n: number) => Math.round(n * 100) / 100;
+	let body = `value: ${round(value)}`;
+	if (typeof rawY === "number" && rawY !== value) body += ` (raw: ${round(rawY)})`;
+	if (compareLabel && typeof previousY === "number") {
+		const { delta, percent } = periodChange(value, previousY);
+		const sign = (n: number) => (n > 0 ? "+" : "");
+		const pct = percent == null ? "" : ` (${sign(percent)}${Math.round(percent * 10) / 10}%)`;
+		body += `<br>${compareLabel}: ${round(previousY)}, ${sign(delta)}${round(delta)}${pct}`;
+	}
+	return body;
+}
+
+/**
+ * Dashed path through the previous period's values, at the current X
+ * positions. Points without a previous value break the line.
+ */
+function renderComparePath(
+	svg: SVGSVGElement,
+	rows: ChartRow[],
+	xScale: (x: any) => number,
+	yScale: (y: number) => number,
+	color: string
+): void {
+	let pathData = "";
+	let drawing = false;
+	for (const row of rows) {
+		if (typeof row.previousY !== "number") {
+			drawing = false;
+			continue;
+		}
+		const x = xScale(row.x);
+		const y = yScale(row.previousY);
+		pathData += `${drawing ? " L" : " M"} ${x} ${y}`;
+		drawing = true;
+	}
+	if (!pathData) return;
+
+	const path = document.createElementNS(
+		svg.namespaceURI,
+		"path"
+	) as SVGPathElement;
+	path.setAttribute("d", pathData.trim());
+	path.setAttribute("fill", "none");
+	path.setAttribute("stroke", color);
+	path.setAttribute("stroke-width", "1.5");
+	path.setAttribute("stroke-dasharray", "5,4");
+	path.setAttribute("stroke-opacity", COMPARE_SERIES_OPACITY);
+	path.classList.add("chart-notes-compare-series");
+	svg.appendChild(path);
+}
+
+/**
+ * Legend entry for the dashed previous-period line
+ */
+function renderCompareLegend(container: HTMLElement, label: string): void {
+	const legend =
+		container.querySelector<HTMLElement>(".chart-notes-legend") ??
+		container.createDiv({ cls: "chart-notes-legend" });
+	const item = legend.createDiv({ cls: "chart-notes-legend-item chart-notes-legend-compare" });
+	item.createDiv({ cls: "chart-notes-legend-dash" });
+	item.createSpan({ text: `dashed: ${label}` });
+}
+
+/**
+ * Draws a thin, faint line for the raw (unsmoothed) values
+ */
+function renderRawPath(
+	svg: SVGSVGElement,
+	pathData: string,
+	color: string
+): void {
+	const path = document.createElementNS(
+		svg.namespaceURI,
+		"path"
+	) as SVGPathElement;
+	path.setAttribute("d", pathData);
+	path.setAttribute("fill", "none");
+	path.setAttribute("stroke", color);
+	path.setAttribute("stroke-width", "1");
+	path.setAttribute("stroke-opacity", RAW_SERIES_OPACITY);
+	path.classList.add("chart-notes-raw-series");
+	svg.appendChild(path);
+}
+
 /**
  * Creates SVG path for line or area
  */
@@ -500,7 +626,8 @@ function renderDataPoints(
 	container: HTMLElement,
 	tooltip: HTMLElement,
 	details: HTMLElement,
-	drilldown: boolean
+	drilldown: boolean,
+	compareLabel?: string
 ): void {
 	rows.forEach((row) => {
 		const x = xScale(row.x);
@@ -520,7 +647,7 @@ function renderDataPoints(
 
 		const xLabel = xLabelOf(row.x);
 		const title = seriesName ? `${seriesName} @ ${xLabel}` : xLabel;
-		const body = `value: ${Math.round(row.y * 100) / 100}`;
+		const body = formatValueBody(row.y, row.rawY, row.previousY, compareLabel);
 
 		dot.addEventListener("mouseenter", (ev: MouseEvent) =>
 			showTooltip(
@@ -577,13 +704,17 @@ export function renderLine(
 		return;
 	}
 
+	const showRaw =
+		options.showRawSeries === true &&
+		rows.some((row) => typeof row.rawY === "number");
+
 	const { inner, svg, tooltip, details } = ensureContainer(container, background);
 
 	const viewportWidth = container.getBoundingClientRect().width || 600;
 	const width = Math.max(viewportWidth, 480);
 	inner.style.width = width + "px";
 
-	const height = DEFAULT_H;
+	const height = getChartHeight();
 	svg.setAttribute("height", String(height));
 
 	const plotWidth = width - PADDING_LEFT - PADDING_RIGHT;
@@ -596,9 +727,9 @@ export function renderLine(
 	// Create X-axis scale
 	const xScaleConfig = isDateAxis
 		? createDateXScale(rows, plotWidth, PADDING_LEFT)
-		: createCategoricalXScale(rows, plotWidth, PADDING_LEFT);
+		: createCategoricalXScale(rows, plotWidth, PADDING_LEFT, options.yearBuckets === true);
 
-	const { xScale, xLabelOf } = xScaleConfig;
+	const { xScale, xLabelOf, xOfDate } = xScaleConfig;
 
 	// Render date axis if needed
 	if (isDateAxis) {
@@ -631,13 +762,41 @@ export function renderLine(
 		);
 	}
 
-	// Calculate and render Y-axis
-	const { min: minY, max: maxY } = calculateYScaleRange(rows);
+	// Previous period overlay (line charts only)
+	const compareLabel =
+		!isArea && isComparePeriod(options.comparePeriod) &&
+		rows.some((row) => typeof row.previousY === "number")
+			? COMPARE_LABELS[options.comparePeriod]
+			: undefined;
+
+	// Calculate and render Y-axis (raw and previous values included when drawn)
+	const rawRows = showRaw
+		? rows
+				.filter((row) => typeof row.rawY === "number")
+				.map((row) => ({ ...row, y: row.rawY! }))
+		: [];
+	const previousRows = compareLabel
+		? rows
+				.filter((row) => typeof row.previousY === "number")
+				.map((row) => ({ ...row, y: row.previousY! }))
+		: [];
+	const annotations = resolveAnnotations(options, data.annotations);
+	const dataRange = calculateYScaleRange([...rows, ...rawRows, ...previousRows]);
+	const { min: minY, max: maxY } = extendValueDomain(dataRange.min, dataRange.max, annotations);
 	const yScale = createYScale(minY, maxY, plotHeight, PADDING_TOP);
 	renderYAxis(svg, minY, maxY, yScale, plotWidth, PADDING_LEFT, PADDING_RIGHT);
 
+	const area: PlotArea = {
+		left: PADDING_LEFT,
+		right: PADDING_LEFT + plotWidth,
+		top: PADDING_TOP,
+		bottom: PADDING_TOP + plotHeight,
+	};
+	drawValueBands(svg, annotations, yScale, area);
+
 	// Render legend
 	renderLegend(container, seriesKeys);
+	if (compareLabel) renderCompareLegend(container, compareLabel);
 
 	// Render series
 	seriesKeys.forEach((seriesKey, seriesIndex) => {
@@ -650,6 +809,21 @@ export function renderLine(
 				: colorFor(seriesKey, seriesIndex);
 
 		const orderedRows = sortRowsByX(seriesRows, isDateAxis);
+
+		// Raw series behind the smoothed one
+		if (showRaw) {
+			const rawSeriesRows = orderedRows
+				.filter((row) => typeof row.rawY === "number")
+				.map((row) => ({ ...row, y: row.rawY! }));
+			if (rawSeriesRows.length) {
+				renderRawPath(svg, createPath(rawSeriesRows, xScale, yScale, false, minY), color);
+			}
+		}
+
+		if (compareLabel) {
+			renderComparePath(svg, orderedRows, xScale, yScale, color);
+		}
+
 		const pathData = createPath(orderedRows, xScale, yScale, isArea, minY);
 
 		// Create path element
@@ -677,9 +851,18 @@ export function renderLine(
 			container,
 			tooltip,
 			details,
-			drilldown
+			drilldown,
+			compareLabel
 		);
 	});
+
+	drawReferenceLines(svg, annotations, yScale, area);
+	drawDateAnnotations(svg, annotations.dates, xOfDate, area, {
+		container,
+		tooltip,
+		details,
+		drilldown,
+	});
 }
 
 /**
@@ -716,6 +899,10 @@ export function renderStackedArea(
 		return;
 	}
 
+	const showRaw =
+		options.showRawSeries === true &&
+		rows.some((row) => typeof row.rawY === "number");
+
 	// Create container only if we're actually rendering stacked area
 	const { inner, svg, tooltip, details } = ensureContainer(container, background);
 
@@ -723,7 +910,7 @@ export function renderStackedArea(
 	const width = Math.max(viewportWidth, 480);
 	inner.style.width = width + "px";
 
-	const height = DEFAULT_H;
+	const height = getChartHeight();
 	svg.setAttribute("height", String(height));
 
 	const plotWidth = width - PADDING_LEFT - PADDING_RIGHT;
@@ -746,9 +933,9 @@ export function renderStackedArea(
 	// Create X-axis scale
 	const xScaleConfig = isDateAxis
 		? createDateXScale(rows, plotWidth, PADDING_LEFT)
-		: createCategoricalXScale(rows, plotWidth, PADDING_LEFT);
+		: createCategoricalXScale(rows, plotWidth, PADDING_LEFT, options.yearBuckets === true);
 
-	const { xScale, xLabelOf } = xScaleConfig;
+	const { xScale, xLabelOf, xOfDate } = xScaleConfig;
 
 	// Sort X values if date axis
 	if (isDateAxis) {
@@ -869,6 +1056,24 @@ export function renderStackedArea(
 		});
 	}
 
+	// Raw (unsmoothed) stacked tops, with the same carry-forward as the values
+	const rawTopsByX = new Map<string, Map<string, number>>(); // x -> series -> stacked raw top
+	if (showRaw) {
+		const lastRaw = new Map<string, number>();
+		for (const xVal of xValues) {
+			const xKey = String(xVal);
+			const tops = new Map<string, number>();
+			let accumulator = 0;
+			for (const seriesKey of seriesKeys) {
+				const row = (seriesMap.get(seriesKey) ?? []).find((r) => String(r.x) === xKey);
+				if (row) lastRaw.set(seriesKey, row.rawY ?? row.y ?? 0);
+				accumulator += lastRaw.get(seriesKey) ?? 0;
+				tops.set(seriesKey, accumulator);
+			}
+			rawTopsByX.set(xKey, tops);
+		}
+	}
+
 	// Calculate Y-axis scale based on maximum stacked total
 	let maxY = 0;
 	for (const point of stackedPoints) {
@@ -877,12 +1082,40 @@ export function renderStackedArea(
 			sum += point.seriesValues.get(seriesKey) ?? 0;
 		}
 		if (sum > maxY) maxY = sum;
+		const rawTops = rawTopsByX.get(String(point.x));
+		const rawTotal = rawTops?.get(seriesKeys[seriesKeys.length - 1]) ?? 0;
+		if (rawTotal > maxY) maxY = rawTotal;
 	}
 	if (!isFinite(maxY) || maxY <= 0) maxY = 1;
 
+	const annotations = resolveAnnotations(options, data.annotations);
+	maxY = extendValueDomain(0, maxY, annotations).max;
+
 	const yScale = createYScale(0, maxY, plotHeight, PADDING_TOP);
 	renderYAxis(svg, 0, maxY, yScale, plotWidth, PADDING_LEFT, PADDING_RIGHT);
 
+	const area: PlotArea = {
+		left: PADDING_LEFT,
+		right: PADDING_LEFT + plotWidth,
+		top: PADDING_TOP,
+		bottom: PADDING_TOP + plotHeight,
+	};
+	drawValueBands(svg, annotations, yScale, area);
+
+	// Raw series behind the smoothed areas
+	if (showRaw) {
+		seriesKeys.forEach((seriesKey, seriesIndex) => {
+			const rawPath = stackedPoints
+				.map((point, index) => {
+					const x = xScale(point.x);
+					const y = yScale(rawTopsByX.get(String(point.x))?.get(seriesKey) ?? 0);
+					return index === 0 ? `M ${x} ${y}` : `L ${x} ${y}`;
+				})
+				.join(" ");
+			renderRawPath(svg, rawPath, colorFor(seriesKey, seriesIndex));
+		});
+	}
+
 	// Render legend
 	if (seriesKeys.length > 0) {
 		renderLegend(container, seriesKeys, false);
@@ -961,11 +1194,11 @@ export function renderStackedArea(
 
 			const xLabel = xLabelOf(point.x);
 			const title = `${seriesKey} @ ${xLabel}`;
-			const body = `value: ${Math.round(value * 100) / 100}`;
 
 			// Find original row for notes
 			const seriesRows = seriesMap.get(seriesKey) ?? [];
 			const row = seriesRows.find((r) => String(r.x) === String(point.x));
+			const body = formatValueBody(value, row?.rawY);
 
 			dot.addEventListener("mouseenter", (ev: MouseEvent) =>
 				showTooltip(
@@ -993,4 +1226,12 @@ export function renderStackedArea(
 			svg.appendChild(dot);
 		});
 	});
+
+	drawReferenceLines(svg, annotations, yScale, area);
+	drawDateAnnotations(svg, annotations.dates, xOfDate, area, {
+		container,
+		tooltip,
+		details,
+		drilldown,
+	});
 }
@@ -1,9 +1,14 @@
 // src/renderer/metric.ts
 import type { ChartSpec, QueryResult, QueryResultRow } from "../types";
-import { openDetails } from "./renderer-common";
+import { getChartDefaults, openDetails } from "./renderer-common";
+import { trendTone, type MetricTrend, type TrendDirection } from "../metric-trend";
+import { matchMetricRule, parseMetricRules, type MetricRule } from "../metric-rules";
 
 declare const app: any;
 
+const SPARKLINE_W = 120;
+const SPARKLINE_H = 28;
+
 /**
  * Gets color value based on color name
  */
@@ -24,7 +29,33 @@ function getColorValue(colorName: string): string {
 		case "purple":
 			return "#b47cff";
 		default:
-			return "var(--text-accent, #5b6cff)";
+			// CSS colors from rules (#hex, rgb(), var(), gold) are used as written
+			return /^(#|rgba?\(|hsla?\(|var\(|[a-z]+$)/i.test(colorName)
+				? colorName
+				: "var(--text-accent, #5b6cff)";
+	}
+}
+
+/**
+ * Card background for a color name: a light tint of the color, so the
+ * number stays readable. CSS colors are used as written.
+ */
+function getBackgroundValue(colorName: string): string {
+	switch (colorName) {
+		case "green":
+			return "rgba(94, 194, 127, 0.15)";
+		case "red":
+			return "rgba(255, 107, 107, 0.15)";
+		case "blue":
+		case "auto":
+		case "accent":
+			return "rgba(91, 108, 255, 0.15)";
+		case "orange":
+			return "rgba(255, 179, 71, 0.18)";
+		case "purple":
+			return "rgba(180, 124, 255, 0.15)";
+		default:
+			return colorName;
 	}
 }
 
@@ -37,9 +68,15 @@ function formatNumber(
 	prefix: string = "",
 	suffix: string = ""
 ): string {
-	const formatted = decimals === 0
-		? Math.round(value).toString()
-		: value.toFixed(decimals);
+	const locale = getChartDefaults().locale;
+	const formatted = locale
+		? value.toLocaleString(locale, {
+			minimumFractionDigits: decimals,
+			maximumFractionDigits: decimals,
+		})
+		: decimals === 0
+			? Math.round(value).toString()
+			: value.toFixed(decimals);
 	return `${prefix}${formatted}${suffix}`;
 }
 
@@ -53,6 +90,104 @@ function formatDate(value: Date): string {
 	return `${year}-${month}-${day}`;
 }
 
+/**
+ * "7 days", "1 day"
+ */
+function formatWindow(days: number): string {
+	return `${days} day${days === 1 ? "" : "s"}`;
+}
+
+/**
+ * Change line under the value: arrow, delta and percent, colored by
+ * whether going up is good or bad.
+ */
+function renderTrendChange(
+	parent: HTMLElement,
+	trend: MetricTrend,
+	direction: TrendDirection,
+	decimals: number,
+	prefix: string,
+	suffix: string
+): void {
+	const tone = trendTone(trend.change, direction);
+	const el = parent.createDiv({ cls: `prop-charts-metric-trend is-${tone}` });
+	const change = trend.change;
+
+	if (!change) {
+		el.textContent = "No previous value";
+	} else {
+		const arrow = change.delta > 0 ? "▲" : change.delta < 0 ? "▼" : "▬";
+		const sign = change.delta > 0 ? "+" : change.delta < 0 ? "-" : "";
+		let text = `${arrow} ${sign}${formatNumber(Math.abs(change.delta), decimals, prefix, suffix)}`;
+		if (change.percent != null) {
+			text += ` (${sign}${Math.abs(change.percent).toFixed(0)}%)`;
+		}
+		el.textContent = text;
+	}
+
+	el.createSpan({
+		cls: "prop-charts-metric-trend-period",
+		text: ` vs previous ${formatWindow(trend.days)}`,
+	});
+}
+
+/**
+ * Tiny line of the metric per window, oldest first. Windows without a value
+ * break the line; the current window gets a dot.
+ */
+function renderSparkline(parent: HTMLElement, values: (number | null)[], color: string): void {
+	const defined = values.filter((v): v is number => v != null);
+	if (defined.length < 2) return;
+
+	const min = Math.min(...defined);
+	const max = Math.max(...defined);
+	const pad = 3;
+	const xOf = (i: number) => pad + (i * (SPARKLINE_W - 2 * pad)) / (values.length - 1);
+	const yOf = (v: number) =>
+		max === min
+			? SPARKLINE_H / 2
+			: SPARKLINE_H - pad - ((v - min) / (max - min)) * (SPARKLINE_H - 2 * pad);
+
+	const svgNS = "http://www.w3.org/2000/svg";
+	const svg = document.createElementNS(svgNS, "svg");
+	svg.setAttribute("width", String(SPARKLINE_W));
+	svg.setAttribute("height", String(SPARKLINE_H));
+	svg.setAttribute("viewBox", `0 0 ${SPARKLINE_W} ${SPARKLINE_H}`);
+	svg.classList.add("prop-charts-metric-sparkline");
+
+	let segment: string[] = [];
+	const flush = () => {
+		if (segment.length > 1) {
+			const line = document.createElementNS(svgNS, "polyline");
+			line.setAttribute("points", segment.join(" "));
+			line.setAttribute("fill", "none");
+			// style, not attribute: the color may be a CSS variable
+			line.style.stroke = color;
+			line.setAttribute("stroke-width", "1.5");
+			line.setAttribute("stroke-linejoin", "round");
+			svg.appendChild(line);
+		}
+		segment = [];
+	};
+	values.forEach((v, i) => {
+		if (v == null) flush();
+		else segment.push(`${xOf(i)},${yOf(v)}`);
+	});
+	flush();
+
+	const last = values[values.length - 1];
+	if (last != null) {
+		const dot = document.createElementNS(svgNS, "circle");
+		dot.setAttribute("cx", String(xOf(values.length - 1)));
+		dot.setAttribute("cy", String(yOf(last)));
+		dot.setAttribute("r", "2.5");
+		dot.style.fill = color;
+		svg.appendChild(dot);
+	}
+
+	parent.appendChild(svg);
+}
+
 /**
  * Gets operation display name
  */
@@ -68,6 +203,7 @@ function getOperationName(operation: string): string {
 		oldest: "Oldest date",
 		newest: "Newest date",
 		dateRange: "Date range (newest - oldest)",
+		formula: "Formula",
 		// UI operation names (for display)
 		countAll: "Count all notes",
 		countNonEmpty: "Count notes where property is set",
@@ -81,21 +217,11 @@ export function renderMetric(
 	data: QueryResult
 ): void {
 	const options = spec.options ?? {};
-	const background: string | undefined = options.background;
 
 	container.empty();
 	container.addClass("prop-charts-container");
 	container.addClass("prop-charts-metric");
 
-	// Get configuration from spec options
-	const label = (options.metricLabel as string | undefined) ?? "";
-	const labelPosition = (options.metricLabelPosition as string | undefined) ?? "above";
-	const decimals = Number(options.metricDecimals ?? 0);
-	const prefix = (options.metricPrefix as string | undefined) ?? "";
-	const suffix = (options.metricSuffix as string | undefined) ?? "";
-	const colorName = (options.metricColor as string | undefined) ?? "auto";
-	const color = getColorValue(colorName);
-
 	// Get data row
 	const row = data.rows[0] as QueryResultRow | undefined;
 	if (!row) {
@@ -106,18 +232,71 @@ export function renderMetric(
 		return;
 	}
 
+	// KPI grid: one card per row, each with its own drilldown
+	if (options.metricMode === "grid") {
+		container.addClass("is-grid");
+		const grid = container.createDiv({ cls: "prop-charts-metric-grid" });
+		for (const cardRow of data.rows) {
+			renderMetricCard(grid, container, cardRow, options);
+		}
+		return;
+	}
+
+	renderMetricCard(container, container, row, options);
+}
+
+/**
+ * Renders one metric card into `parent`; the notes list opens in `container`.
+ */
+function renderMetricCard(
+	parent: HTMLElement,
+	container: HTMLElement,
+	row: QueryResultRow,
+	options: NonNullable<ChartSpec["options"]>
+): void {
+	const background: string | undefined = options.background;
+
+	// Get configuration from spec options (grid cards have their own label)
+	const label =
+		(row.props?._metricLabel as string | undefined) ?? (options.metricLabel as string | undefined) ?? "";
+	const labelPosition = (options.metricLabelPosition as string | undefined) ?? "above";
+	const decimals = Number(options.metricDecimals ?? 0);
+	const prefix = (options.metricPrefix as string | undefined) ?? "";
+	const suffix = (options.metricSuffix as string | undefined) ?? "";
+	const colorName = (options.metricColor as string | undefined) ?? "auto";
+	let color = getColorValue(colorName);
+
 	// Get metric metadata
 	const metricValue = row.props?._metricValue;
 	const metricError = row.props?._metricError as string | null | undefined;
 	const metricDataType = row.props?._metricDataType as string | undefined;
 	const metricOperation = row.props?._metricOperation as string | undefined;
+	const metricTrend = row.props?._metricTrend as MetricTrend | undefined;
+	// Grid cards carry their own rules and trend direction
+	const trendDirection =
+		(row.props?._metricTrendDirection as TrendDirection | undefined) ??
+		(options.metricTrendDirection as TrendDirection | undefined) ??
+		"up-good";
 	const notes = row.notes ?? [];
 	const notesCount = notes.length;
 
+	// First matching rule overrides the color, background and icon
+	// Counts and formulas are meaningful without notes (0, 0 / 4)
+	const isCount = metricOperation === "countAll" || metricOperation === "countNonEmpty";
+	const isFormula = metricOperation === "formula";
+	const ruleValue =
+		metricError || typeof metricValue !== "number" || (notesCount === 0 && !isCount && !isFormula)
+			? null
+			: metricValue;
+	const rules = (row.props?._metricRules as MetricRule[] | undefined) ?? parseMetricRules(options.metricRules);
+	const rule = matchMetricRule(rules, ruleValue);
+	if (rule?.color) color = getColorValue(rule.color);
+
 	// Create card container
-	const card = container.createDiv({ cls: "prop-charts-metric-card" });
-	if (background) {
-		card.style.backgroundColor = background;
+	const card = parent.createDiv({ cls: "prop-charts-metric-card" });
+	const cardBackground = rule?.background ? getBackgroundValue(rule.background) : background;
+	if (cardBackground) {
+		card.style.backgroundColor = cardBackground;
 	}
 
 	// Determine display value
@@ -130,10 +309,16 @@ export function renderMetric(
 		displayValue = "–";
 		subtext = metricError;
 		hasError = true;
-	} else if (notesCount === 0) {
+	} else if (isFormula && metricValue == null) {
+		// Division by zero or an aggregate without values
+		displayValue = "–";
+		subtext = "No value (division by zero or nothing to aggregate)";
+	} else if (notesCount === 0 && !isFormula) {
 		// No notes found
 		displayValue = "–";
-		subtext = "No notes found";
+		subtext = metricTrend
+			? `No notes in the last ${formatWindow(metricTrend.days)}`
+			: "No notes found";
 	} else if (metricValue == null) {
 		// No valid values
 		displayValue = "0";
@@ -165,6 +350,9 @@ export function renderMetric(
 		} else {
 			subtext = `${notesCount} note${notesCount === 1 ? "" : "s"}`;
 		}
+		if (metricTrend) {
+			subtext += ` • last ${formatWindow(metricTrend.days)}`;
+		}
 	}
 
 	// Create content structure
@@ -181,10 +369,19 @@ export function renderMetric(
 
 	// Main value
 	const valueEl = content.createDiv({ cls: "prop-charts-metric-value" });
-	valueEl.textContent = displayValue;
+	if (rule?.icon) {
+		valueEl.createSpan({ cls: "prop-charts-metric-icon", text: rule.icon });
+	}
+	valueEl.appendText(displayValue);
 	valueEl.style.color = hasError ? "var(--text-error, #ff6b6b)" : color;
 	valueEl.style.cursor = notesCount > 0 && !hasError ? "pointer" : "default";
 
+	// Trend: change vs the previous window and sparkline
+	if (metricTrend && !hasError) {
+		renderTrendChange(content, metricTrend, trendDirection, decimals, prefix, suffix);
+		renderSparkline(content, metricTrend.sparkline, color);
+	}
+
 	// Subtext
 	if (subtext) {
 		const subtextEl = content.createDiv({ cls: "prop-charts-metric-subtext" });
@@ -211,6 +408,11 @@ export function renderMetric(
 		tooltipParts.push(`Operation: ${getOperationName(metricOperation)}`);
 	}
 	tooltipParts.push(`Notes: ${notesCount}`);
+	if (metricTrend) {
+		tooltipParts.push(
+			`Trend: last ${formatWindow(metricTrend.days)} vs previous ${formatWindow(metricTrend.days)}`
+		);
+	}
 	const tooltipText = tooltipParts.join("\n");
 
 	infoIcon.addEventListener("mouseenter", (ev: MouseEvent) => {
@@ -9,7 +9,7 @@ import {
 	isLightColor,
 	PAD_B,
 	PAD_T,
-	DEFAULT_H,
+	getChartHeight,
 } from "./renderer-common";
 
 export function renderPie(
@@ -35,7 +35,7 @@ export function renderPie(
 	inner.style.width = width + "px";
 	if (textColor) svg.style.color = textColor;
 
-	const height = DEFAULT_H;
+	const height = getChartHeight();
 	const cx = width / 2;
 	const cy = (height - PAD_B + PAD_T) / 2;
 	const r = Math.min(width / 2 - 20, height / 2 - 20);
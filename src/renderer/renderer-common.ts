@@ -10,24 +10,114 @@ export const PAD_B = 28;
 export const MIN_W_PER_POINT = 90;
 export const DEFAULT_H = 300;
 
-const PALETTE = [
-	"#5b6cff",
-	"#5ec27f",
-	"#ffb347",
-	"#ff6b6b",
-	"#b47cff",
-	"#4dbbd5",
-	"#f78fb3",
-	"#50e3a4",
-];
+export const PALETTES: Record<string, string[]> = {
+	default: [
+		"#5b6cff",
+		"#5ec27f",
+		"#ffb347",
+		"#ff6b6b",
+		"#b47cff",
+		"#4dbbd5",
+		"#f78fb3",
+		"#50e3a4",
+	],
+	// Okabe–Ito: distinguishable with the common forms of color blindness
+	colorblind: [
+		"#0072b2",
+		"#e69f00",
+		"#009e73",
+		"#d55e00",
+		"#cc79a7",
+		"#56b4e9",
+		"#f0e442",
+		"#7f7f7f",
+	],
+	pastel: [
+		"#a3b1ff",
+		"#a8e0bd",
+		"#ffd59e",
+		"#ffadad",
+		"#d5b8ff",
+		"#a0dbe8",
+		"#fbc4d9",
+		"#a6f0d0",
+	],
+	vivid: [
+		"#3b5bfd",
+		"#1fb46b",
+		"#ff9500",
+		"#ff3b30",
+		"#9b51e0",
+		"#00a3d9",
+		"#ff2d87",
+		"#00c781",
+	],
+};
+
+/**
+ * Global defaults shared by every chart (set from the plugin settings).
+ */
+export interface ChartDefaults {
+	palette: string[];
+	chartHeight: number;
+	/** Tokens: YYYY, YY, MMMM, MMM, MM, M, DD, D */
+	dateFormat: string;
+	/** 0 = Sunday, 1 = Monday */
+	weekStart: 0 | 1;
+	/** BCP 47 tag (e.g. "pt-BR"); empty = plain numbers and English month names */
+	locale: string;
+}
+
+const chartDefaults: ChartDefaults = {
+	palette: PALETTES.default,
+	chartHeight: DEFAULT_H,
+	dateFormat: "DD/MM",
+	weekStart: 1,
+	locale: "",
+};
+
+export function setChartDefaults(next: Partial<ChartDefaults>): void {
+	Object.assign(chartDefaults, next);
+	if (!chartDefaults.palette.length) chartDefaults.palette = PALETTES.default;
+	if (!(chartDefaults.chartHeight > 0)) chartDefaults.chartHeight = DEFAULT_H;
+	if (chartDefaults.locale) {
+		try {
+			new Intl.NumberFormat(chartDefaults.locale);
+		} catch {
+			// Tag inválida: volta para números simples
+			chartDefaults.locale = "";
+		}
+	}
+}
+
+/**
+ * Returns the colors for a palette name. "custom" uses `custom`
+ * (falling back to the default palette when it is empty).
+ */
+export function resolvePalette(name: string, custom: string[] = []): string[] {
+	if (name === "custom") {
+		const colors = custom.map((c) => c.trim()).filter((c) => c);
+		return colors.length ? colors : PALETTES.default;
+	}
+	return PALETTES[name] ?? PALETTES.default;
+}
+
+export function getChartDefaults(): Readonly<ChartDefaults> {
+	return chartDefaults;
+}
+
+export function getChartHeight(): number {
+	return chartDefaults.chartHeight;
+}
 
 export function colorFor(key: string | undefined, idx: number): string {
 	if (!key) return "var(--text-accent, #5b6cff)";
+	const palette = chartDefaults.palette;
 	const h = Array.from(key).reduce(
 		(a, c) => (a * 33 + c.charCodeAt(0)) >>> 0,
 		0
 	);
-	return PALETTE[h % PALETTE.length];
+	return palette[h % palette.length];
 }
 
 export function ensureContainer(
@@ -53,13 +143,13 @@ export function ensureContainer(
 
 	const inner = scroll.createDiv({ cls: "chart-notes-inner" });
 	inner.style.display = "block";
-	inner.style.minHeight = `${DEFAULT_H}px`;
+	inner.style.minHeight = `${getChartHeight()}px`;
 	if (background) inner.style.background = background;
 
 	const svgNS = "http://www.w3.org/2000/svg";
 	const svg = document.createElementNS(svgNS, "svg") as SVGSVGElement;
 	svg.setAttribute("width", "100%");
-	svg.setAttribute("height", String(DEFAULT_H));
+	svg.setAttribute("height", String(getChartHeight()));
 	svg.style.display = "block";
 	inner.appendChild(svg);
 
@@ -83,11 +173,7 @@ export function showTooltip(
 	const rect = container.getBoundingClientRect();
 
 	const valueHtml =
-		typeof value === "number"
-			? Number.isInteger(value)
-				? String(value)
-				: value.toFixed(2)
-			: String(value);
+		typeof value === "number" ? formatNumber(value) : String(value);
 
 	tooltip.innerHTML = `
     <div class="chart-notes-tooltip-title">${label}</div>
@@ -143,7 +229,7 @@ export function openDetails(
 	title.textContent =
 		`Notas em "${label}" (${notes.length})` +
 		(Number.isFinite(value) && value !== 0
-			? ` – valor ${Number.isInteger(value) ? value : value.toFixed(2)}`
+			? ` – valor ${formatNumber(value)}`
 			: "");
 
 	const closeBtn = header.createEl("button", {
@@ -169,12 +255,65 @@ export function openDetails(
 	}
 }
 
-export function formatDateShort(d: Date): string {
+/**
+ * Formats a number: integers as-is, others with up to `decimals` places.
+ * Uses the configured locale (grouping and decimal separators) when set.
+ */
+export function formatNumber(value: number, decimals = 2): string {
+	const locale = chartDefaults.locale;
+	if (!locale) {
+		return Number.isInteger(value) ? String(value) : value.toFixed(decimals);
+	}
+	const places = Number.isInteger(value) ? 0 : decimals;
+	return value.toLocaleString(locale, {
+		minimumFractionDigits: places,
+		maximumFractionDigits: places,
+	});
+}
+
+/**
+ * Formats a date with a token pattern (YYYY, YY, MMMM, MMM, MM, M, DD, D).
+ * Text between [brackets] is kept as-is.
+ */
+export function formatDatePattern(d: Date, pattern: string, locale = ""): string {
 	if (!(d instanceof Date) || isNaN(d.getTime())) return "";
 	// Usa componentes em UTC para não “andar” 1 dia por causa do fuso
-	const day = d.getUTCDate().toString().padStart(2, "0");
-	const month = (d.getUTCMonth() + 1).toString().padStart(2, "0");
-	return `${day}/${month}`;
+	const year = d.getUTCFullYear();
+	const month = d.getUTCMonth();
+	const day = d.getUTCDate();
+	const monthName = (style: "long" | "short") => {
+		try {
+			return d.toLocaleString(locale || "en", { month: style, timeZone: "UTC" });
+		} catch {
+			return d.toLocaleString("en", { month: style, timeZone: "UTC" });
+		}
+	};
+
+	return pattern.replace(/\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D/g, (token, literal) => {
+		if (literal != null) return literal;
+		switch (token) {
+			case "YYYY":
+				return String(year);
+			case "YY":
+				return String(year).slice(-2);
+			case "MMMM":
+				return monthName("long");
+			case "MMM":
+				return monthName("short");
+			case "MM":
+				return String(month + 1).padStart(2, "0");
+			case "M":
+				return String(month + 1);
+			case "DD":
+				return String(day).padStart(2, "0");
+			default:
+				return String(day);
+		}
+	});
+}
+
+export function formatDateShort(d: Date): string {
+	return formatDatePattern(d, chartDefaults.dateFormat, chartDefaults.locale);
 }
 
 export function isLightColor(raw: string | undefined): boolean {
@@ -231,5 +370,7 @@ export function prettifyLabelFull(raw: string): string {
 export interface RenderContext {
 	refresh?: () => void;
 	reindexFile?: (path: string) => void | Promise<void>;
+	/** Note showing the chart, used when exporting (attachment folder, links) */
+	sourcePath?: string;
 }
 
@@ -10,15 +10,40 @@ import {
 	PAD_R,
 	PAD_T,
 	PAD_B,
-	DEFAULT_H,
+	getChartHeight,
+	formatNumber,
 } from "./renderer-common";
+import {
+	DEFAULT_OUTLIER_SIGMA,
+	FIT_LABELS,
+	findOutliers,
+	fitRegression,
+	formatEquation,
+	isFitKind,
+	predictFit,
+	type Fit,
+	type FitPoint,
+} from "../scatter-fit";
+import { BUBBLE_MAX_RADIUS, bubbleRadius, sizeLegendValues } from "../scatter-size";
+
+/** Points sampled along a curved trendline */
+const FIT_SAMPLES = 60;
+
+const OUTLIER_COLOR = "#d9534f";
 
 export function renderScatter(
 	container: HTMLElement,
 	spec: ChartSpec,
 	data: QueryResult
 ): void {
-	const { background, drilldown = true } = spec.options ?? {};
+	const {
+		background,
+		drilldown = true,
+		trendline,
+		identityLine = false,
+		outliers: showOutliers = false,
+		outlierSigma,
+	} = spec.options ?? {};
 	if (data.rows.length === 0) {
 		container.createDiv({ cls: "prop-charts-empty", text: "No data available." });
 		return;
@@ -35,9 +60,21 @@ export function renderScatter(
 	inner.style.width = width + "px";
 	if (textColor) svg.style.color = textColor;
 
-	const height = DEFAULT_H;
-	const plotW = width - PAD_L - PAD_R;
-	const plotH = height - PAD_T - PAD_B;
+	const height = getChartHeight();
+
+	// Bubble chart: a third property sets the area of each point
+	const sizeField = spec.encoding?.size;
+	const sizes = data.rows.map((r) =>
+		typeof r.size === "number" && Number.isFinite(r.size) ? r.size : undefined
+	);
+	const hasSize = !!sizeField && sizes.some((v) => v != null);
+	const maxSize = Math.max(0, ...sizes.filter((v): v is number => v != null));
+	const radiusOf = (idx: number) => (hasSize ? bubbleRadius(sizes[idx], maxSize) : 4);
+
+	// Keep the largest bubbles inside the axes
+	const inset = hasSize ? BUBBLE_MAX_RADIUS : 0;
+	const plotW = width - PAD_L - PAD_R - 2 * inset;
+	const plotH = height - PAD_T - PAD_B - 2 * inset;
 
 	const xs = data.rows.map((r) => {
 		const v = r.x;
@@ -71,9 +108,9 @@ export function renderScatter(
 	const yMax = Math.max(...ys);
 
 	const xScale = (val: number) =>
-		PAD_L + ((val - xMin) / (xMax - xMin || 1)) * plotW;
+		PAD_L + inset + ((val - xMin) / (xMax - xMin || 1)) * plotW;
 	const yScale = (val: number) =>
-		height - PAD_B - ((val - yMin) / (yMax - yMin || 1)) * plotH;
+		height - PAD_B - inset - ((val - yMin) / (yMax - yMin || 1)) * plotH;
 
 	const axisY = document.createElementNS(svg.namespaceURI, "line");
 	axisY.setAttribute("x1", String(PAD_L));
@@ -91,12 +128,85 @@ export function renderScatter(
 	axisX.setAttribute("stroke", "currentColor");
 	svg.appendChild(axisX);
 
-	data.rows.forEach((row, idx) => {
+	// Points with a numeric X, for fits and outliers
+	const points: FitPoint[] = [];
+	const pointRows: number[] = [];
+	xs.forEach((xv, idx) => {
+		if (xv == null || !Number.isFinite(ys[idx])) return;
+		points.push({ x: xv, y: ys[idx] });
+		pointRows.push(idx);
+	});
+
+	const fit = isFitKind(trendline) ? fitRegression(points, trendline) : null;
+	const sigma = Number(outlierSigma) > 0 ? Number(outlierSigma) : DEFAULT_OUTLIER_SIGMA;
+	const outlierRows = new Set(
+		showOutliers ? findOutliers(points, fit, sigma).map((i) => pointRows[i]) : []
+	);
+	const isDateX = data.rows.some(
+		(r) => r.x instanceof Date || (typeof r.x === "string" && /^\d{4}-\d{2}-\d{2}/.test(r.x))
+	);
+
+	const inPlot = (val: number) => val >= yMin && val <= yMax;
+
+	// y = x reference, over the range shared by both axes
+	if (identityLine && !isDateX) {
+		const from = Math.max(xMin, yMin);
+		const to = Math.min(xMax, yMax);
+		if (from < to) {
+			const ref = document.createElementNS(svg.namespaceURI, "line");
+			ref.setAttribute("x1", String(xScale(from)));
+			ref.setAttribute("y1", String(yScale(from)));
+			ref.setAttribute("x2", String(xScale(to)));
+			ref.setAttribute("y2", String(yScale(to)));
+			ref.setAttribute("stroke", "currentColor");
+			ref.setAttribute("stroke-opacity", "0.5");
+			ref.setAttribute("stroke-dasharray", "4,3");
+			ref.classList.add("chart-notes-identity-line");
+			svg.appendChild(ref);
+		}
+	}
+
+	// Trendline, split where it leaves the Y range
+	if (fit) {
+		let d = "";
+		let drawing = false;
+		for (let i = 0; i <= FIT_SAMPLES; i++) {
+			const xv = xMin + ((xMax - xMin) * i) / FIT_SAMPLES;
+			const yv = predictFit(fit, xv);
+			if (!Number.isFinite(yv) || !inPlot(yv)) {
+				drawing = false;
+				continue;
+			}
+			d += `${drawing ? "L" : "M"}${xScale(xv)},${yScale(yv)} `;
+			drawing = true;
+		}
+		if (d) {
+			const path = document.createElementNS(svg.namespaceURI, "path");
+			path.setAttribute("d", d.trim());
+			path.setAttribute("fill", "none");
+			path.setAttribute("stroke", "currentColor");
+			path.setAttribute("stroke-width", "2");
+			path.setAttribute("stroke-opacity", "0.7");
+			path.classList.add("chart-notes-trendline");
+			svg.appendChild(path);
+		}
+	}
+
+	const xName = spec.encoding?.x ?? "X";
+	const yName = spec.encoding?.y ?? "Y";
+
+	// Largest bubbles first, so smaller ones stay on top and clickable
+	const order = data.rows.map((_, idx) => idx);
+	if (hasSize) order.sort((a, b) => radiusOf(b) - radiusOf(a));
+
+	order.forEach((idx) => {
+		const row = data.rows[idx];
 		const xv = xs[idx];
 		if (xv == null) return;
 
 		const cx = xScale(xv);
 		const cy = yScale(ys[idx]);
+		const isOutlier = outlierRows.has(idx);
 
 		const dot = document.createElementNS(
 			svg.namespaceURI,
@@ -104,8 +214,14 @@ export function renderScatter(
 		) as SVGCircleElement;
 		dot.setAttribute("cx", String(cx));
 		dot.setAttribute("cy", String(cy));
-		dot.setAttribute("r", "4");
+		dot.setAttribute("r", String(isOutlier && !hasSize ? 6 : radiusOf(idx)));
 		dot.setAttribute("fill", colorFor(row.series, idx));
+		if (hasSize) dot.setAttribute("fill-opacity", "0.6");
+		if (isOutlier) {
+			dot.setAttribute("stroke", OUTLIER_COLOR);
+			dot.setAttribute("stroke-width", "2");
+			dot.classList.add("chart-notes-outlier");
+		}
 		dot.style.cursor = "pointer";
 
 		const label =
@@ -114,9 +230,19 @@ export function renderScatter(
 				: typeof row.x === "string"
 				? row.x
 				: String(row.x);
+		const notePath = row.notes?.length === 1 ? row.notes[0] : undefined;
+		const noteTitle = notePath
+			? (notePath.replace(/\.md$/i, "").split("/").pop() ?? notePath)
+			: label;
+		const lines = [`${xName}: ${label}`, `${yName}: ${formatNumber(row.y)}`];
+		if (hasSize) {
+			const size = sizes[idx];
+			lines.push(`${sizeField}: ${size != null ? formatNumber(size) : "–"}`);
+		}
+		if (isOutlier) lines.push(`Outlier (> ${sigma}σ)`);
 
 		dot.addEventListener("mouseenter", (ev: MouseEvent) =>
-			showTooltip(container, tooltip, label, row.y, row.notes?.length ?? 0, ev)
+			showTooltip(container, tooltip, noteTitle, lines.join("<br>"), row.notes?.length ?? 0, ev)
 		);
 		dot.addEventListener("mouseleave", () => hideTooltip(tooltip));
 		dot.addEventListener("click", (ev: MouseEvent) => {
@@ -133,4 +259,90 @@ export function renderScatter(
 
 		svg.appendChild(dot);
 	});
+
+	if (hasSize) renderSizeLegend(container, sizeField!, maxSize);
+
+	if (fit || (identityLine && !isDateX) || showOutliers) {
+		const outlierNotes = [...outlierRows].flatMap((idx) => data.rows[idx].notes ?? []);
+		renderFitLegend(container, fit, identityLine && !isDateX, isDateX, showOutliers ? {
+			sigma,
+			count: outlierRows.size,
+			onClick: () =>
+				openDetails(
+					container,
+					details,
+					`Outliers (> ${sigma}σ)`,
+					outlierRows.size,
+					outlierNotes,
+					drilldown
+				),
+		} : null);
+	}
+}
+
+/**
+ * Size legend of a bubble chart: reference circles drawn at the same scale
+ * as the points.
+ */
+function renderSizeLegend(container: HTMLElement, sizeField: string, maxSize: number): void {
+	const legend = container.createDiv({ cls: "chart-notes-legend chart-notes-size-legend" });
+	legend.createSpan({ cls: "chart-notes-size-legend-title", text: `Size: ${sizeField}` });
+
+	const svgNS = "http://www.w3.org/2000/svg";
+	for (const value of sizeLegendValues(maxSize)) {
+		const r = bubbleRadius(value, maxSize);
+		const item = legend.createDiv({ cls: "chart-notes-legend-item" });
+		const swatch = document.createElementNS(svgNS, "svg");
+		swatch.setAttribute("width", String(2 * r + 2));
+		swatch.setAttribute("height", String(2 * r + 2));
+		const circle = document.createElementNS(svgNS, "circle");
+		circle.setAttribute("cx", String(r + 1));
+		circle.setAttribute("cy", String(r + 1));
+		circle.setAttribute("r", String(r));
+		circle.setAttribute("fill", "none");
+		circle.setAttribute("stroke", "currentColor");
+		swatch.appendChild(circle);
+		item.appendChild(swatch);
+		item.createSpan({ text: formatNumber(value) });
+	}
+}
+
+/**
+ * Legend for the trendline (equation and R²), the y = x line and the
+ * outlier count; clicking the outliers lists their notes.
+ */
+function renderFitLegend(
+	container: HTMLElement,
+	fit: Fit | null,
+	identity: boolean,
+	isDateX: boolean,
+	outliers: { sigma: number; count: number; onClick: () => void } | null
+): void {
+	const legend = container.createDiv({ cls: "chart-notes-legend chart-notes-fit-legend" });
+
+	if (fit) {
+		const item = legend.createDiv({ cls: "chart-notes-legend-item" });
+		item.createDiv({ cls: "chart-notes-legend-line" });
+		// Coefficients over dates in ms mean little, so only R² is shown
+		const equation = isDateX ? "" : `${formatEquation(fit)}, `;
+		item.createSpan({
+			text: `${FIT_LABELS[fit.kind]}: ${equation}R² = ${formatNumber(fit.r2, 3)}`,
+		});
+	}
+
+	if (identity) {
+		const item = legend.createDiv({ cls: "chart-notes-legend-item" });
+		item.createDiv({ cls: "chart-notes-legend-dash" });
+		item.createSpan({ text: "y = x" });
+	}
+
+	if (outliers) {
+		const item = legend.createDiv({ cls: "chart-notes-legend-item chart-notes-legend-outliers" });
+		item.createDiv({ cls: "chart-notes-legend-ring" });
+		item.createSpan({ text: `Outliers (> ${outliers.sigma}σ): ${outliers.count}` });
+		if (outliers.count > 0) {
+			item.addClass("is-clickable");
+			item.addEventListener("click", outliers.onClick);
+		}
+	}
 }
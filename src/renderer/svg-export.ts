@@ -0,0 +1,197 @@
+// src/renderer/svg-export.ts
+
+/**
+ * Turns a rendered chart into a standalone SVG document. Styles coming from
+ * the theme are inlined, and the title and the HTML legend are redrawn inside
+ * the SVG, so the file looks like the chart on screen.
+ */
+
+import { formatDay } from "../date-buckets";
+
+export interface LegendItem {
+	label: string;
+	color: string;
+}
+
+export interface ExportLayout {
+	/** Size of the chart SVG on screen, in px */
+	width: number;
+	height: number;
+	title?: string;
+	legend: LegendItem[];
+	/** Page background; white by default so text stays readable */
+	background?: string;
+}
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+/** Presentation properties copied from the computed style of each element */
+const INLINED_STYLES = [
+	"fill",
+	"fill-opacity",
+	"stroke",
+	"stroke-width",
+	"stroke-opacity",
+	"stroke-dasharray",
+	"opacity",
+	"font-family",
+	"font-size",
+	"font-weight",
+];
+
+const TITLE_H = 28;
+const LEGEND_ROW_H = 18;
+const LEGEND_PAD = 8;
+const LEGEND_GAP = 14;
+/** Approximate width of a legend character at 11px */
+const LEGEND_CHAR_W = 6.5;
+
+/**
+ * Reads the series legend rendered as HTML under the chart.
+ */
+export function readLegend(container: HTMLElement): LegendItem[] {
+	return Array.from(container.querySelectorAll<HTMLElement>(".chart-notes-legend-item"))
+		.map((item) => {
+			const swatch = item.querySelector("div");
+			return {
+				label: (item.textContent ?? "").trim(),
+				color: swatch?.style.backgroundColor || "#888888",
+			};
+		})
+		.filter((item) => item.label);
+}
+
+/**
+ * Places legend items left to right, wrapping at `width`.
+ */
+export function layoutLegend(
+	items: LegendItem[],
+	width: number
+): { item: LegendItem; x: number; row: number }[] {
+	const placed: { item: LegendItem; x: number; row: number }[] = [];
+	let x = LEGEND_PAD;
+	let row = 0;
+	for (const item of items) {
+		const itemW = 14 + item.label.length * LEGEND_CHAR_W;
+		if (x > LEGEND_PAD && x + itemW > width - LEGEND_PAD) {
+			x = LEGEND_PAD;
+			row++;
+		}
+		placed.push({ item, x, row });
+		x += itemW + LEGEND_GAP;
+	}
+	return placed;
+}
+
+/**
+ * Copies the computed presentation styles of `source` (and its children)
+ * onto the matching elements of its clone `target`.
+ */
+function inlineStyles(source: Element, target: Element): void {
+	const view = source.ownerDocument.defaultView;
+	if (view) {
+		const computed = view.getComputedStyle(source);
+		const declarations = INLINED_STYLES.map((prop) => [prop, computed.getPropertyValue(prop)])
+			.filter(([, value]) => value && value.trim() !== "")
+			.map(([prop, value]) => `${prop}: ${value.trim()}`);
+		if (declarations.length) {
+			const existing = target.getAttribute("style");
+			target.setAttribute(
+				"style",
+				(existing ? existing.replace(/;?\s*$/, "; ") : "") + declarations.join("; ")
+			);
+		}
+	}
+	for (let i = 0; i < source.children.length; i++) {
+		const child = target.children[i];
+		if (child) inlineStyles(source.children[i], child);
+	}
+}
+
+/**
+ * Builds the exported SVG document: background, title, the chart and its legend.
+ *
+ * @returns The serialized document and its final size
+ */
+export function buildExportSvg(
+	svg: SVGSVGElement,
+	layout: ExportLayout
+): { markup: string; width: number; height: number } {
+	const doc = svg.ownerDocument;
+	const width = Math.max(1, Math.round(layout.width));
+	const chartH = Math.max(1, Math.round(layout.height));
+	const titleH = layout.title ? TITLE_H : 0;
+
+	const legend = layoutLegend(layout.legend, width);
+	const legendRows = legend.length ? legend[legend.length - 1].row + 1 : 0;
+	const legendH = legendRows ? legendRows * LEGEND_ROW_H + LEGEND_PAD : 0;
+	const height = titleH + chartH + legendH;
+
+	const out = doc.createElementNS(SVG_NS, "svg");
+	out.setAttribute("width", String(width));
+	out.setAttribute("height", String(height));
+	out.setAttribute("viewBox", `0 0 ${width} ${height}`);
+
+	const background = doc.createElementNS(SVG_NS, "rect");
+	background.setAttribute("width", "100%");
+	background.setAttribute("height", "100%");
+	background.setAttribute("fill", layout.background || "#ffffff");
+	out.appendChild(background);
+
+	if (layout.title) {
+		const title = doc.createElementNS(SVG_NS, "text");
+		title.setAttribute("x", String(LEGEND_PAD));
+		title.setAttribute("y", "19");
+		title.setAttribute("font-size", "14");
+		title.setAttribute("font-weight", "600");
+		title.setAttribute("font-family", "sans-serif");
+		title.setAttribute("fill", "#111111");
+		title.textContent = layout.title;
+		out.appendChild(title);
+	}
+
+	const chart = svg.cloneNode(true) as SVGSVGElement;
+	inlineStyles(svg, chart);
+	chart.setAttribute("x", "0");
+	chart.setAttribute("y", String(titleH));
+	chart.setAttribute("width", String(width));
+	chart.setAttribute("height", String(chartH));
+	out.appendChild(chart);
+
+	for (const { item, x, row } of legend) {
+		const cy = titleH + chartH + LEGEND_PAD + row * LEGEND_ROW_H + LEGEND_ROW_H / 2;
+		const swatch = doc.createElementNS(SVG_NS, "circle");
+		swatch.setAttribute("cx", String(x + 5));
+		swatch.setAttribute("cy", String(cy));
+		swatch.setAttribute("r", "5");
+		swatch.setAttribute("fill", item.color);
+		out.appendChild(swatch);
+
+		const label = doc.createElementNS(SVG_NS, "text");
+		label.setAttribute("x", String(x + 14));
+		label.setAttribute("y", String(cy + 4));
+		label.setAttribute("font-size", "11");
+		label.setAttribute("font-family", "sans-serif");
+		label.setAttribute("fill", "#111111");
+		label.textContent = item.label;
+		out.appendChild(label);
+	}
+
+	const markup =
+		'<?xml version="1.0" encoding="UTF-8"?>\n' + new XMLSerializer().serializeToString(out);
+	return { markup, width, height };
+}
+
+/**
+ * File name for an export: "Tasks by status 2026-03-05 1430.png".
+ * Characters not allowed in vault paths or links are replaced.
+ */
+export function exportFileName(title: string, ext: "svg" | "png" | "csv", now: Date = new Date()): string {
+	const name =
+		title
+			.replace(/[\\/:*?"<>|#^[\]]/g, "-")
+			.replace(/\s+/g, " ")
+			.trim() || "Chart";
+	const time = `${String(now.getHours()).padStart(2, "0")}${String(now.getMinutes()).padStart(2, "0")}`;
+	return `${name} ${formatDay(now)} ${time}.${ext}`;
+}
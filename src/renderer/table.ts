@@ -0,0 +1,271 @@
+// src/renderer/table.ts
+
+/**
+ * Pivot Table Renderer
+ *
+ * Renders aggregated rows as a pivot table:
+ * - X values become table rows
+ * - Series values become table columns
+ * - Aggregated Y goes in the cells, with row and column totals (computed
+ *   again from the raw values for averages, medians, distinct counts...)
+ * - Clicking a cell opens the notes behind it (drilldown)
+ */
+
+import type { ChartSpec, QueryResult, QueryResultRow } from "../types";
+import { formatNumber, openDetails } from "./renderer-common";
+import {
+	DEFAULT_PERCENTILE,
+	createAccumulator,
+	finalizeAccumulator,
+	isAdditiveOp,
+	type Accumulator,
+	type AggregateOp,
+} from "../aggregate";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PivotCell {
+	/** null for a total that can't be computed (rows without raw values) */
+	value: number | null;
+	notes: string[];
+}
+
+export interface PivotTable {
+	rowKeys: string[];
+	colKeys: string[];
+	cells: Map<string, Map<string, PivotCell>>;
+	rowTotals: Map<string, PivotCell>;
+	colTotals: Map<string, PivotCell>;
+	grandTotal: PivotCell;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const NO_SERIES_KEY = "";
+const TOTAL_LABEL = "Total";
+
+const AGGREGATE_OPS: AggregateOp[] = [
+	"sum",
+	"count",
+	"avg",
+	"min",
+	"max",
+	"median",
+	"percentile",
+	"count-distinct",
+];
+
+// ============================================================================
+// Pivot Building
+// ============================================================================
+
+/**
+ * Formats an X value as a row key (dates become YYYY-MM-DD).
+ */
+function rowKeyOf(x: QueryResultRow["x"]): string {
+	if (x instanceof Date) return x.toISOString().slice(0, 10);
+	return String(x ?? "");
+}
+
+function compareKeys(a: string, b: string): number {
+	return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function emptyCell(): PivotCell {
+	return { value: 0, notes: [] };
+}
+
+/**
+ * Adds a value and its notes into an accumulator cell (notes are deduplicated).
+ */
+function addToCell(cell: PivotCell, value: number, notes: string[]): void {
+	cell.value = (cell.value ?? 0) + value;
+	for (const note of notes) {
+		if (!cell.notes.includes(note)) cell.notes.push(note);
+	}
+}
+
+/**
+ * Builds a pivot table from aggregated rows (X → rows, series → columns).
+ * Rows sharing the same (X, series) pair are summed.
+ *
+ * Totals add the cells up for sum and count. For other operations (a sum of
+ * averages means nothing) they are computed with the same operation from the
+ * raw values of the rows (`row.bucket`), or left empty without them.
+ *
+ * @param op - Operation that produced the cell values
+ * @param p - Percentile (0–100), only used by "percentile"
+ */
+export function buildPivot(
+	rows: QueryResultRow[],
+	op: AggregateOp = "sum",
+	p: number = DEFAULT_PERCENTILE
+): PivotTable {
+	const cells = new Map<string, Map<string, PivotCell>>();
+	const rowTotals = new Map<string, PivotCell>();
+	const colTotals = new Map<string, PivotCell>();
+	const grandTotal = emptyCell();
+
+	// Raw values behind each total; null once a row comes without them
+	const additive = isAdditiveOp(op);
+	const totalValues = new Map<PivotCell, Accumulator | null>();
+	const addToTotal = (total: PivotCell, row: QueryResultRow) => {
+		if (additive) return;
+		const acc = totalValues.has(total) ? totalValues.get(total)! : createAccumulator();
+		if (!acc || !row.bucket) {
+			totalValues.set(total, null);
+			return;
+		}
+		acc.values.push(...row.bucket.values);
+		row.bucket.distinct.forEach((key) => acc.distinct.add(key));
+		acc.count += row.bucket.count;
+		totalValues.set(total, acc);
+	};
+
+	for (const row of rows) {
+		const rowKey = rowKeyOf(row.x);
+		const colKey = row.series != null ? String(row.series) : NO_SERIES_KEY;
+		const value = Number.isFinite(row.y) ? row.y : 0;
+		const notes = row.notes ?? [];
+
+		let rowCells = cells.get(rowKey);
+		if (!rowCells) {
+			rowCells = new Map();
+			cells.set(rowKey, rowCells);
+		}
+		const cell = rowCells.get(colKey) ?? emptyCell();
+		addToCell(cell, value, notes);
+		rowCells.set(colKey, cell);
+
+		const rowTotal = rowTotals.get(rowKey) ?? emptyCell();
+		addToCell(rowTotal, value, notes);
+		addToTotal(rowTotal, row);
+		rowTotals.set(rowKey, rowTotal);
+
+		const colTotal = colTotals.get(colKey) ?? emptyCell();
+		addToCell(colTotal, value, notes);
+		addToTotal(colTotal, row);
+		colTotals.set(colKey, colTotal);
+
+		addToCell(grandTotal, value, notes);
+		addToTotal(grandTotal, row);
+	}
+
+	for (const [total, acc] of totalValues) {
+		total.value = acc ? finalizeAccumulator(acc, op, p) : null;
+	}
+
+	return {
+		rowKeys: Array.from(cells.keys()).sort(compareKeys),
+		colKeys: Array.from(colTotals.keys()).sort(compareKeys),
+		cells,
+		rowTotals,
+		colTotals,
+		grandTotal,
+	};
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+export function renderTable(
+	container: HTMLElement,
+	spec: ChartSpec,
+	data: QueryResult
+): void {
+	const opts: any = spec.options ?? {};
+	const background: string | undefined = opts.background;
+	const drilldown: boolean = opts.drilldown ?? true;
+
+	const rows = data.rows ?? [];
+	if (!rows.length) {
+		container.createDiv({ cls: "prop-charts-empty", text: "No data available." });
+		return;
+	}
+
+	// Bases passes its aggregation; code blocks use aggregate.y
+	const opRaw = opts.tableAggregate ?? spec.aggregate?.y;
+	const op: AggregateOp = AGGREGATE_OPS.includes(opRaw) ? opRaw : "sum";
+	const pivot = buildPivot(rows, op, opts.tablePercentile ?? DEFAULT_PERCENTILE);
+	const hasSeries =
+		pivot.colKeys.length > 1 || pivot.colKeys[0] !== NO_SERIES_KEY;
+	const valueLabel = data.yField ?? spec.encoding?.y ?? "Value";
+
+	const scroll = container.createDiv({ cls: "chart-notes-scroll" });
+	const table = scroll.createEl("table", { cls: "chart-notes-table" });
+	if (background) table.style.background = background;
+
+	const details = container.createDiv({ cls: "chart-notes-details" });
+	details.style.display = "none";
+
+	const addCell = (
+		tr: HTMLElement,
+		label: string,
+		cell: PivotCell | undefined,
+		isTotal: boolean
+	) => {
+		const td = tr.createEl("td", { cls: "chart-notes-table-value" });
+		if (isTotal) td.addClass("chart-notes-table-total");
+		if (!cell) return;
+
+		const value = cell.value;
+		if (value == null) {
+			td.textContent = "–";
+			td.setAttr("title", "No total for this aggregation");
+			return;
+		}
+		td.textContent = formatNumber(value);
+		if (!drilldown || cell.notes.length === 0) return;
+
+		td.addClass("is-clickable");
+		td.setAttr("title", `${cell.notes.length} note${cell.notes.length === 1 ? "" : "s"}`);
+		td.addEventListener("click", (ev: MouseEvent) => {
+			ev.preventDefault();
+			openDetails(container, details, label, value, cell.notes, drilldown);
+		});
+	};
+
+	// Header: X field + one column per series (+ total)
+	const headRow = table.createEl("thead").createEl("tr");
+	headRow.createEl("th", { text: data.xField ?? spec.encoding?.x ?? "" });
+	if (hasSeries) {
+		for (const colKey of pivot.colKeys) {
+			headRow.createEl("th", { text: colKey === NO_SERIES_KEY ? "(none)" : colKey });
+		}
+	}
+	headRow.createEl("th", {
+		cls: "chart-notes-table-total",
+		text: hasSeries ? TOTAL_LABEL : valueLabel,
+	});
+
+	// Body: one row per X value
+	const body = table.createEl("tbody");
+	for (const rowKey of pivot.rowKeys) {
+		const tr = body.createEl("tr");
+		tr.createEl("th", { text: rowKey });
+		if (hasSeries) {
+			const rowCells = pivot.cells.get(rowKey);
+			for (const colKey of pivot.colKeys) {
+				const colLabel = colKey === NO_SERIES_KEY ? "(none)" : colKey;
+				addCell(tr, `${rowKey} / ${colLabel}`, rowCells?.get(colKey), false);
+			}
+		}
+		addCell(tr, rowKey, pivot.rowTotals.get(rowKey), true);
+	}
+
+	// Footer: column totals + grand total
+	const footRow = table.createEl("tfoot").createEl("tr");
+	footRow.createEl("th", { cls: "chart-notes-table-total", text: TOTAL_LABEL });
+	if (hasSeries) {
+		for (const colKey of pivot.colKeys) {
+			const colLabel = colKey === NO_SERIES_KEY ? "(none)" : colKey;
+			addCell(footRow, `${TOTAL_LABEL} / ${colLabel}`, pivot.colTotals.get(colKey), true);
+		}
+	}
+	addCell(footRow, TOTAL_LABEL, pivot.grandTotal, true);
+}
@@ -0,0 +1,215 @@
+/**
+ * Scatter Fits
+ *
+ * Least-squares trendlines for scatter plots (linear, logarithmic and
+ * polynomial), their R² and equation, and outliers: points whose residual is
+ * more than N standard deviations from the fit.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FitKind = "linear" | "log" | "poly2" | "poly3";
+
+export interface FitPoint {
+	x: number;
+	y: number;
+}
+
+export interface Fit {
+	kind: FitKind;
+	/**
+	 * Coefficients from the constant term up: `y = c0 + c1·x + c2·x² ...`,
+	 * or `y = c0 + c1·ln(x)` for "log"
+	 */
+	coefficients: number[];
+	/** Coefficient of determination; 1 is a perfect fit */
+	r2: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const FIT_KINDS: FitKind[] = ["linear", "log", "poly2", "poly3"];
+
+export const FIT_LABELS: Record<FitKind, string> = {
+	linear: "Linear",
+	log: "Logarithmic",
+	poly2: "Polynomial (2)",
+	poly3: "Polynomial (3)",
+};
+
+export const DEFAULT_OUTLIER_SIGMA = 2;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isFitKind(value: unknown): value is FitKind {
+	return FIT_KINDS.includes(value as FitKind);
+}
+
+function degreeOf(kind: FitKind): number {
+	return kind === "poly2" ? 2 : kind === "poly3" ? 3 : 1;
+}
+
+/**
+ * Solves a small linear system (Gaussian elimination with partial pivoting).
+ * Returns null when the system is singular.
+ */
+function solve(matrix: number[][], rhs: number[]): number[] | null {
+	const n = rhs.length;
+	const a = matrix.map((row, i) => [...row, rhs[i]]);
+	for (let col = 0; col < n; col++) {
+		let pivot = col;
+		for (let r = col + 1; r < n; r++) {
+			if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+		}
+		if (Math.abs(a[pivot][col]) < 1e-12) return null;
+		[a[col], a[pivot]] = [a[pivot], a[col]];
+		for (let r = 0; r < n; r++) {
+			if (r === col) continue;
+			const f = a[r][col] / a[col][col];
+			for (let c = col; c <= n; c++) a[r][c] -= f * a[col][c];
+		}
+	}
+	return a.map((row, i) => row[n] / row[i]);
+}
+
+/**
+ * Least-squares polynomial of the given degree through the points.
+ * X is standardized while solving (dates in ms would overflow the normal
+ * equations) and the coefficients are converted back to plain X.
+ */
+function fitPolynomial(points: FitPoint[], degree: number): number[] | null {
+	const n = points.length;
+	const mean = points.reduce((s, p) => s + p.x, 0) / n;
+	const spread = Math.sqrt(points.reduce((s, p) => s + (p.x - mean) ** 2, 0) / n) || 1;
+	const us = points.map((p) => (p.x - mean) / spread);
+
+	const size = degree + 1;
+	const matrix = Array.from({ length: size }, (_, i) =>
+		Array.from({ length: size }, (_, j) => us.reduce((s, u) => s + u ** (i + j), 0))
+	);
+	const rhs = Array.from({ length: size }, (_, i) =>
+		points.reduce((s, p, k) => s + p.y * us[k] ** i, 0)
+	);
+	const c = solve(matrix, rhs);
+	if (!c) return null;
+
+	// Horner with u = (x - mean) / spread: poly = poly·u + c[k]
+	let poly = [c[degree]];
+	for (let k = degree - 1; k >= 0; k--) {
+		const next = new Array(poly.length + 1).fill(0);
+		poly.forEach((coef, i) => {
+			next[i] += (coef * -mean) / spread;
+			next[i + 1] += coef / spread;
+		});
+		next[0] += c[k];
+		poly = next;
+	}
+	return poly;
+}
+
+/**
+ * Y of the fit at X; NaN for a logarithmic fit at X ≤ 0.
+ */
+export function predictFit(fit: Fit, x: number): number {
+	if (fit.kind === "log") {
+		return x > 0 ? fit.coefficients[0] + fit.coefficients[1] * Math.log(x) : NaN;
+	}
+	return fit.coefficients.reduceRight((acc, coef) => acc * x + coef, 0);
+}
+
+function formatCoefficient(value: number): string {
+	const abs = Math.abs(value);
+	if (abs !== 0 && (abs >= 1e6 || abs < 1e-3)) return value.toExponential(2);
+	return String(Number(value.toPrecision(3)));
+}
+
+/**
+ * Equation of a fit, e.g. "y = 1.2x + 3", "y = 0.5x² − 2x + 1", "y = 2ln(x) + 1".
+ */
+export function formatEquation(fit: Fit): string {
+	const terms: Array<{ coef: number; suffix: string }> =
+		fit.kind === "log"
+			? [
+				{ coef: fit.coefficients[1], suffix: "ln(x)" },
+				{ coef: fit.coefficients[0], suffix: "" },
+			]
+			: fit.coefficients
+				.map((coef, power) => ({
+					coef,
+					suffix: power === 0 ? "" : power === 1 ? "x" : power === 2 ? "x²" : "x³",
+				}))
+				.reverse();
+
+	let text = "";
+	for (const { coef, suffix } of terms) {
+		if (coef === 0 || Number(coef.toPrecision(3)) === 0) continue;
+		const abs = formatCoefficient(Math.abs(coef));
+		const body = suffix && abs === "1" ? suffix : `${abs}${suffix}`;
+		if (!text) text = coef < 0 ? `−${body}` : body;
+		else text += coef < 0 ? ` − ${body}` : ` + ${body}`;
+	}
+	return `y = ${text || "0"}`;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Fits a trendline. Logarithmic fits use only points with X > 0.
+ *
+ * @returns The fit, or null without enough distinct points
+ */
+export function fitRegression(points: FitPoint[], kind: FitKind): Fit | null {
+	const usable = points.filter(
+		(p) => Number.isFinite(p.x) && Number.isFinite(p.y) && (kind !== "log" || p.x > 0)
+	);
+	const degree = degreeOf(kind);
+	if (new Set(usable.map((p) => p.x)).size < degree + 1) return null;
+
+	const coefficients =
+		kind === "log"
+			? fitPolynomial(usable.map((p) => ({ x: Math.log(p.x), y: p.y })), 1)
+			: fitPolynomial(usable, degree);
+	if (!coefficients || coefficients.some((c) => !Number.isFinite(c))) return null;
+
+	const fit: Fit = { kind, coefficients, r2: 0 };
+	const meanY = usable.reduce((s, p) => s + p.y, 0) / usable.length;
+	const ssTot = usable.reduce((s, p) => s + (p.y - meanY) ** 2, 0);
+	const ssRes = usable.reduce((s, p) => s + (p.y - predictFit(fit, p.x)) ** 2, 0);
+	fit.r2 = ssTot === 0 ? (ssRes < 1e-9 ? 1 : 0) : 1 - ssRes / ssTot;
+	return fit;
+}
+
+/**
+ * Indexes of the points whose residual is more than `sigma` standard
+ * deviations from the fit (from the mean of Y without a fit).
+ */
+export function findOutliers(points: FitPoint[], fit: Fit | null, sigma: number = DEFAULT_OUTLIER_SIGMA): number[] {
+	const residuals = points.map((p) => {
+		const expected = fit ? predictFit(fit, p.x) : NaN;
+		return Number.isFinite(expected) ? p.y - expected : NaN;
+	});
+	if (!fit) {
+		const meanY = points.reduce((s, p) => s + p.y, 0) / (points.length || 1);
+		points.forEach((p, i) => (residuals[i] = p.y - meanY));
+	}
+
+	const valid = residuals.filter((r) => Number.isFinite(r));
+	if (valid.length < 3) return [];
+	const mean = valid.reduce((s, r) => s + r, 0) / valid.length;
+	const sd = Math.sqrt(valid.reduce((s, r) => s + (r - mean) ** 2, 0) / valid.length);
+	if (sd === 0) return [];
+
+	const out: number[] = [];
+	residuals.forEach((r, i) => {
+		if (Number.isFinite(r) && Math.abs(r - mean) > sigma * sd) out.push(i);
+	});
+	return out;
+}
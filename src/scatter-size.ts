@@ -0,0 +1,56 @@
+/**
+ * Bubble Sizes
+ *
+ * Size encoding for scatter plots (bubble charts): a third numeric property
+ * sets the area of each circle, so a value twice as large draws a circle with
+ * twice the area (not twice the radius).
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Radius of the largest bubble, in px */
+export const BUBBLE_MAX_RADIUS = 24;
+
+/** Radius of zero, negative or missing sizes, so every point stays visible */
+export const BUBBLE_MIN_RADIUS = 3;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Reads a size value; lists use their first item.
+ *
+ * @returns The number, or undefined when missing or not numeric
+ */
+export function parseSize(raw: unknown): number | undefined {
+	const value = Array.isArray(raw) ? raw[0] : raw;
+	if (value == null || value === "" || typeof value === "boolean") return undefined;
+	const num = typeof value === "number" ? value : Number(String(value).trim());
+	return Number.isFinite(num) ? num : undefined;
+}
+
+/**
+ * Radius of a bubble: the area is proportional to the value, with the largest
+ * value at `BUBBLE_MAX_RADIUS`.
+ */
+export function bubbleRadius(value: number | undefined, maxValue: number): number {
+	if (value == null || !(value > 0) || !(maxValue > 0)) return BUBBLE_MIN_RADIUS;
+	return Math.max(BUBBLE_MIN_RADIUS, BUBBLE_MAX_RADIUS * Math.sqrt(value / maxValue));
+}
+
+/**
+ * Reference values for the size legend: the largest size, its half and its
+ * quarter, rounded to two significant digits.
+ */
+export function sizeLegendValues(maxValue: number): number[] {
+	if (!(maxValue > 0)) return [];
+	const round = (v: number) => {
+		const magnitude = 10 ** Math.floor(Math.log10(v));
+		return Math.round(v / magnitude * 10) / 10 * magnitude;
+	};
+	const values = [maxValue / 4, maxValue / 2].map(round).filter((v) => v > 0 && v < maxValue);
+	return [...values, maxValue];
+}
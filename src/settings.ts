@@ -1,31 +1,105 @@
 // src/settings.ts
 
 import { App, PluginSettingTab, Setting } from "obsidian";
+import { PALETTES, resolvePalette } from "./renderer/renderer-common";
+import type { ChartDefaults } from "./renderer/renderer-common";
+import type { ExportOptions } from "./chart-export";
 
 export interface PropChartsSettings {
   /**
-   * Pastas padrão para buscar notas quando o bloco não especifica source.paths.
+   * Pastas indexadas. Só notas dentro delas entram nos blocos ```chartnotes.
    * Ex.: ["."] → tudo; ["TaskNotes/"] → só pasta de tasks.
    */
   defaultPaths: string[];
 
   /**
    * Limite de notas indexadas, para evitar travar em cofres gigantes.
-   * (Ainda não está sendo usado no indexer, mas já fica pronto.)
+   * Acima do limite ficam as notas modificadas mais recentemente.
    */
   maxNotes: number;
 
   /**
-   * Futuro: ler inline fields (key:: value) além do frontmatter YAML.
-   * No momento, só aciona um reindex quando muda.
+   * Lê inline fields (key:: value, [key:: value], (key:: value)) além do
+   * frontmatter YAML. Se a mesma propriedade existir nos dois, vale o frontmatter.
    */
   enableInlineFields: boolean;
+
+  // ---------------------------------------------------------------------------
+  // Padrões dos gráficos (valem para todas as views e blocos)
+  // ---------------------------------------------------------------------------
+
+  /** "default" | "colorblind" | "pastel" | "vivid" | "custom" */
+  palette: string;
+
+  /** Cores usadas quando palette = "custom" (hex ou qualquer cor CSS) */
+  customPalette: string[];
+
+  /** Altura padrão dos gráficos, em px */
+  chartHeight: number;
+
+  /** Formato das datas nos eixos (YYYY, YY, MMMM, MMM, MM, M, DD, D) */
+  dateFormat: string;
+
+  /** Primeiro dia da semana, usado no agrupamento por semana */
+  weekStart: "monday" | "sunday";
+
+  /** Locale para números e nomes de meses (ex.: "pt-BR"); vazio = padrão */
+  locale: string;
+
+  // ---------------------------------------------------------------------------
+  // Exportação (SVG / PNG)
+  // ---------------------------------------------------------------------------
+
+  /** Pasta dos arquivos exportados; vazio = pasta de anexos do Obsidian */
+  exportFolder: string;
+
+  /** Copia um embed ![[...]] do arquivo exportado para a área de transferência */
+  exportCopyEmbed: boolean;
 }
 
 export const DEFAULT_SETTINGS: PropChartsSettings = {
   defaultPaths: ["."],
   maxNotes: 20000,
   enableInlineFields: false,
+  palette: "default",
+  customPalette: [],
+  chartHeight: 300,
+  dateFormat: "DD/MM",
+  weekStart: "monday",
+  locale: "",
+  exportFolder: "",
+  exportCopyEmbed: true,
+};
+
+/**
+ * Converte as configurações do plugin nos padrões usados pelos renderers.
+ */
+export function chartDefaultsFromSettings(settings: PropChartsSettings): ChartDefaults {
+  return {
+    palette: resolvePalette(settings.palette, settings.customPalette),
+    chartHeight: settings.chartHeight,
+    dateFormat: settings.dateFormat.trim() || DEFAULT_SETTINGS.dateFormat,
+    weekStart: settings.weekStart === "sunday" ? 0 : 1,
+    locale: settings.locale.trim(),
+  };
+}
+
+/**
+ * Converte as configurações do plugin nas opções de exportação.
+ */
+export function exportOptionsFromSettings(settings: PropChartsSettings): ExportOptions {
+  return {
+    folder: settings.exportFolder.trim(),
+    copyEmbed: settings.exportCopyEmbed,
+  };
+}
+
+const PALETTE_NAMES: Record<string, string> = {
+  default: "Padrão",
+  colorblind: "Daltonismo (Okabe–Ito)",
+  pastel: "Pastel",
+  vivid: "Vívida",
+  custom: "Personalizada",
 };
 
 export class PropChartsSettingTab extends PluginSettingTab {
@@ -43,8 +117,11 @@ export class PropChartsSettingTab extends PluginSettingTab {
 
     // Pastas padrão
     new Setting(containerEl)
-      .setName("Pastas padrão")
-      .setDesc("Usadas quando o bloco não especificar source.paths.")
+      .setName("Pastas indexadas")
+      .setDesc(
+        "Uma pasta por linha. Só notas dentro delas são indexadas; use . para o cofre inteiro. " +
+          "Blocos chartnotes só veem essas notas: source.paths fora destas pastas não encontra nada."
+      )
       .addTextArea((text) => {
         text
           .setValue(this.plugin.settings.defaultPaths.join("\n"))
@@ -54,29 +131,33 @@ export class PropChartsSettingTab extends PluginSettingTab {
               .map((v: string) => v.trim())
               .filter((v: string) => v);
             await this.plugin.saveSettings();
+            this.plugin.requestReindex();
           });
       });
 
     // Limite de notas
     new Setting(containerEl)
       .setName("Limite de notas indexadas")
-      .setDesc("Evita travar em cofres gigantes.")
+      .setDesc("Evita travar em cofres gigantes. Acima do limite, ficam as notas modificadas mais recentemente.")
       .addText((text) => {
         text
           .setValue(String(this.plugin.settings.maxNotes))
           .onChange(async (value) => {
             const n = Number(value);
-            if (!Number.isNaN(n) && n > 0) {
+            if (Number.isInteger(n) && n > 0) {
               this.plugin.settings.maxNotes = n;
               await this.plugin.saveSettings();
+              this.plugin.requestReindex();
             }
           });
       });
 
-    // Inline fields (ainda não implementado de fato no indexer)
+    // Inline fields
     new Setting(containerEl)
       .setName("Ler inline fields (key:: value)")
-      .setDesc("Desmarque para máximo desempenho. (Requer reindex)")
+      .setDesc(
+        "Lê campos no corpo da nota, como em Dataview. O frontmatter tem precedência. Desmarque para máximo desempenho."
+      )
       .addToggle((toggle) => {
         toggle
           .setValue(this.plugin.settings.enableInlineFields)
@@ -84,10 +165,133 @@ export class PropChartsSettingTab extends PluginSettingTab {
             this.plugin.settings.enableInlineFields = value;
             await this.plugin.saveSettings();
             // reindex completo quando essa flag muda
-            if (this.plugin.indexer?.buildIndex) {
-              await this.plugin.indexer.buildIndex();
+            this.plugin.requestReindex();
+          });
+      });
+
+    // =========================================================================
+    // Padrões dos gráficos
+    // =========================================================================
+    containerEl.createEl("h3", { text: "Padrões dos gráficos" });
+
+    new Setting(containerEl)
+      .setName("Paleta de cores")
+      .setDesc("Cores das séries em todos os gráficos.")
+      .addDropdown((dropdown) => {
+        for (const [value, label] of Object.entries(PALETTE_NAMES)) {
+          dropdown.addOption(value, label);
+        }
+        dropdown
+          .setValue(this.plugin.settings.palette)
+          .onChange(async (value) => {
+            this.plugin.settings.palette = value;
+            await this.plugin.saveSettings();
+            // mostra/esconde o campo da paleta personalizada
+            this.display();
+          });
+      });
+
+    if (this.plugin.settings.palette === "custom") {
+      new Setting(containerEl)
+        .setName("Cores personalizadas")
+        .setDesc("Uma cor por linha (ex.: #5b6cff). Vazio usa a paleta padrão.")
+        .addTextArea((text) => {
+          text
+            .setPlaceholder(PALETTES.default.join("\n"))
+            .setValue(this.plugin.settings.customPalette.join("\n"))
+            .onChange(async (value) => {
+              this.plugin.settings.customPalette = value
+                .split("\n")
+                .map((v: string) => v.trim())
+                .filter((v: string) => v);
+              await this.plugin.saveSettings();
+            });
+        });
+    }
+
+    new Setting(containerEl)
+      .setName("Altura dos gráficos")
+      .setDesc("Altura padrão em pixels.")
+      .addText((text) => {
+        text
+          .setValue(String(this.plugin.settings.chartHeight))
+          .onChange(async (value) => {
+            const n = Number(value);
+            if (Number.isFinite(n) && n >= 100) {
+              this.plugin.settings.chartHeight = Math.round(n);
+              await this.plugin.saveSettings();
             }
           });
       });
+
+    new Setting(containerEl)
+      .setName("Formato de data")
+      .setDesc("Tokens: YYYY, YY, MMMM, MMM, MM, M, DD, D. Texto entre [colchetes] é mantido.")
+      .addText((text) => {
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.dateFormat)
+          .setValue(this.plugin.settings.dateFormat)
+          .onChange(async (value) => {
+            this.plugin.settings.dateFormat = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName("Início da semana")
+      .setDesc("Usado ao agrupar datas por semana.")
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption("monday", "Segunda-feira")
+          .addOption("sunday", "Domingo")
+          .setValue(this.plugin.settings.weekStart)
+          .onChange(async (value) => {
+            this.plugin.settings.weekStart = value === "sunday" ? "sunday" : "monday";
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName("Locale")
+      .setDesc("Formato de números e nomes de meses (ex.: pt-BR, en-US). Vazio = números simples.")
+      .addText((text) => {
+        text
+          .setPlaceholder("pt-BR")
+          .setValue(this.plugin.settings.locale)
+          .onChange(async (value) => {
+            this.plugin.settings.locale = value.trim();
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // =========================================================================
+    // Exportação
+    // =========================================================================
+    containerEl.createEl("h3", { text: "Exportação" });
+
+    new Setting(containerEl)
+      .setName("Pasta de exportação")
+      .setDesc("Onde salvar os SVG/PNG exportados. Vazio usa a pasta de anexos do Obsidian.")
+      .addText((text) => {
+        text
+          .setPlaceholder("Attachments/Charts")
+          .setValue(this.plugin.settings.exportFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.exportFolder = value.trim();
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName("Copiar embed ao exportar")
+      .setDesc("Copia ![[arquivo]] para a área de transferência, pronto para colar numa nota.")
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.exportCopyEmbed)
+          .onChange(async (value) => {
+            this.plugin.settings.exportCopyEmbed = value;
+            await this.plugin.saveSettings();
+          });
+      });
   }
 }
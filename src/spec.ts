@@ -0,0 +1,152 @@
+/**
+ * Chart Spec Parsing
+ *
+ * Validates and normalizes the object parsed from a ```chartnotes code block
+ * into a ChartSpec that the query engine and renderer understand.
+ */
+
+import type { ChartSpec, ChartType } from "./types";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const BLOCK_CHART_TYPES: ChartType[] = [
+	"bar",
+	"stacked-bar",
+	"line",
+	"stacked-area",
+	"pie",
+	"scatter",
+	"gantt",
+	"table",
+];
+
+const AGGREGATE_Y_MODES = ["sum", "avg", "min", "max", "count"] as const;
+
+type AggregateYMode = (typeof AGGREGATE_Y_MODES)[number];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+	return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Accepts a single value or a list and returns a list of non-empty strings.
+ */
+function toStringList(value: unknown): string[] | undefined {
+	if (value == null) return undefined;
+	const list = Array.isArray(value) ? value : [value];
+	const result = list
+		.filter((v) => v != null)
+		.map((v) => String(v).trim())
+		.filter((v) => v.length > 0);
+	return result.length ? result : undefined;
+}
+
+// ============================================================================
+// Spec Parser
+// ============================================================================
+
+/**
+ * Normalizes a parsed YAML object into a ChartSpec.
+ *
+ * Accepts shorthands that are convenient to write by hand:
+ * - `source.paths`, `source.tags` and `source.where` may be a single string
+ * - tags may be written with or without the leading "#"
+ *
+ * @param raw - Object parsed from the code block YAML
+ * @returns Normalized chart specification
+ * @throws Error with a user-facing message if the spec is invalid
+ */
+export function parseChartSpec(raw: unknown): ChartSpec {
+	if (!isPlainObject(raw)) {
+		throw new Error("The block must be a YAML object with at least `type` and `encoding`.");
+	}
+
+	const type = String(raw.type ?? "").trim().toLowerCase() as ChartType;
+	if (type === "metric") {
+		throw new Error("Indicator widgets (type: metric) are only available in Bases views.");
+	}
+	if (!BLOCK_CHART_TYPES.includes(type)) {
+		throw new Error(
+			`Unknown chart type "${String(raw.type ?? "")}". Use one of: ${BLOCK_CHART_TYPES.join(", ")}.`
+		);
+	}
+
+	const spec: ChartSpec = { type, encoding: {} };
+
+	// Source
+	if (raw.source != null) {
+		if (!isPlainObject(raw.source)) {
+			throw new Error("`source` must be an object (paths, tags, where).");
+		}
+		const tags = toStringList(raw.source.tags)?.map((t) => t.replace(/^#/, ""));
+		spec.source = {
+			paths: toStringList(raw.source.paths),
+			tags,
+			where: toStringList(raw.source.where),
+		};
+	}
+
+	// Encoding
+	if (raw.encoding != null) {
+		if (!isPlainObject(raw.encoding)) {
+			throw new Error("`encoding` must be an object (x, y, series...).");
+		}
+		const encoding: Record<string, string> = {};
+		for (const [key, value] of Object.entries(raw.encoding)) {
+			if (value == null || String(value).trim() === "") continue;
+			encoding[key] = String(value).trim();
+		}
+		spec.encoding = encoding as ChartSpec["encoding"];
+	}
+
+	// Aggregate
+	if (raw.aggregate != null) {
+		if (!isPlainObject(raw.aggregate)) {
+			throw new Error("`aggregate` must be an object (y, cumulative, rolling).");
+		}
+		const aggregate: NonNullable<ChartSpec["aggregate"]> = {};
+		if (raw.aggregate.y != null) {
+			const mode = String(raw.aggregate.y).trim().toLowerCase() as AggregateYMode;
+			if (!AGGREGATE_Y_MODES.includes(mode)) {
+				throw new Error(
+					`Invalid aggregate.y "${String(raw.aggregate.y)}". Use one of: ${AGGREGATE_Y_MODES.join(", ")}.`
+				);
+			}
+			aggregate.y = mode;
+		}
+		if (raw.aggregate.cumulative != null) {
+			aggregate.cumulative = raw.aggregate.cumulative === true || raw.aggregate.cumulative === "true";
+		}
+		if (raw.aggregate.rolling != null) {
+			aggregate.rolling = raw.aggregate.rolling;
+		}
+		spec.aggregate = aggregate;
+	}
+
+	// Sort
+	if (raw.sort != null) {
+		const direction = String(isPlainObject(raw.sort) ? raw.sort.x ?? "" : raw.sort)
+			.trim()
+			.toLowerCase();
+		if (direction !== "asc" && direction !== "desc") {
+			throw new Error('`sort.x` must be "asc" or "desc".');
+		}
+		spec.sort = { x: direction };
+	}
+
+	// Options (passed through to the renderer)
+	if (raw.options != null) {
+		if (!isPlainObject(raw.options)) {
+			throw new Error("`options` must be an object (title, background, drilldown...).");
+		}
+		spec.options = { ...raw.options };
+	}
+
+	return spec;
+}
@@ -23,6 +23,7 @@ export interface ChartSpec {
     x?: string;
     y?: string;
     series?: string;   // usado pra cor / séries em bar/line/scatter/etc.
+    size?: string;     // scatter: tamanho da bolha (área proporcional ao valor)
 
     // Gantt
     start?: string;    // campo início (data)
@@ -31,9 +32,16 @@ export interface ChartSpec {
     due?: string;      // campo de deadline, se existir
     label?: string;    // texto na coluna esquerda
     group?: string;    // NOVO: agrupar linhas (ex: projects)
+    dependsOn?: string; // lista de links para as tarefas predecessoras
+    progress?: string;  // % concluído (0–100, "40%" ou "3/5")
+    milestone?: string; // flag: desenha a tarefa como losango
+    baselineStart?: string; // início planejado (linha de base)
+    baselineEnd?: string;   // fim planejado (linha de base)
   };
   aggregate?: {
     y?: "sum" | "avg" | "min" | "max" | "count";
+    cumulative?: boolean;      // soma acumulada (line / stacked-area)
+    rolling?: number | string; // média móvel em N pontos (line / stacked-area)
   };
   sort?: {
     x?: "asc" | "desc";
@@ -43,20 +51,50 @@ export interface ChartSpec {
     background?: string;
     drilldown?: boolean;
     tooltipFields?: string[]; // NOVO: campos extras no tooltip + modal
+    showRawSeries?: boolean;  // line/stacked-area: desenha a série original (rawY) atrás da suavizada
+    comparePeriod?: "none" | "previous" | "week" | "month" | "quarter" | "year"; // line: sobrepõe a série do período anterior (tracejada)
+    referenceLines?: string | Array<string | number | { value: number; label?: string; color?: string }>; // bar/line: linhas de meta/limite, ex.: "40 Meta"
+    bands?: string | Array<string | { from?: number; to?: number; label?: string; color?: string }>; // bar/line: faixas de valor, ex.: "0..20 Baixo"
+    annotations?: string | Array<string | { date: string; label?: string; color?: string }>; // bar/line: marcos em datas, ex.: "2026-03-01 Release 2.0"
+    annotationProperty?: string; // propriedade de data das notas que viram anotações (padrão "annotation")
+    yearBuckets?: boolean;    // bar/line: X agrupado por ano, então "2026" é um ano (e não um número)
+    criticalPath?: boolean;   // gantt: destaca a cadeia de dependências mais longa
+    timeScale?: "auto" | "hour" | "day" | "week" | "month" | "quarter"; // gantt: escala do cabeçalho
+    nonWorkingDays?: string | string[]; // gantt: dias sombreados, ex.: "sat, sun, 2026-12-25"
+    loadPanel?: boolean;      // gantt: histograma de carga por raia, abaixo das tarefas
+    capacity?: string | number; // gantt: capacidade diária por raia, ex.: "8h" (padrão)
+    trendline?: "none" | "linear" | "log" | "poly2" | "poly3"; // scatter: linha de tendência (mínimos quadrados), com equação e R² na legenda
+    identityLine?: boolean;   // scatter: linha de referência y = x (estimado vs. realizado)
+    outliers?: boolean;       // scatter: destaca pontos fora de N desvios-padrão
+    outlierSigma?: number | string; // scatter: N desvios-padrão dos outliers (padrão 2)
+    tableAggregate?: string;  // tabela: operação dos valores (Bases), usada também nos totais
+    tablePercentile?: number; // tabela: percentil da operação "percentile"
     // Metric/Indicator widget options
+    metricMode?: "single" | "grid"; // metric: "grid" desenha um cartão por linha (vários indicadores)
     metricLabel?: string;
     metricLabelPosition?: string;
     metricDecimals?: string;
     metricPrefix?: string;
     metricSuffix?: string;
     metricColor?: string;
+    metricRules?: string;     // metric: regras em ordem, ex.: "> 5 red 🔥; > 0 orange; else green"
+    metricTrendDirection?: "up-good" | "up-bad" | "neutral"; // metric: cor da variação (subir é bom, ruim ou neutro)
   };
 }
 
 
+// anotação vertical numa data (opções do gráfico ou notas com data de anotação)
+export interface ChartAnnotation {
+  date: Date;
+  label: string;
+  color?: string;
+  note?: string; // nota de origem, aberta ao clicar
+}
+
 export interface IndexedNote {
   path: string;
   props: Record<string, any>;
+  inlineKeys?: string[]; // propriedades vindas de inline fields (valores repetidos somam em y)
 }
 
 export interface QueryResultRow {
@@ -65,91 +103,33 @@ export interface QueryResultRow {
   notes: string[];
   series?: string;
 
+  // scatter: valor do tamanho da bolha
+  size?: number;
+
+  // valor antes da suavização (média móvel / EMA), para desenhar a série original
+  rawY?: number;
+
+  // valor da mesma série um período antes (modo de comparação)
+  previousY?: number;
+
   // para gantt
   start?: Date;
   end?: Date;
   due?: Date;
+  dependsOn?: string[]; // links para as tarefas predecessoras
+  progress?: number;    // % concluído, de 0 a 100
+  milestone?: boolean;  // marco: desenhado como losango
+  baselineStart?: Date; // datas planejadas, para comparar com as reais
+  baselineEnd?: Date;
 
   // tabela
   props?: Record<string, any>;
+  bucket?: { values: number[]; distinct: string[]; count: number }; // valores brutos do balde, para os totais (média, mediana...)
 }
 
 export interface QueryResult {
   rows: QueryResultRow[];
   xField?: string;
   yField?: string;
+  annotations?: ChartAnnotation[]; // anotações vindas das notas da consulta
 }
-
-// SETTINGS (como você já tinha)
-import { App, PluginSettingTab, Setting } from "obsidian";
-
-export interface PropChartsSettings {
-  defaultPaths: string[];
-  maxNotes: number;
-  enableInlineFields: boolean;
-}
-export const DEFAULT_SETTINGS: PropChartsSettings = {
-  defaultPaths: ["."],
-  maxNotes: 20000,
-  enableInlineFields: false,
-};
-
-export class PropChartsSettingTab extends PluginSettingTab {
-  plugin: any;
-  constructor(app: App, plugin: any) {
-    super(app, plugin);
-    this.plugin = plugin;
-  }
-  display(): void {
-    const { containerEl } = this;
-    containerEl.empty();
-    containerEl.createEl("h2", { text: "Chart Notes" });
-
-    new Setting(containerEl)
-      .setName("Pastas padrão")
-      .setDesc("Usadas quando o bloco não especificar source.paths.")
-      .addTextArea((text) => {
-        text
-          .setValue(this.plugin.settings.defaultPaths.join("\n"))
-          .onChange(async (value) => {
-            this.plugin.settings.defaultPaths = value
-              .split("\n")
-              .map((v: string) => v.trim())
-              .filter((v: string) => v);
-            await this.plugin.saveSettings();
-          });
-      });
-
-    new Setting(containerEl)
-      .setName("Limite de notas indexadas")
-      .setDesc("Evita travar em cofres gigantes.")
-      .addText((text) => {
-        text
-          .setValue(String(this.plugin.settings.maxNotes))
-          .onChange(async (value) => {
-            const n = Number(value);
-            if (!Number.isNaN(n) && n > 0) {
-              this.plugin.settings.maxNotes = n;
-              await this.plugin.saveSettings();
-            }
-          });
-      });
-
-    new Setting(containerEl)
-      .setName("Ler inline fields (key:: value)")
-      .setDesc("Desmarque para máximo desempenho.")
-      .addToggle((toggle) => {
-        toggle
-          .setValue(this.plugin.settings.enableInlineFields)
-          .onChange(async (value) => {
-            this.plugin.settings.enableInlineFields = value;
-            await this.plugin.saveSettings();
-            // se quiser, depois implementamos fullReindex aqui
-            if (this.plugin.indexer?.buildIndex) {
-              await this.plugin.indexer.buildIndex();
-            }
-          });
-      });
-  }
-}
-
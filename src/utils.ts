@@ -1,31 +1,10 @@
 /**
  * Utility Functions
  * 
- * Provides helper functions for path matching, tag matching, date parsing,
- * and WHERE clause evaluation.
+ * Provides helper functions for path matching, tag matching and date parsing.
+ * WHERE clauses live in where.ts.
  */
 
-// ============================================================================
-// Types
-// ============================================================================
-
-export type Operator =
-	| "=="
-	| "!="
-	| ">"
-	| ">="
-	| "<"
-	| "<="
-	| "between";
-
-export interface ParsedCond {
-	field: string;
-	op: Operator;
-	value: any;
-	value2?: any;
-	valueType: "string" | "number" | "date";
-}
-
 // ============================================================================
 // Path Matching
 // ============================================================================
@@ -145,7 +124,7 @@ export function toDate(value: any): Date | null {
 // Date Helper Functions
 // ============================================================================
 
-function startOfDay(date: Date): Date {
+export function startOfDay(date: Date): Date {
 	const result = new Date(date);
 	result.setHours(0, 0, 0, 0);
 	return result;
@@ -267,240 +246,3 @@ export function resolveRelativeDate(token: string, now?: Date): Date | null {
 
 	return null;
 }
-
-// ============================================================================
-// WHERE Clause Parser
-// ============================================================================
-
-/**
- * Parses a WHERE clause expression into a structured condition.
- * 
- * Supports:
- * - Comparison operators: ==, !=, >, >=, <, <=
- * - Between operator: field between value1 and value2
- * 
- * @param expr - WHERE clause expression string
- * @returns Parsed condition object
- * @throws Error if expression is invalid
- */
-export function parseWhere(expr: string): ParsedCond {
-	const trimmed = expr.trim();
-
-	// Parse "between" operator
-	const betweenMatch = trimmed.match(
-		/^([a-zA-Z0-9_.-]+)\s+between\s+(.+)\s+and\s+(.+)$/i
-	);
-	if (betweenMatch) {
-		const field = betweenMatch[1].trim();
-		const value1Raw = betweenMatch[2].trim();
-		const value2Raw = betweenMatch[3].trim();
-		const isDateField = isDateFieldName(field);
-
-		const value1 = parseValueToken(value1Raw, isDateField);
-		const value2 = parseValueToken(value2Raw, isDateField);
-
-		const valueType =
-			value1.valueType === "date" || value2.valueType === "date"
-				? "date"
-				: value1.valueType;
-
-		return {
-			field,
-			op: "between",
-			value: value1.value,
-			value2: value2.value,
-			valueType,
-		};
-	}
-
-	// Parse comparison operators
-	const opRegex = /(==|!=|>=|<=|>|<)/;
-	const parts = trimmed.split(opRegex);
-	if (parts.length !== 3) {
-		throw new Error(`Invalid WHERE expression: ${expr}`);
-	}
-
-	const field = parts[0].trim();
-	const op = parts[1].trim() as ParsedCond["op"];
-	const valueToken = parts[2].trim();
-	const isDateField = isDateFieldName(field);
-
-	const parsed = parseValueToken(valueToken, isDateField);
-
-	return {
-		field,
-		op,
-		value: parsed.value,
-		valueType: parsed.valueType,
-	};
-}
-
-/**
- * Parses a value token from a WHERE clause.
- * 
- * Value parsing logic:
- * - If field IS a date field → "0", "today", "-7d", "+10d" become Date
- * - If field is NOT a date field → "0" becomes number, but "-7d" and "+10d" are still accepted as dates
- * 
- * @param token - Value token string
- * @param forceDate - Whether to force date parsing
- * @returns Parsed value and its type
- */
-function parseValueToken(
-	token: string,
-	forceDate: boolean
-): { value: any; valueType: ParsedCond["valueType"] } {
-	const trimmed = token.trim();
-
-	// Quoted string
-	if (
-		(trimmed.startsWith("'") && trimmed.endsWith("'")) ||
-		(trimmed.startsWith('"') && trimmed.endsWith('"'))
-	) {
-		const value = trimmed.slice(1, -1);
-		return { value, valueType: "string" };
-	}
-
-	const lower = trimmed.toLowerCase();
-	const looksRelative =
-		lower === "today" ||
-		lower === "yesterday" ||
-		lower.startsWith("-") ||
-		lower.startsWith("+");
-
-	// DATE FIELD → treat 0/today/relatives as date
-	if (forceDate) {
-		if (trimmed === "0" || lower === "today") {
-			return { value: startOfDay(new Date()), valueType: "date" };
-		}
-		const relative = resolveRelativeDate(trimmed);
-		if (relative) return { value: relative, valueType: "date" };
-	} else {
-		// Field is not a date, but user used -7d or +10d → probably wanted date
-		if (looksRelative) {
-			const relative = resolveRelativeDate(trimmed);
-			if (relative) return { value: relative, valueType: "date" };
-		}
-	}
-
-	// ISO date
-	if (looksLikeISODate(trimmed)) {
-		const date = toDate(trimmed);
-		if (date) return { value: date, valueType: "date" };
-	}
-
-	// Number
-	const num = Number(trimmed);
-	if (!Number.isNaN(num)) {
-		return { value: num, valueType: "number" };
-	}
-
-	// Fallback: string
-	return { value: trimmed, valueType: "string" };
-}
-
-// ============================================================================
-// Condition Evaluation
-// ============================================================================
-
-/**
- * Evaluates a parsed condition against note properties.
- * 
- * @param props - Note properties object
- * @param cond - Parsed condition
- * @returns True if condition matches
- */
-export function evalCond(
-	props: Record<string, any>,
-	cond: ParsedCond
-): boolean {
-	const leftRaw = props[cond.field];
-	if (leftRaw == null) return false;
-
-	// Date comparisons
-	if (cond.valueType === "date") {
-		const leftDate =
-			leftRaw instanceof Date
-				? startOfDay(leftRaw)
-				: looksLikeISODate(leftRaw)
-				? startOfDay(toDate(leftRaw)!)
-				: null;
-
-		if (!leftDate) return false;
-
-		const rightDate = cond.value instanceof Date ? cond.value : null;
-		const rightDate2 = cond.value2 instanceof Date ? cond.value2 : null;
-		if (!rightDate) return false;
-
-		const leftTimestamp = leftDate.getTime();
-		const rightTimestamp = startOfDay(rightDate).getTime();
-
-		switch (cond.op) {
-			case "==":
-				return leftTimestamp === rightTimestamp;
-			case "!=":
-				return leftTimestamp !== rightTimestamp;
-			case ">":
-				return leftTimestamp > rightTimestamp;
-			case ">=":
-				return leftTimestamp >= rightTimestamp;
-			case "<":
-				return leftTimestamp < rightTimestamp;
-			case "<=":
-				return leftTimestamp <= rightTimestamp;
-			case "between":
-				if (!rightDate2) return false;
-				const toTimestamp = startOfDay(rightDate2).getTime();
-				return (
-					leftTimestamp >= rightTimestamp &&
-					leftTimestamp <= toTimestamp
-				);
-		}
-	}
-
-	// Number comparisons
-	if (cond.valueType === "number") {
-		const leftNum = Number(leftRaw);
-		if (isNaN(leftNum)) return false;
-		const rightNum = Number(cond.value);
-		switch (cond.op) {
-			case "==":
-				return leftNum === rightNum;
-			case "!=":
-				return leftNum !== rightNum;
-			case ">":
-				return leftNum > rightNum;
-			case ">=":
-				return leftNum >= rightNum;
-			case "<":
-				return leftNum < rightNum;
-			case "<=":
-				return leftNum <= rightNum;
-			case "between":
-				if (typeof cond.value2 !== "number") return false;
-				return leftNum >= rightNum && leftNum <= cond.value2;
-		}
-	}
-
-	// String comparisons
-	const leftStr = String(leftRaw);
-	const rightStr = String(cond.value);
-	switch (cond.op) {
-		case "==":
-			return leftStr === rightStr;
-		case "!=":
-			return leftStr !== rightStr;
-		case ">":
-			return leftStr > rightStr;
-		case ">=":
-			return leftStr >= rightStr;
-		case "<":
-			return leftStr < rightStr;
-		case "<=":
-			return leftStr <= rightStr;
-		case "between":
-			return false; // Between not supported for strings
-	}
-
-	return false;
-}
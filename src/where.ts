@@ -0,0 +1,631 @@
+/**
+ * WHERE Expression Language
+ *
+ * Tokenizer, recursive-descent parser and evaluator for `source.where`
+ * conditions, e.g.:
+ *
+ *   status in (open, doing) and (priority >= 2 or tags contains urgent)
+ *
+ * Grammar (keywords are case-insensitive):
+ *
+ *   expr      := or
+ *   or        := and (("or" | "||") and)*
+ *   and       := unary (("and" | "&&") unary)*
+ *   unary     := ("not" | "!") unary | "(" expr ")" | condition
+ *   condition := field ("==" | "=" | "!=" | ">" | ">=" | "<" | "<=") value
+ *              | field "between" value "and" value
+ *              | field ["not"] "in" "(" value ("," value)* ")"
+ *              | field ["not"] "contains" value
+ *              | field ("=~" | "!~" | ["not"] "matches") (regex | string)
+ *              | field ("exists" | "missing")
+ */
+
+import {
+	isDateFieldName,
+	looksLikeISODate,
+	resolveRelativeDate,
+	startOfDay,
+	toDate,
+} from "./utils";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CompareOp = "==" | "!=" | ">" | ">=" | "<" | "<=";
+
+export type ValueType = "string" | "number" | "date";
+
+export interface WhereValue {
+	value: any;
+	valueType: ValueType;
+}
+
+export type WhereExpr =
+	| { kind: "and"; left: WhereExpr; right: WhereExpr }
+	| { kind: "or"; left: WhereExpr; right: WhereExpr }
+	| { kind: "not"; expr: WhereExpr }
+	| { kind: "compare"; field: string; op: CompareOp; value: any; valueType: ValueType }
+	| { kind: "between"; field: string; value: any; value2: any; valueType: ValueType }
+	| { kind: "in"; field: string; values: WhereValue[] }
+	| { kind: "contains"; field: string; value: WhereValue }
+	| { kind: "match"; field: string; regex: RegExp }
+	| { kind: "exists"; field: string };
+
+type TokenType = "word" | "string" | "regex" | "op" | "lparen" | "rparen" | "comma" | "eof";
+
+interface Token {
+	type: TokenType;
+	text: string;
+	/** 1-based column of the first character */
+	pos: number;
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+const OPERATORS = ["==", "!=", ">=", "<=", "=~", "!~", "&&", "||", ">", "<", "=", "!"];
+
+/** Characters that end a bare word (quotes only open a string at the start of a token) */
+const WORD_BREAK = /[\s(),<>=!~&|]/;
+
+function syntaxError(message: string, pos: number): Error {
+	return new Error(`${message} at position ${pos}`);
+}
+
+/**
+ * Splits an expression into tokens.
+ *
+ * A `/regex/flags` literal is only recognized right after `=~`, `!~` or
+ * `matches`, so paths and dates with slashes stay plain words elsewhere.
+ * Quotes inside a word (`O'Brien`) are part of it.
+ */
+function tokenize(input: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	const expectsRegex = () => {
+		const prev = tokens[tokens.length - 1];
+		if (!prev) return false;
+		if (prev.type === "op") return prev.text === "=~" || prev.text === "!~";
+		return prev.type === "word" && prev.text.toLowerCase() === "matches";
+	};
+
+	while (i < input.length) {
+		const ch = input[i];
+		const pos = i + 1;
+
+		if (/\s/.test(ch)) {
+			i++;
+			continue;
+		}
+
+		if (ch === "(") {
+			tokens.push({ type: "lparen", text: ch, pos });
+			i++;
+			continue;
+		}
+		if (ch === ")") {
+			tokens.push({ type: "rparen", text: ch, pos });
+			i++;
+			continue;
+		}
+		if (ch === ",") {
+			tokens.push({ type: "comma", text: ch, pos });
+			i++;
+			continue;
+		}
+
+		// Quoted string ('...' or "..."), backslash escapes the next character
+		if (ch === "'" || ch === '"') {
+			let value = "";
+			let j = i + 1;
+			while (j < input.length && input[j] !== ch) {
+				if (input[j] === "\\" && j + 1 < input.length) j++;
+				value += input[j];
+				j++;
+			}
+			if (j >= input.length) throw syntaxError("Unterminated string", pos);
+			tokens.push({ type: "string", text: value, pos });
+			i = j + 1;
+			continue;
+		}
+
+		// Regex literal
+		if (ch === "/" && expectsRegex()) {
+			let source = "";
+			let j = i + 1;
+			while (j < input.length && input[j] !== "/") {
+				if (input[j] === "\\" && j + 1 < input.length) {
+					source += input[j];
+					j++;
+				}
+				source += input[j];
+				j++;
+			}
+			if (j >= input.length) throw syntaxError("Unterminated regular expression", pos);
+			j++;
+			let flags = "";
+			while (j < input.length && /[a-z]/i.test(input[j])) {
+				flags += input[j];
+				j++;
+			}
+			tokens.push({ type: "regex", text: `${source}/${flags}`, pos });
+			i = j;
+			continue;
+		}
+
+		const op = OPERATORS.find((o) => input.startsWith(o, i));
+		if (op) {
+			tokens.push({ type: "op", text: op, pos });
+			i += op.length;
+			continue;
+		}
+		if (ch === "&" || ch === "|" || ch === "~") {
+			throw syntaxError(`Unexpected "${ch}"`, pos);
+		}
+
+		let j = i;
+		while (j < input.length && !WORD_BREAK.test(input[j])) j++;
+		tokens.push({ type: "word", text: input.slice(i, j), pos });
+		i = j;
+	}
+
+	tokens.push({ type: "eof", text: "", pos: input.length + 1 });
+	return tokens;
+}
+
+// ============================================================================
+// Value Parsing
+// ============================================================================
+
+/**
+ * Parses a value token from a WHERE clause.
+ *
+ * Value parsing logic:
+ * - If field IS a date field → "0", "today", "-7d", "+10d" become Date
+ * - If field is NOT a date field → "0" becomes number, but "-7d" and "+10d" are still accepted as dates
+ * - Quoted values are always strings
+ *
+ * @param token - Value token string (quotes included, if any)
+ * @param forceDate - Whether to force date parsing
+ * @returns Parsed value and its type
+ */
+export function parseValueToken(token: string, forceDate: boolean): WhereValue {
+	const trimmed = token.trim();
+
+	// Quoted string
+	if (
+		trimmed.length >= 2 &&
+		((trimmed.startsWith("'") && trimmed.endsWith("'")) ||
+			(trimmed.startsWith('"') && trimmed.endsWith('"')))
+	) {
+		return { value: trimmed.slice(1, -1), valueType: "string" };
+	}
+
+	const lower = trimmed.toLowerCase();
+	const looksRelative =
+		lower === "today" ||
+		lower === "yesterday" ||
+		lower.startsWith("-") ||
+		lower.startsWith("+");
+
+	// DATE FIELD → treat 0/today/relatives as date
+	if (forceDate) {
+		if (trimmed === "0" || lower === "today") {
+			return { value: startOfDay(new Date()), valueType: "date" };
+		}
+		const relative = resolveRelativeDate(trimmed);
+		if (relative) return { value: relative, valueType: "date" };
+	} else if (looksRelative) {
+		// Field is not a date, but user used -7d or +10d → probably wanted date
+		const relative = resolveRelativeDate(trimmed);
+		if (relative) return { value: relative, valueType: "date" };
+	}
+
+	// ISO date
+	if (looksLikeISODate(trimmed)) {
+		const date = toDate(trimmed);
+		if (date) return { value: date, valueType: "date" };
+	}
+
+	// Number
+	const num = Number(trimmed);
+	if (trimmed !== "" && !Number.isNaN(num)) {
+		return { value: num, valueType: "number" };
+	}
+
+	// Fallback: string
+	return { value: trimmed, valueType: "string" };
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+class WhereParser {
+	private tokens: Token[];
+	private index = 0;
+
+	constructor(private readonly input: string) {
+		this.tokens = tokenize(input);
+	}
+
+	parse(): WhereExpr {
+		if (this.peek().type === "eof") {
+			throw syntaxError("Empty condition", 1);
+		}
+		const expr = this.parseOr();
+		const rest = this.peek();
+		if (rest.type !== "eof") {
+			throw syntaxError(`Unexpected "${rest.text}"`, rest.pos);
+		}
+		return expr;
+	}
+
+	// ----- token helpers -----
+
+	private peek(offset = 0): Token {
+		return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+	}
+
+	private next(): Token {
+		const token = this.peek();
+		if (token.type !== "eof") this.index++;
+		return token;
+	}
+
+	private isKeyword(token: Token, keyword: string): boolean {
+		return token.type === "word" && token.text.toLowerCase() === keyword;
+	}
+
+	private isOp(token: Token, ...ops: string[]): boolean {
+		return token.type === "op" && ops.includes(token.text);
+	}
+
+	private describe(token: Token): string {
+		return token.type === "eof" ? "end of condition" : `"${token.text}"`;
+	}
+
+	// ----- boolean structure -----
+
+	private parseOr(): WhereExpr {
+		let left = this.parseAnd();
+		while (this.isKeyword(this.peek(), "or") || this.isOp(this.peek(), "||")) {
+			this.next();
+			left = { kind: "or", left, right: this.parseAnd() };
+		}
+		return left;
+	}
+
+	private parseAnd(): WhereExpr {
+		let left = this.parseUnary();
+		while (this.isKeyword(this.peek(), "and") || this.isOp(this.peek(), "&&")) {
+			this.next();
+			left = { kind: "and", left, right: this.parseUnary() };
+		}
+		return left;
+	}
+
+	private parseUnary(): WhereExpr {
+		const token = this.peek();
+		if (this.isKeyword(token, "not") || this.isOp(token, "!")) {
+			this.next();
+			return { kind: "not", expr: this.parseUnary() };
+		}
+		if (token.type === "lparen") {
+			this.next();
+			const expr = this.parseOr();
+			const close = this.next();
+			if (close.type !== "rparen") {
+				throw syntaxError(
+					`Expected ")" to close "(" from position ${token.pos}, found ${this.describe(close)}`,
+					close.pos
+				);
+			}
+			return expr;
+		}
+		return this.parseCondition();
+	}
+
+	// ----- conditions -----
+
+	private parseCondition(): WhereExpr {
+		const fieldToken = this.next();
+		if (fieldToken.type !== "word" && fieldToken.type !== "string") {
+			throw syntaxError(`Expected a property name, found ${this.describe(fieldToken)}`, fieldToken.pos);
+		}
+		const field = fieldToken.text;
+		const isDateField = isDateFieldName(field);
+
+		const opToken = this.next();
+
+		if (opToken.type === "op" && ["==", "=", "!=", ">", ">=", "<", "<="].includes(opToken.text)) {
+			const op = (opToken.text === "=" ? "==" : opToken.text) as CompareOp;
+			const parsed = this.parseValue(isDateField, opToken, true);
+			return { kind: "compare", field, op, value: parsed.value, valueType: parsed.valueType };
+		}
+
+		if (this.isOp(opToken, "=~", "!~")) {
+			const match: WhereExpr = { kind: "match", field, regex: this.parseRegex(opToken) };
+			return opToken.text === "!~" ? { kind: "not", expr: match } : match;
+		}
+
+		if (opToken.type === "word") {
+			const keyword = opToken.text.toLowerCase();
+
+			if (keyword === "exists") return { kind: "exists", field };
+			if (keyword === "missing") return { kind: "not", expr: { kind: "exists", field } };
+
+			if (keyword === "between") {
+				const low = this.parseValue(isDateField, opToken);
+				const andToken = this.next();
+				if (!this.isKeyword(andToken, "and")) {
+					throw syntaxError(`Expected "and" in between, found ${this.describe(andToken)}`, andToken.pos);
+				}
+				const high = this.parseValue(isDateField, andToken);
+				const valueType =
+					low.valueType === "date" || high.valueType === "date" ? "date" : low.valueType;
+				return { kind: "between", field, value: low.value, value2: high.value, valueType };
+			}
+
+			const negated = keyword === "not";
+			const actualToken = negated ? this.next() : opToken;
+			const actual = actualToken.text.toLowerCase();
+
+			let expr: WhereExpr | null = null;
+			if (actualToken.type === "word" && actual === "in") {
+				expr = { kind: "in", field, values: this.parseList(isDateField, actualToken) };
+			} else if (actualToken.type === "word" && actual === "contains") {
+				expr = { kind: "contains", field, value: this.parseValue(false, actualToken) };
+			} else if (actualToken.type === "word" && actual === "matches") {
+				expr = { kind: "match", field, regex: this.parseRegex(actualToken) };
+			}
+
+			if (expr) return negated ? { kind: "not", expr } : expr;
+			if (negated) {
+				throw syntaxError(
+					`Expected "in", "contains" or "matches" after "not", found ${this.describe(actualToken)}`,
+					actualToken.pos
+				);
+			}
+		}
+
+		throw syntaxError(`Expected an operator after "${field}", found ${this.describe(opToken)}`, opToken.pos);
+	}
+
+	/**
+	 * Reads a value: a quoted string or a bare word. With `multiWord` (after a
+	 * comparison operator) a run of bare words up to the next "and" / "or",
+	 * operator or ")" is one value, e.g. `status == in progress`.
+	 */
+	private parseValue(isDateField: boolean, after: Token, multiWord = false): WhereValue {
+		const token = this.next();
+		if (token.type === "string") return { value: token.text, valueType: "string" };
+		if (token.type === "word") {
+			let last = token;
+			while (
+				multiWord &&
+				this.peek().type === "word" &&
+				!this.isKeyword(this.peek(), "and") &&
+				!this.isKeyword(this.peek(), "or")
+			) {
+				last = this.next();
+			}
+			const text = this.input.slice(token.pos - 1, last.pos - 1 + last.text.length);
+			return parseValueToken(text, isDateField);
+		}
+		throw syntaxError(`Expected a value after "${after.text}", found ${this.describe(token)}`, token.pos);
+	}
+
+	private parseList(isDateField: boolean, inToken: Token): WhereValue[] {
+		const open = this.next();
+		if (open.type !== "lparen") {
+			throw syntaxError(`Expected "(" after "${inToken.text}", found ${this.describe(open)}`, open.pos);
+		}
+		const values: WhereValue[] = [];
+		let previous = open;
+		for (;;) {
+			values.push(this.parseValue(isDateField, previous));
+			const sep = this.next();
+			previous = sep;
+			if (sep.type === "rparen") return values;
+			if (sep.type !== "comma") {
+				throw syntaxError(`Expected "," or ")" in list, found ${this.describe(sep)}`, sep.pos);
+			}
+		}
+	}
+
+	private parseRegex(opToken: Token): RegExp {
+		const token = this.next();
+		let source: string;
+		let flags = "";
+		if (token.type === "regex") {
+			const slash = token.text.lastIndexOf("/");
+			source = token.text.slice(0, slash);
+			flags = token.text.slice(slash + 1);
+		} else if (token.type === "string" || token.type === "word") {
+			source = token.text;
+		} else {
+			throw syntaxError(
+				`Expected a pattern after "${opToken.text}", found ${this.describe(token)}`,
+				token.pos
+			);
+		}
+		try {
+			return new RegExp(source, flags);
+		} catch (e) {
+			throw syntaxError(`Invalid regular expression (${(e as Error).message})`, token.pos);
+		}
+	}
+}
+
+/**
+ * Parses a WHERE expression into an expression tree.
+ *
+ * @param expr - WHERE expression string
+ * @returns Parsed expression
+ * @throws Error with the (1-based) position of the problem if the expression is invalid
+ */
+export function parseWhere(expr: string): WhereExpr {
+	return new WhereParser(expr).parse();
+}
+
+/**
+ * Property names used by an expression, in order of first use.
+ */
+export function whereFields(expr: WhereExpr): string[] {
+	const fields: string[] = [];
+	const visit = (e: WhereExpr) => {
+		switch (e.kind) {
+			case "and":
+			case "or":
+				visit(e.left);
+				visit(e.right);
+				return;
+			case "not":
+				visit(e.expr);
+				return;
+			default:
+				if (!fields.includes(e.field)) fields.push(e.field);
+		}
+	};
+	visit(expr);
+	return fields;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function isEmptyValue(value: any): boolean {
+	if (value == null) return true;
+	if (typeof value === "string") return value.trim() === "";
+	if (Array.isArray(value)) return value.length === 0;
+	return false;
+}
+
+/**
+ * Compares a single property value against a parsed value.
+ */
+function compareScalar(
+	leftRaw: any,
+	op: CompareOp | "between",
+	value: any,
+	value2: any,
+	valueType: ValueType
+): boolean {
+	if (leftRaw == null) return false;
+
+	// Date comparisons
+	if (valueType === "date") {
+		const leftDate =
+			leftRaw instanceof Date
+				? startOfDay(leftRaw)
+				: looksLikeISODate(leftRaw)
+				? startOfDay(toDate(leftRaw)!)
+				: null;
+		if (!leftDate || !(value instanceof Date)) return false;
+
+		const left = leftDate.getTime();
+		const right = startOfDay(value).getTime();
+		if (op === "between") {
+			if (!(value2 instanceof Date)) return false;
+			return left >= right && left <= startOfDay(value2).getTime();
+		}
+		return compareOrdered(left, op, right);
+	}
+
+	// Number comparisons
+	if (valueType === "number") {
+		const left = Number(leftRaw);
+		if (typeof leftRaw === "boolean" || Number.isNaN(left)) return false;
+		if (op === "between") {
+			if (typeof value2 !== "number") return false;
+			return left >= value && left <= value2;
+		}
+		return compareOrdered(left, op, Number(value));
+	}
+
+	// String comparisons (between is not supported for strings)
+	if (op === "between") return false;
+	return compareOrdered(String(leftRaw), op, String(value));
+}
+
+function compareOrdered<T extends number | string>(left: T, op: CompareOp, right: T): boolean {
+	switch (op) {
+		case "==":
+			return left === right;
+		case "!=":
+			return left !== right;
+		case ">":
+			return left > right;
+		case ">=":
+			return left >= right;
+		case "<":
+			return left < right;
+		case "<=":
+			return left <= right;
+	}
+}
+
+/** Tags may be stored with or without "#"; compare them without it. */
+function stripHash(value: string): string {
+	return value.startsWith("#") ? value.slice(1) : value;
+}
+
+/**
+ * Evaluates a parsed WHERE expression against note properties.
+ *
+ * List properties (e.g. tags) match when any element matches; `!=` matches
+ * only when no element is equal. A missing property fails every comparison,
+ * so `not (x == 1)` and `x != 1` differ for notes without `x`.
+ *
+ * @param props - Note properties object
+ * @param expr - Parsed expression
+ * @returns True if the note matches
+ */
+export function evalWhere(props: Record<string, any>, expr: WhereExpr): boolean {
+	switch (expr.kind) {
+		case "and":
+			return evalWhere(props, expr.left) && evalWhere(props, expr.right);
+		case "or":
+			return evalWhere(props, expr.left) || evalWhere(props, expr.right);
+		case "not":
+			return !evalWhere(props, expr.expr);
+		case "exists":
+			return !isEmptyValue(props[expr.field]);
+	}
+
+	const raw = props[expr.field];
+	if (raw == null) return false;
+	const items: any[] = Array.isArray(raw) ? raw : [raw];
+
+	switch (expr.kind) {
+		case "compare":
+			if (expr.op === "!=" && Array.isArray(raw)) {
+				return items.every((item) => compareScalar(item, "!=", expr.value, undefined, expr.valueType));
+			}
+			return items.some((item) => compareScalar(item, expr.op, expr.value, undefined, expr.valueType));
+		case "between":
+			return items.some((item) => compareScalar(item, "between", expr.value, expr.value2, expr.valueType));
+		case "in":
+			return items.some((item) =>
+				expr.values.some((v) => compareScalar(item, "==", v.value, undefined, v.valueType))
+			);
+		case "contains": {
+			const needle = String(expr.value.value);
+			if (Array.isArray(raw)) {
+				return items.some((item) => item != null && stripHash(String(item)) === stripHash(needle));
+			}
+			return String(raw).toLowerCase().includes(needle.toLowerCase());
+		}
+		case "match":
+			return items.some((item) => {
+				if (item == null) return false;
+				expr.regex.lastIndex = 0;
+				return expr.regex.test(item instanceof Date ? item.toISOString() : String(item));
+			});
+	}
+}
@@ -0,0 +1,86 @@
+/**
+ * Tests for per-bucket value accumulators (Bases aggregation modes)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+	accumulate,
+	aggregateLabel,
+	createAccumulator,
+	finalizeAccumulator,
+	percentile,
+} from "../src/aggregate";
+
+function bucketOf(values: number[]) {
+	const acc = createAccumulator();
+	for (const v of values) accumulate(acc, v);
+	return acc;
+}
+
+describe("finalizeAccumulator", () => {
+	const acc = bucketOf([4, 1, 7, 2]);
+
+	it("should compute sum, count, avg, min and max", () => {
+		expect(finalizeAccumulator(acc, "sum")).toBe(14);
+		expect(finalizeAccumulator(acc, "count")).toBe(4);
+		expect(finalizeAccumulator(acc, "avg")).toBe(3.5);
+		expect(finalizeAccumulator(acc, "min")).toBe(1);
+		expect(finalizeAccumulator(acc, "max")).toBe(7);
+	});
+
+	it("should compute the median for even and odd counts", () => {
+		expect(finalizeAccumulator(acc, "median")).toBe(3);
+		expect(finalizeAccumulator(bucketOf([5, 1, 3]), "median")).toBe(3);
+	});
+
+	it("should compute the requested percentile", () => {
+		expect(finalizeAccumulator(bucketOf([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]), "percentile", 90)).toBe(10);
+		expect(finalizeAccumulator(acc, "percentile", 100)).toBe(7);
+	});
+
+	it("should count distinct values", () => {
+		const distinct = createAccumulator();
+		accumulate(distinct, null, ["ana", "bruno"]);
+		accumulate(distinct, null, ["ana"]);
+		accumulate(distinct, null, ["carla"]);
+		expect(finalizeAccumulator(distinct, "count-distinct")).toBe(3);
+		expect(finalizeAccumulator(distinct, "count")).toBe(3);
+	});
+
+	it("should return 0 for buckets without numeric values", () => {
+		const empty = createAccumulator();
+		expect(finalizeAccumulator(empty, "avg")).toBe(0);
+		expect(finalizeAccumulator(empty, "min")).toBe(0);
+		expect(finalizeAccumulator(empty, "median")).toBe(0);
+	});
+
+	it("should ignore NaN values but still count the note", () => {
+		const mixed = createAccumulator();
+		accumulate(mixed, 2);
+		accumulate(mixed, NaN);
+		expect(finalizeAccumulator(mixed, "avg")).toBe(2);
+		expect(finalizeAccumulator(mixed, "count")).toBe(2);
+	});
+});
+
+describe("percentile", () => {
+	it("should interpolate between ranks", () => {
+		expect(percentile([10, 20], 50)).toBe(15);
+		expect(percentile([10, 20, 30, 40], 25)).toBe(17.5);
+	});
+
+	it("should not reorder the input", () => {
+		const values = [3, 1, 2];
+		percentile(values, 50);
+		expect(values).toEqual([3, 1, 2]);
+	});
+});
+
+describe("aggregateLabel", () => {
+	it("should describe the aggregated value", () => {
+		expect(aggregateLabel("sum", "hours")).toBe("hours");
+		expect(aggregateLabel("avg", "hours")).toBe("avg(hours)");
+		expect(aggregateLabel("percentile", "hours", 75)).toBe("p75(hours)");
+		expect(aggregateLabel("count-distinct", "assignee")).toBe("distinct(assignee)");
+	});
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for chart annotations (reference lines, bands, date markers)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+	categoryPosition,
+	categoryStart,
+	extendValueDomain,
+	noteAnnotation,
+	parseDateAnnotations,
+	parseReferenceLines,
+	parseValueBands,
+	resolveAnnotations,
+} from "../src/chart-annotations";
+
+describe("parseReferenceLines", () => {
+	it("should read value, label and color from text", () => {
+		expect(parseReferenceLines("40 Target; 60: SLA limit #d9534f\n-5")).toEqual([
+			{ value: 40, label: "Target", color: undefined },
+			{ value: 60, label: "SLA limit", color: "#d9534f" },
+			{ value: -5, label: "", color: undefined },
+		]);
+	});
+
+	it("should accept lists of numbers, strings and objects", () => {
+		expect(parseReferenceLines([40, "7,5 Half", { value: "60", label: "Max", color: "red" }])).toEqual([
+			{ value: 40, label: "" },
+			{ value: 7.5, label: "Half", color: undefined },
+			{ value: 60, label: "Max", color: "red" },
+		]);
+	});
+
+	it("should skip entries without a value", () => {
+		expect(parseReferenceLines("Target; ; {}")).toEqual([]);
+		expect(parseReferenceLines(undefined)).toEqual([]);
+	});
+});
+
+describe("parseValueBands", () => {
+	it("should read closed and open ranges", () => {
+		expect(parseValueBands("0..20 Low; 80.. Overload #ff6b6b; ..-1 Negative")).toEqual([
+			{ from: 0, to: 20, label: "Low", color: undefined },
+			{ from: 80, to: Infinity, label: "Overload", color: "#ff6b6b" },
+			{ from: -Infinity, to: -1, label: "Negative", color: undefined },
+		]);
+	});
+
+	it("should accept dash ranges and swap reversed bounds", () => {
+		expect(parseValueBands(["20-10 Mid", { from: 5, label: "Above 5" }])).toEqual([
+			{ from: 10, to: 20, label: "Mid", color: undefined },
+			{ from: 5, to: Infinity, label: "Above 5", color: undefined },
+		]);
+	});
+});
+
+describe("parseDateAnnotations", () => {
+	it("should read dates with labels", () => {
+		const [release, freeze] = parseDateAnnotations(
+			"2026-03-01 Release 2.0; 2026-04-10 12:30: Code freeze #888"
+		);
+		expect(release.date).toEqual(new Date(2026, 2, 1));
+		expect(release.label).toBe("Release 2.0");
+		expect(freeze.date).toEqual(new Date(2026, 3, 10, 12, 30));
+		expect(freeze.label).toBe("Code freeze");
+		expect(freeze.color).toBe("#888");
+	});
+
+	it("should accept objects and skip invalid dates", () => {
+		const list = parseDateAnnotations([{ date: "2026-01-05", label: "Kickoff" }, "soon Launch"]);
+		expect(list).toEqual([{ date: new Date(2026, 0, 5), label: "Kickoff", color: undefined }]);
+	});
+});
+
+describe("noteAnnotation", () => {
+	it("should use the note name as label", () => {
+		expect(noteAnnotation("Releases/Release 2.0.md", "2026-03-01")).toEqual({
+			date: new Date(2026, 2, 1),
+			label: "Release 2.0",
+			note: "Releases/Release 2.0.md",
+		});
+	});
+
+	it("should ignore notes without a date", () => {
+		expect(noteAnnotation("a.md", "someday")).toBeNull();
+		expect(noteAnnotation("a.md", undefined)).toBeNull();
+	});
+});
+
+describe("resolveAnnotations", () => {
+	it("should merge option and note annotations", () => {
+		const fromNote = { date: new Date(2026, 1, 1), label: "Note" };
+		const result = resolveAnnotations({ referenceLines: "40", annotations: "2026-01-01 A" }, [fromNote]);
+		expect(result.lines).toHaveLength(1);
+		expect(result.bands).toEqual([]);
+		expect(result.dates.map((d) => d.label)).toEqual(["A", "Note"]);
+	});
+});
+
+describe("extendValueDomain", () => {
+	it("should include reference lines and finite band bounds", () => {
+		const annotations = resolveAnnotations({ referenceLines: "60; -10", bands: "80.. High" });
+		expect(extendValueDomain(0, 50, annotations)).toEqual({ min: -10, max: 80 });
+	});
+
+	it("should keep the domain without annotations", () => {
+		expect(extendValueDomain(2, 9, resolveAnnotations(undefined))).toEqual({ min: 2, max: 9 });
+	});
+});
+
+describe("categoryStart", () => {
+	it("should read dates and bucket keys", () => {
+		expect(categoryStart("2026-03-02")).toEqual(new Date(2026, 2, 2));
+		expect(categoryStart("2026-03-02 (W)")).toEqual(new Date(2026, 2, 2));
+		expect(categoryStart("2026-03")).toEqual(new Date(2026, 2, 1));
+		expect(categoryStart("2026-Q2")).toEqual(new Date(2026, 3, 1));
+		expect(categoryStart("2026", true)).toEqual(new Date(2026, 0, 1));
+		expect(categoryStart("2026-03-02T14:30")).toEqual(new Date(2026, 2, 2, 14, 30));
+		expect(categoryStart("done")).toBeNull();
+		expect(categoryStart("5")).toBeNull();
+	});
+
+	it("should read four-digit labels as years only for year buckets", () => {
+		expect(categoryStart("1000")).toBeNull();
+		expect(categoryPosition(["1000", "2000"], new Date(1500, 5, 1))).toBeNull();
+		expect(categoryPosition(["2025", "2026"], new Date(2026, 0, 1), true)).toBe(1);
+	});
+});
+
+describe("categoryPosition", () => {
+	const months = ["2026-01", "2026-02", "2026-03"];
+
+	it("should place a date inside its bucket", () => {
+		expect(categoryPosition(months, new Date(2026, 0, 1))).toBe(0);
+		expect(categoryPosition(months, new Date(2026, 1, 15))).toBeCloseTo(1.5, 1);
+		expect(categoryPosition(months, new Date(2026, 2, 1))).toBe(2);
+	});
+
+	it("should return null outside the buckets or for non-date categories", () => {
+		expect(categoryPosition(months, new Date(2025, 11, 31))).toBeNull();
+		expect(categoryPosition(months, new Date(2026, 5, 1))).toBeNull();
+		expect(categoryPosition(["todo", "done"], new Date(2026, 0, 1))).toBeNull();
+		expect(categoryPosition(["2026-03", "2026-01"], new Date(2026, 1, 1))).toBeNull();
+	});
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for global chart defaults (palette, number and date formatting)
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import {
+	PALETTES,
+	DEFAULT_H,
+	colorFor,
+	formatDatePattern,
+	formatDateShort,
+	formatNumber,
+	getChartDefaults,
+	resolvePalette,
+	setChartDefaults,
+} from "../src/renderer/renderer-common";
+
+const INITIAL = { ...getChartDefaults() };
+
+afterEach(() => {
+	setChartDefaults(INITIAL);
+});
+
+describe("resolvePalette", () => {
+	it("should return named palettes", () => {
+		expect(resolvePalette("colorblind")).toBe(PALETTES.colorblind);
+		expect(resolvePalette("unknown")).toBe(PALETTES.default);
+	});
+
+	it("should use custom colors and fall back when empty", () => {
+		expect(resolvePalette("custom", [" #111 ", "", "#222"])).toEqual(["#111", "#222"]);
+		expect(resolvePalette("custom", [])).toBe(PALETTES.default);
+	});
+});
+
+describe("setChartDefaults", () => {
+	it("should apply the palette to series colors", () => {
+		setChartDefaults({ palette: ["#000000"] });
+		expect(colorFor("anything", 0)).toBe("#000000");
+	});
+
+	it("should reject invalid heights, empty palettes and bad locales", () => {
+		setChartDefaults({ chartHeight: -5, palette: [], locale: "not a locale!" });
+		const defaults = getChartDefaults();
+		expect(defaults.chartHeight).toBe(DEFAULT_H);
+		expect(defaults.palette).toBe(PALETTES.default);
+		expect(defaults.locale).toBe("");
+	});
+});
+
+describe("formatNumber", () => {
+	it("should keep plain formatting without a locale", () => {
+		expect(formatNumber(1234)).toBe("1234");
+		expect(formatNumber(3.14159)).toBe("3.14");
+	});
+
+	it("should use the locale separators when set", () => {
+		setChartDefaults({ locale: "pt-BR" });
+		expect(formatNumber(1234.5)).toBe("1.234,50");
+		expect(formatNumber(1234)).toBe("1.234");
+	});
+});
+
+describe("formatDatePattern", () => {
+	const date = new Date(Date.UTC(2024, 2, 5));
+
+	it("should replace numeric tokens", () => {
+		expect(formatDatePattern(date, "DD/MM")).toBe("05/03");
+		expect(formatDatePattern(date, "YYYY-MM-DD")).toBe("2024-03-05");
+		expect(formatDatePattern(date, "D/M/YY")).toBe("5/3/24");
+	});
+
+	it("should use month names and keep bracketed text", () => {
+		expect(formatDatePattern(date, "D MMM")).toBe("5 Mar");
+		expect(formatDatePattern(date, "[week of] MMMM D")).toBe("week of March 5");
+	});
+
+	it("should return an empty string for invalid dates", () => {
+		expect(formatDatePattern(new Date("nope"), "DD/MM")).toBe("");
+	});
+
+	it("should follow the configured date format", () => {
+		setChartDefaults({ dateFormat: "MM-DD" });
+		expect(formatDateShort(date)).toBe("03-05");
+	});
+});
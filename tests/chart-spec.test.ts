@@ -0,0 +1,89 @@
+/**
+ * Tests for ```chartnotes code block spec parsing
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseChartSpec } from "../src/spec";
+
+describe("parseChartSpec", () => {
+	it("should parse a complete spec", () => {
+		const spec = parseChartSpec({
+			type: "line",
+			source: { paths: ["Projects/"], tags: ["task"], where: ["priority >= 2"] },
+			encoding: { x: "date", y: "hours", series: "project" },
+			aggregate: { y: "sum", cumulative: true },
+			sort: { x: "desc" },
+			options: { title: "Hours" },
+		});
+
+		expect(spec.type).toBe("line");
+		expect(spec.source).toEqual({
+			paths: ["Projects/"],
+			tags: ["task"],
+			where: ["priority >= 2"],
+		});
+		expect(spec.encoding).toEqual({ x: "date", y: "hours", series: "project" });
+		expect(spec.aggregate).toEqual({ y: "sum", cumulative: true });
+		expect(spec.sort).toEqual({ x: "desc" });
+		expect(spec.options?.title).toBe("Hours");
+	});
+
+	it("should accept single strings for source lists", () => {
+		const spec = parseChartSpec({
+			type: "bar",
+			source: { paths: "Daily/", tags: "#habit", where: "done == true" },
+			encoding: { x: "status" },
+		});
+
+		expect(spec.source?.paths).toEqual(["Daily/"]);
+		expect(spec.source?.tags).toEqual(["habit"]);
+		expect(spec.source?.where).toEqual(["done == true"]);
+	});
+
+	it("should normalize type case and stringify encoding values", () => {
+		const spec = parseChartSpec({ type: "Bar", encoding: { x: 2024, y: "" } });
+		expect(spec.type).toBe("bar");
+		expect(spec.encoding).toEqual({ x: "2024" });
+	});
+
+	it("should accept a plain sort direction", () => {
+		const spec = parseChartSpec({ type: "bar", encoding: { x: "a" }, sort: "asc" });
+		expect(spec.sort).toEqual({ x: "asc" });
+	});
+
+	it("should keep rolling as written", () => {
+		const spec = parseChartSpec({
+			type: "line",
+			encoding: { x: "date", y: "v" },
+			aggregate: { rolling: "7" },
+		});
+		expect(spec.aggregate?.rolling).toBe("7");
+	});
+
+	it("should reject non-object blocks", () => {
+		expect(() => parseChartSpec(null)).toThrow(/YAML object/);
+		expect(() => parseChartSpec("bar")).toThrow(/YAML object/);
+		expect(() => parseChartSpec([1, 2])).toThrow(/YAML object/);
+	});
+
+	it("should reject unknown and Bases-only chart types", () => {
+		expect(() => parseChartSpec({ type: "radar" })).toThrow(/Unknown chart type "radar"/);
+		expect(() => parseChartSpec({})).toThrow(/Unknown chart type/);
+		expect(() => parseChartSpec({ type: "metric" })).toThrow(/only available in Bases/);
+	});
+
+	it("should reject invalid aggregate and sort values", () => {
+		expect(() =>
+			parseChartSpec({ type: "bar", encoding: { x: "a" }, aggregate: { y: "median" } })
+		).toThrow(/Invalid aggregate.y "median"/);
+		expect(() =>
+			parseChartSpec({ type: "bar", encoding: { x: "a" }, sort: { x: "up" } })
+		).toThrow(/sort.x/);
+	});
+
+	it("should reject malformed sections", () => {
+		expect(() => parseChartSpec({ type: "bar", source: "Projects/" })).toThrow(/`source`/);
+		expect(() => parseChartSpec({ type: "bar", encoding: "x" })).toThrow(/`encoding`/);
+		expect(() => parseChartSpec({ type: "bar", options: [1] })).toThrow(/`options`/);
+	});
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for chart data export (CSV / Markdown table)
+ */
+
+import { describe, it, expect } from "vitest";
+import { chartDataTable, toCsv, toMarkdownTable } from "../src/renderer/data-export";
+import type { ChartSpec, QueryResult } from "../src/types";
+
+const barSpec = { type: "bar", encoding: { x: "status" } } as ChartSpec;
+const ganttSpec = { type: "gantt", encoding: {} } as ChartSpec;
+
+describe("chartDataTable", () => {
+	it("should list x, y and note count", () => {
+		const data: QueryResult = {
+			xField: "status",
+			rows: [
+				{ x: "done", y: 3, notes: ["a.md", "b.md", "c.md"] },
+				{ x: "todo", y: 0.1 + 0.2, notes: ["d.md"] },
+			],
+		};
+		expect(chartDataTable(barSpec, data)).toEqual({
+			headers: ["status", "y", "notes"],
+			rows: [
+				["done", "3", "3"],
+				["todo", "0.3", "1"],
+			],
+		});
+	});
+
+	it("should add a series column only when rows have one", () => {
+		const data: QueryResult = {
+			yField: "hours",
+			rows: [
+				{ x: new Date(2026, 0, 5), series: "Ana", y: 4, notes: ["a.md"] },
+				{ x: new Date(2026, 0, 5), y: 2, notes: [] },
+			],
+		};
+		const table = chartDataTable(barSpec, data);
+		expect(table.headers).toEqual(["x", "series", "hours", "notes"]);
+		expect(table.rows).toEqual([
+			["2026-01-05", "Ana", "4", "1"],
+			["2026-01-05", "", "2", "0"],
+		]);
+	});
+
+	it("should list Gantt tasks with dates and duration", () => {
+		const data: QueryResult = {
+			rows: [
+				{
+					x: "[[Projects/Design.md]]",
+					y: 0,
+					notes: ["Projects/Design.md"],
+					start: new Date(2026, 2, 2),
+					end: new Date(2026, 2, 4, 12, 0),
+					due: new Date(2026, 2, 6),
+				},
+			],
+		};
+		expect(chartDataTable(ganttSpec, data)).toEqual({
+			headers: ["label", "start", "end", "due", "duration (days)"],
+			rows: [["Design", "2026-03-02", "2026-03-04 12:00", "2026-03-06", "2.5"]],
+		});
+	});
+});
+
+describe("toCsv", () => {
+	it("should quote fields with commas, quotes and line breaks", () => {
+		const csv = toCsv({
+			headers: ["x", "y"],
+			rows: [
+				['Say "hi", all', "1"],
+				["two\nlines", "2"],
+			],
+		});
+		expect(csv).toBe('x,y\r\n"Say ""hi"", all",1\r\n"two\nlines",2\r\n');
+	});
+});
+
+describe("toMarkdownTable", () => {
+	it("should escape pipes and right-align number columns", () => {
+		const md = toMarkdownTable({
+			headers: ["x", "due", "y"],
+			rows: [
+				["a | b", "", "1.5"],
+				["c", "", ""],
+			],
+		});
+		expect(md).toBe(["| x | due | y |", "| --- | --- | ---: |", "| a \\| b |  | 1.5 |", "| c |  |  |"].join("\n"));
+	});
+});
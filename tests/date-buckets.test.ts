@@ -0,0 +1,112 @@
+/**
+ * Tests for date grouping (auto granularity and empty bucket enumeration)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+	bucketKey,
+	bucketStart,
+	enumerateBuckets,
+	resolveAutoBucket,
+	MAX_FILLED_BUCKETS,
+} from "../src/date-buckets";
+
+describe("bucketKey", () => {
+	const date = new Date(2024, 2, 15, 14, 30); // Friday, March 15, 2024
+
+	it("should format each granularity", () => {
+		expect(bucketKey(date, "day")).toBe("2024-03-15");
+		expect(bucketKey(date, "week")).toBe("2024-03-11 (W)");
+		expect(bucketKey(date, "month")).toBe("2024-03");
+		expect(bucketKey(date, "quarter")).toBe("2024-Q1");
+		expect(bucketKey(date, "year")).toBe("2024");
+	});
+
+	it("should start weeks on Monday", () => {
+		expect(bucketKey(new Date(2024, 2, 17), "week")).toBe("2024-03-11 (W)"); // Sunday
+		expect(bucketKey(new Date(2024, 2, 18), "week")).toBe("2024-03-18 (W)"); // Monday
+	});
+
+	it("should start weeks on Sunday when weekStart is 0", () => {
+		expect(bucketKey(new Date(2024, 2, 16), "week", 0)).toBe("2024-03-10 (W)"); // Saturday
+		expect(bucketKey(new Date(2024, 2, 17), "week", 0)).toBe("2024-03-17 (W)"); // Sunday
+		expect(enumerateBuckets(new Date(2024, 2, 10), new Date(2024, 2, 24), "week", 0)).toEqual([
+			"2024-03-10 (W)",
+			"2024-03-17 (W)",
+			"2024-03-24 (W)",
+		]);
+	});
+
+	it("should handle weeks crossing a year boundary", () => {
+		expect(bucketKey(new Date(2025, 0, 1), "week")).toBe("2024-12-30 (W)");
+	});
+
+	it("should use local midnight for bucket starts", () => {
+		const start = bucketStart(date, "quarter");
+		expect(start.getTime()).toBe(new Date(2024, 0, 1).getTime());
+	});
+});
+
+describe("resolveAutoBucket", () => {
+	const from = new Date(2024, 0, 1);
+	const plusDays = (days: number) => new Date(2024, 0, 1 + days);
+
+	it("should pick a granularity from the span", () => {
+		expect(resolveAutoBucket(from, from)).toBe("day");
+		expect(resolveAutoBucket(from, plusDays(45))).toBe("day");
+		expect(resolveAutoBucket(from, plusDays(46))).toBe("week");
+		expect(resolveAutoBucket(from, plusDays(180))).toBe("week");
+		expect(resolveAutoBucket(from, plusDays(365))).toBe("month");
+		expect(resolveAutoBucket(from, plusDays(4 * 365))).toBe("quarter");
+		expect(resolveAutoBucket(from, plusDays(10 * 365))).toBe("year");
+	});
+
+	it("should not depend on argument order", () => {
+		expect(resolveAutoBucket(plusDays(365), from)).toBe("month");
+	});
+});
+
+describe("enumerateBuckets", () => {
+	it("should list every bucket in the range, inclusive", () => {
+		expect(enumerateBuckets(new Date(2024, 0, 30), new Date(2024, 1, 2), "day")).toEqual([
+			"2024-01-30",
+			"2024-01-31",
+			"2024-02-01",
+			"2024-02-02",
+		]);
+		expect(enumerateBuckets(new Date(2023, 10, 20), new Date(2024, 1, 3), "month")).toEqual([
+			"2023-11",
+			"2023-12",
+			"2024-01",
+			"2024-02",
+		]);
+		expect(enumerateBuckets(new Date(2023, 7, 1), new Date(2024, 1, 1), "quarter")).toEqual([
+			"2023-Q3",
+			"2023-Q4",
+			"2024-Q1",
+		]);
+	});
+
+	it("should align partial weeks to Mondays", () => {
+		expect(enumerateBuckets(new Date(2024, 2, 14), new Date(2024, 2, 26), "week")).toEqual([
+			"2024-03-11 (W)",
+			"2024-03-18 (W)",
+			"2024-03-25 (W)",
+		]);
+	});
+
+	it("should match the keys produced by bucketKey across DST changes", () => {
+		const keys = enumerateBuckets(new Date(2024, 2, 1), new Date(2024, 10, 30), "day");
+		const last = new Date(2024, 10, 30);
+		expect(keys[keys.length - 1]).toBe(bucketKey(last, "day"));
+		expect(new Set(keys).size).toBe(keys.length);
+	});
+
+	it("should give up on ranges that are too large", () => {
+		const keys = enumerateBuckets(new Date(1900, 0, 1), new Date(2024, 0, 1), "day");
+		expect(keys).toEqual([]);
+		expect(enumerateBuckets(new Date(1900, 0, 1), new Date(2024, 0, 1), "year").length).toBeLessThan(
+			MAX_FILLED_BUCKETS
+		);
+	});
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for Gantt baseline vs. actual comparison
+ */
+
+import { describe, it, expect } from "vitest";
+import { baselineSlip, resolveBaseline, summarizeBaseline } from "../src/gantt-baseline";
+
+const HOUR = 60 * 60 * 1000;
+
+function at(y: number, m: number, d: number, h = 0): number {
+	return new Date(y, m - 1, d, h).getTime();
+}
+
+const actual = { start: at(2026, 3, 2), end: at(2026, 3, 6) };
+
+describe("resolveBaseline", () => {
+	it("should use both planned dates", () => {
+		expect(resolveBaseline(actual, new Date(at(2026, 3, 1)), new Date(at(2026, 3, 4)))).toEqual({
+			start: at(2026, 3, 1),
+			end: at(2026, 3, 4),
+		});
+	});
+
+	it("should keep the actual duration with a single planned date", () => {
+		const length = actual.end - actual.start;
+		expect(resolveBaseline(actual, new Date(at(2026, 2, 27)), null)).toEqual({
+			start: at(2026, 2, 27),
+			end: at(2026, 2, 27) + length,
+		});
+		expect(resolveBaseline(actual, undefined, new Date(at(2026, 3, 5)))).toEqual({
+			start: at(2026, 3, 5) - length,
+			end: at(2026, 3, 5),
+		});
+	});
+
+	it("should swap reversed dates and return null without any", () => {
+		expect(resolveBaseline(actual, new Date(at(2026, 3, 4)), new Date(at(2026, 3, 1)))).toEqual({
+			start: at(2026, 3, 1),
+			end: at(2026, 3, 4),
+		});
+		expect(resolveBaseline(actual, null, null)).toBeNull();
+		expect(resolveBaseline(actual, new Date("nope"), undefined)).toBeNull();
+	});
+});
+
+describe("baselineSlip", () => {
+	it("should measure slip in days", () => {
+		const planned = { start: at(2026, 3, 1), end: at(2026, 3, 4) };
+		expect(baselineSlip(actual, planned)).toEqual({ startDays: 1, endDays: 2 });
+		expect(baselineSlip(planned, actual)).toEqual({ startDays: -1, endDays: -2 });
+	});
+
+	it("should round to a tenth of a day", () => {
+		const planned = { start: actual.start, end: actual.end - 12 * HOUR };
+		expect(baselineSlip(actual, planned).endDays).toBe(0.5);
+	});
+});
+
+describe("summarizeBaseline", () => {
+	it("should count late and early tasks", () => {
+		const summary = summarizeBaseline([
+			{ startDays: 0, endDays: 2 },
+			{ startDays: 1, endDays: 3.5 },
+			{ startDays: 0, endDays: -1 },
+			{ startDays: 0, endDays: 0 },
+			null,
+		]);
+		expect(summary).toEqual({ planned: 4, late: 2, early: 1, maxSlipDays: 3.5 });
+	});
+
+	it("should be empty without baselines", () => {
+		expect(summarizeBaseline([null, null]).planned).toBe(0);
+	});
+});
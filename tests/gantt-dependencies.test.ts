@@ -0,0 +1,101 @@
+/**
+ * Tests for Gantt dependency resolution and critical path
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+	findCriticalPath,
+	linkKey,
+	parseDependsOn,
+	resolveDependencies,
+	type DependencyTask,
+} from "../src/gantt-dependencies";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function task(label: string, startDay: number, endDay: number, dependsOn: string[] = []): DependencyTask {
+	return { path: `Projects/${label}.md`, label, start: startDay * DAY, end: endDay * DAY, dependsOn };
+}
+
+describe("linkKey", () => {
+	it("should normalize links and paths to the note name", () => {
+		expect(linkKey("[[Projects/Design.md#Goals|the design]]")).toBe("design");
+		expect(linkKey("Projects/Design.md")).toBe("design");
+		expect(linkKey(" Design ")).toBe("design");
+	});
+});
+
+describe("parseDependsOn", () => {
+	it("should read lists, several links and comma-separated names", () => {
+		expect(parseDependsOn(["[[A]]", "[[B]]"])).toEqual(["[[A]]", "[[B]]"]);
+		expect(parseDependsOn("[[A]], [[B|Bee]]")).toEqual(["[[A]]", "[[B|Bee]]"]);
+		expect(parseDependsOn("A, B")).toEqual(["A", "B"]);
+		expect(parseDependsOn(null)).toEqual([]);
+		expect(parseDependsOn("")).toEqual([]);
+	});
+});
+
+describe("resolveDependencies", () => {
+	it("should create finish-to-start edges by note name or label", () => {
+		const tasks = [
+			task("Design", 0, 3),
+			task("Build", 3, 8, ["[[Design]]"]),
+			task("Test", 8, 10, ["Build", "[[Design]]"]),
+		];
+		const { edges, unresolved } = resolveDependencies(tasks);
+		expect(edges).toEqual([
+			{ from: 0, to: 1, violated: false },
+			{ from: 1, to: 2, violated: false },
+			{ from: 0, to: 2, violated: false },
+		]);
+		expect(unresolved).toEqual([]);
+	});
+
+	it("should flag tasks that start before a predecessor ends", () => {
+		const tasks = [task("Design", 0, 5), task("Build", 3, 8, ["[[Design]]"])];
+		expect(resolveDependencies(tasks).edges[0].violated).toBe(true);
+	});
+
+	it("should report unknown links and ignore self-references and duplicates", () => {
+		const tasks = [task("Design", 0, 3, ["[[Design]]", "[[Research]]"]), task("Build", 3, 5, ["Design", "[[Design]]"])];
+		const { edges, unresolved } = resolveDependencies(tasks);
+		expect(edges).toHaveLength(1);
+		expect(unresolved).toEqual([{ task: 0, target: "[[Research]]" }]);
+	});
+});
+
+describe("findCriticalPath", () => {
+	it("should follow the chain with the largest total duration", () => {
+		const tasks = [
+			task("Design", 0, 3),
+			task("Backend", 3, 13, ["Design"]),
+			task("Frontend", 3, 6, ["Design"]),
+			task("Release", 13, 14, ["Backend", "Frontend"]),
+		];
+		const { edges } = resolveDependencies(tasks);
+		const path = findCriticalPath(tasks, edges);
+		expect(path?.tasks).toEqual([0, 1, 3]);
+		expect(path?.edges.map((e) => [edges[e].from, edges[e].to])).toEqual([
+			[0, 1],
+			[1, 3],
+		]);
+		expect(path?.duration).toBe(14 * DAY);
+	});
+
+	it("should return null without dependencies", () => {
+		const tasks = [task("A", 0, 1), task("B", 1, 2)];
+		expect(findCriticalPath(tasks, [])).toBeNull();
+	});
+
+	it("should skip tasks caught in a cycle", () => {
+		const tasks = [
+			task("A", 0, 1, ["C"]),
+			task("B", 1, 2, ["A"]),
+			task("C", 2, 3, ["B"]),
+			task("X", 0, 2),
+			task("Y", 2, 3, ["X"]),
+		];
+		const { edges } = resolveDependencies(tasks);
+		expect(findCriticalPath(tasks, edges)?.tasks).toEqual([3, 4]);
+	});
+});
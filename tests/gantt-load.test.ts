@@ -0,0 +1,113 @@
+/**
+ * Tests for the Gantt load histogram (work per lane and bucket)
+ */
+
+import { describe, it, expect } from "vitest";
+import { computeLoad, parseCapacity } from "../src/gantt-load";
+import { parseNonWorkingDays } from "../src/gantt-scale";
+
+function at(y: number, m: number, d: number, h = 0): number {
+	return new Date(y, m - 1, d, h).getTime();
+}
+
+/** Day buckets from Monday 2 March 2026 to Sunday 8 March */
+const days = Array.from({ length: 7 }, (_, i) => ({
+	start: at(2026, 3, 2 + i),
+	end: at(2026, 3, 3 + i),
+}));
+const weekends = parseNonWorkingDays("sat, sun");
+
+describe("parseCapacity", () => {
+	it("should read hours and minutes per day", () => {
+		expect(parseCapacity("8h")).toBe(480);
+		expect(parseCapacity("7.5")).toBe(450);
+		expect(parseCapacity("6,5 hours")).toBe(390);
+		expect(parseCapacity("390m")).toBe(390);
+		expect(parseCapacity("6h/day")).toBe(360);
+		expect(parseCapacity(4)).toBe(240);
+	});
+
+	it("should reject unreadable values", () => {
+		expect(parseCapacity(undefined)).toBeNull();
+		expect(parseCapacity("")).toBeNull();
+		expect(parseCapacity("0h")).toBeNull();
+		expect(parseCapacity("lots")).toBeNull();
+	});
+});
+
+describe("computeLoad", () => {
+	it("should count tasks without estimate as full-time on working days", () => {
+		// Thursday → Monday (end exclusive): Thu, Fri, Sat, Sun
+		const load = computeLoad(
+			[{ lane: "Ana", start: at(2026, 3, 5), end: at(2026, 3, 9) }],
+			days,
+			weekends
+		);
+		expect(load.lanes[0].minutes).toEqual([0, 0, 0, 480, 480, 0, 0]);
+		expect(load.lanes[0].tasks).toEqual([0, 0, 0, 1, 1, 0, 0]);
+		expect(load.capacity).toEqual([480, 480, 480, 480, 480, 0, 0]);
+	});
+
+	it("should count the hours of short tasks", () => {
+		const load = computeLoad(
+			[{ lane: "Ana", start: at(2026, 3, 2, 9), end: at(2026, 3, 2, 11) }],
+			days,
+			weekends
+		);
+		expect(load.lanes[0].minutes[0]).toBe(120);
+	});
+
+	it("should count the first day when the buckets start partway through it", () => {
+		const buckets = [{ start: at(2026, 3, 2, 12), end: at(2026, 3, 3) }, ...days.slice(1, 3)];
+		const load = computeLoad(
+			[{ lane: "Ana", start: at(2026, 3, 2), end: at(2026, 3, 4) }],
+			buckets,
+			weekends
+		);
+		expect(load.lanes[0].minutes).toEqual([480, 480, 0]);
+		expect(load.lanes[0].tasks).toEqual([1, 1, 0]);
+		expect(load.capacity).toEqual([480, 480, 480]);
+	});
+
+	it("should spread the estimate over the working days", () => {
+		const load = computeLoad(
+			[{ lane: "Ana", start: at(2026, 3, 2), end: at(2026, 3, 6), effortMinutes: 600 }],
+			days,
+			weekends
+		);
+		expect(load.lanes[0].minutes.slice(0, 4)).toEqual([150, 150, 150, 150]);
+	});
+
+	it("should sum overlapping tasks per lane", () => {
+		const load = computeLoad(
+			[
+				{ lane: "Ana", start: at(2026, 3, 2), end: at(2026, 3, 4) },
+				{ lane: "Bruno", start: at(2026, 3, 3), end: at(2026, 3, 4) },
+				{ lane: "Ana", start: at(2026, 3, 3), end: at(2026, 3, 4), effortMinutes: 240 },
+			],
+			days,
+			weekends
+		);
+		expect(load.lanes.map((l) => l.lane)).toEqual(["Ana", "Bruno"]);
+		expect(load.lanes[0].minutes.slice(0, 2)).toEqual([480, 720]);
+		expect(load.lanes[0].tasks.slice(0, 2)).toEqual([1, 2]);
+		expect(load.lanes[1].minutes.slice(0, 2)).toEqual([0, 480]);
+	});
+
+	it("should sum days into wider buckets and use a custom capacity", () => {
+		const week = [{ start: at(2026, 3, 2), end: at(2026, 3, 9) }];
+		const load = computeLoad(
+			[{ lane: "Ana", start: at(2026, 3, 2), end: at(2026, 3, 9) }],
+			week,
+			weekends,
+			360
+		);
+		expect(load.lanes[0].minutes).toEqual([5 * 360]);
+		expect(load.capacity).toEqual([5 * 360]);
+	});
+
+	it("should ignore milestones", () => {
+		const load = computeLoad([{ lane: "Ana", start: at(2026, 3, 2), end: at(2026, 3, 2) }], days, weekends);
+		expect(load.lanes[0].minutes.every((m) => m === 0)).toBe(true);
+	});
+});
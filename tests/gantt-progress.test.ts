@@ -0,0 +1,55 @@
+/**
+ * Tests for Gantt progress and milestone parsing
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseMilestoneFlag, parseProgress } from "../src/gantt-progress";
+
+describe("parseProgress", () => {
+	it("should read percentages", () => {
+		expect(parseProgress(40)).toBe(40);
+		expect(parseProgress("75")).toBe(75);
+		expect(parseProgress("40%")).toBe(40);
+		expect(parseProgress(" 12.5 % ")).toBe(12.5);
+	});
+
+	it("should read done/total pairs", () => {
+		expect(parseProgress("3/5")).toBe(60);
+		expect(parseProgress("3 / 4")).toBe(75);
+		expect(parseProgress([1, 4])).toBe(25);
+		expect(parseProgress(["2", "8"])).toBe(25);
+		expect(parseProgress(["50"])).toBe(50);
+	});
+
+	it("should clamp to 0–100", () => {
+		expect(parseProgress(140)).toBe(100);
+		expect(parseProgress(-5)).toBe(0);
+		expect(parseProgress("7/5")).toBe(100);
+	});
+
+	it("should ignore values it can't read", () => {
+		expect(parseProgress(undefined)).toBeUndefined();
+		expect(parseProgress("")).toBeUndefined();
+		expect(parseProgress("half")).toBeUndefined();
+		expect(parseProgress("3/0")).toBeUndefined();
+		expect(parseProgress(true)).toBeUndefined();
+		expect(parseProgress([])).toBeUndefined();
+	});
+});
+
+describe("parseMilestoneFlag", () => {
+	it("should accept checkbox-like values", () => {
+		expect(parseMilestoneFlag(true)).toBe(true);
+		expect(parseMilestoneFlag("true")).toBe(true);
+		expect(parseMilestoneFlag("Yes")).toBe(true);
+		expect(parseMilestoneFlag(1)).toBe(true);
+		expect(parseMilestoneFlag([true])).toBe(true);
+	});
+
+	it("should treat anything else as not set", () => {
+		expect(parseMilestoneFlag(false)).toBe(false);
+		expect(parseMilestoneFlag("false")).toBe(false);
+		expect(parseMilestoneFlag(undefined)).toBe(false);
+		expect(parseMilestoneFlag("2026-03-01")).toBe(false);
+	});
+});
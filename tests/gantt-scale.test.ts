@@ -0,0 +1,132 @@
+/**
+ * Tests for the Gantt time-scale header (scale selection, labels, non-working days)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+	buildScaleHeader,
+	isTimeScaleMode,
+	limitScale,
+	minPlotWidth,
+	nonWorkingIntervals,
+	parseNonWorkingDays,
+	resolveAutoScale,
+	weekNumber,
+} from "../src/gantt-scale";
+
+function at(y: number, m: number, d: number, h = 0): number {
+	return new Date(y, m - 1, d, h).getTime();
+}
+
+describe("resolveAutoScale", () => {
+	it("should pick the finest scale whose labels fit", () => {
+		expect(resolveAutoScale(600)).toBe("hour");
+		expect(resolveAutoScale(30)).toBe("day");
+		expect(resolveAutoScale(6)).toBe("week");
+		expect(resolveAutoScale(2)).toBe("month");
+		expect(resolveAutoScale(0.1)).toBe("quarter");
+	});
+});
+
+describe("limitScale", () => {
+	it("should fall back to a coarser scale for long spans", () => {
+		expect(limitScale("hour", 3)).toBe("hour");
+		expect(limitScale("hour", 365)).toBe("day");
+		expect(limitScale("day", 800)).toBe("week");
+		expect(limitScale("quarter", 100000)).toBe("quarter");
+	});
+
+	it("should size the plot from the number of cells", () => {
+		expect(minPlotWidth("day", 30)).toBe(600);
+		expect(minPlotWidth("week", 70)).toBe(340);
+	});
+});
+
+describe("isTimeScaleMode", () => {
+	it("should accept only known scales", () => {
+		expect(isTimeScaleMode("auto")).toBe(true);
+		expect(isTimeScaleMode("quarter")).toBe(true);
+		expect(isTimeScaleMode("year")).toBe(false);
+		expect(isTimeScaleMode(undefined)).toBe(false);
+	});
+});
+
+describe("weekNumber", () => {
+	it("should follow ISO 8601 for Monday weeks", () => {
+		expect(weekNumber(new Date(2026, 0, 14))).toBe(3);
+		// 2021-01-01 (Friday) still belongs to week 53 of 2020
+		expect(weekNumber(new Date(2021, 0, 1))).toBe(53);
+		// 2024-12-30 (Monday) is already week 1 of 2025
+		expect(weekNumber(new Date(2024, 11, 30))).toBe(1);
+	});
+
+	it("should count Sunday weeks from the one containing January 1st", () => {
+		// 2023-01-01 is a Sunday
+		expect(weekNumber(new Date(2023, 0, 1), 0)).toBe(1);
+		expect(weekNumber(new Date(2023, 0, 8), 0)).toBe(2);
+		// 2025-12-28 (Sunday) starts the week containing 2026-01-01
+		expect(weekNumber(new Date(2025, 11, 28), 0)).toBe(1);
+	});
+});
+
+describe("buildScaleHeader", () => {
+	it("should put months over ISO weeks", () => {
+		const header = buildScaleHeader(at(2026, 1, 14), at(2026, 2, 3), "week");
+		expect(header.major.map((t) => t.label)).toEqual(["Jan 2026", "Feb 2026"]);
+		expect(header.minor.map((t) => t.label)).toEqual(["W03", "W04", "W05", "W06"]);
+		expect(header.minor[0].start).toBe(at(2026, 1, 12));
+		expect(header.minor[0].end).toBe(at(2026, 1, 19));
+	});
+
+	it("should put years over quarters and months", () => {
+		const quarters = buildScaleHeader(at(2025, 11, 10), at(2026, 5, 1), "quarter");
+		expect(quarters.major.map((t) => t.label)).toEqual(["2025", "2026"]);
+		expect(quarters.minor.map((t) => t.label)).toEqual(["Q4", "Q1", "Q2"]);
+
+		const months = buildScaleHeader(at(2026, 1, 20), at(2026, 3, 2), "month");
+		expect(months.minor.map((t) => t.label)).toEqual(["Jan", "Feb", "Mar"]);
+	});
+
+	it("should put days over hours and months over days", () => {
+		const hours = buildScaleHeader(at(2026, 3, 2, 22), at(2026, 3, 3, 2), "hour");
+		expect(hours.major.map((t) => t.label)).toEqual(["Mon 2 Mar", "Tue 3 Mar"]);
+		expect(hours.minor.map((t) => t.label)).toEqual(["22", "23", "00", "01"]);
+
+		const days = buildScaleHeader(at(2026, 2, 27), at(2026, 3, 2), "day");
+		expect(days.major.map((t) => t.label)).toEqual(["Feb 2026", "Mar 2026"]);
+		expect(days.minor.map((t) => t.label)).toEqual(["27", "28", "1"]);
+	});
+
+	it("should use the locale for month names", () => {
+		const header = buildScaleHeader(at(2026, 2, 1), at(2026, 2, 20), "week", 1, "pt-BR");
+		expect(header.major[0].label.toLowerCase()).toContain("fev");
+	});
+});
+
+describe("non-working days", () => {
+	it("should default to weekends", () => {
+		expect(parseNonWorkingDays(undefined)).toEqual({ weekdays: [0, 6], dates: [] });
+		expect(parseNonWorkingDays("")).toEqual({ weekdays: [0, 6], dates: [] });
+	});
+
+	it("should read weekday names and holiday dates", () => {
+		expect(parseNonWorkingDays("Friday, sat; 2026-12-25")).toEqual({
+			weekdays: [5, 6],
+			dates: ["2026-12-25"],
+		});
+		expect(parseNonWorkingDays(["sun", "2026-01-01"])).toEqual({
+			weekdays: [0],
+			dates: ["2026-01-01"],
+		});
+		expect(parseNonWorkingDays("none")).toEqual({ weekdays: [], dates: [] });
+	});
+
+	it("should list one interval per non-working day", () => {
+		const days = parseNonWorkingDays("sat, sun, 2026-03-04");
+		// Monday 2 March → Monday 9 March
+		const intervals = nonWorkingIntervals(at(2026, 3, 2), at(2026, 3, 9), days);
+		expect(intervals.map((i) => new Date(i.start).getDate())).toEqual([4, 7, 8]);
+		expect(intervals[1].end).toBe(at(2026, 3, 8));
+		expect(nonWorkingIntervals(at(2026, 3, 2), at(2026, 3, 9), parseNonWorkingDays("none"))).toEqual([]);
+	});
+});
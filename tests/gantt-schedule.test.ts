@@ -0,0 +1,116 @@
+/**
+ * Tests for Gantt drag & drop date math (snapping and frontmatter updates)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+	applyDrag,
+	formatTaskDate,
+	pickSnapUnit,
+	planDateUpdate,
+	snapTime,
+} from "../src/gantt-schedule";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+function at(y: number, m: number, d: number, h = 0, min = 0): number {
+	return new Date(y, m - 1, d, h, min).getTime();
+}
+
+describe("pickSnapUnit", () => {
+	it("should use finer grids for wider days", () => {
+		expect(pickSnapUnit(200)).toBe("hour");
+		expect(pickSnapUnit(40)).toBe("day");
+		expect(pickSnapUnit(3)).toBe("week");
+	});
+});
+
+describe("snapTime", () => {
+	it("should round to the nearest hour, day or week start", () => {
+		expect(snapTime(at(2024, 3, 5, 9, 40), "hour")).toBe(at(2024, 3, 5, 10));
+		expect(snapTime(at(2024, 3, 5, 9, 40), "day")).toBe(at(2024, 3, 5));
+		expect(snapTime(at(2024, 3, 5, 14), "day")).toBe(at(2024, 3, 6));
+		// Thursday → next Monday; Tuesday → previous Monday
+		expect(snapTime(at(2024, 3, 7, 13), "week")).toBe(at(2024, 3, 11));
+		expect(snapTime(at(2024, 3, 5), "week")).toBe(at(2024, 3, 4));
+		expect(snapTime(at(2024, 3, 5), "week", 0)).toBe(at(2024, 3, 3));
+	});
+});
+
+describe("applyDrag", () => {
+	const task = { start: at(2024, 3, 4, 9), end: at(2024, 3, 6, 17) };
+
+	it("should move by whole grid units keeping times and duration", () => {
+		expect(applyDrag(task, 2.4 * DAY, "move", "day")).toEqual({
+			start: at(2024, 3, 6, 9),
+			end: at(2024, 3, 8, 17),
+		});
+	});
+
+	it("should snap the dragged edge to the grid", () => {
+		expect(applyDrag(task, 1.2 * DAY, "end", "day")).toEqual({
+			start: task.start,
+			end: at(2024, 3, 8),
+		});
+		expect(applyDrag(task, -3 * HOUR - 10 * 60000, "start", "hour")).toEqual({
+			start: at(2024, 3, 4, 6),
+			end: task.end,
+		});
+	});
+
+	it("should keep at least one grid unit between start and end", () => {
+		const resized = applyDrag(task, -10 * DAY, "end", "day");
+		expect(resized.end - resized.start).toBe(DAY);
+	});
+});
+
+describe("planDateUpdate", () => {
+	const keys = { start: "start", end: "end", due: "due", duration: "timeEstimate" };
+	const before = { start: at(2024, 3, 4), end: at(2024, 3, 6) };
+	const moved = { start: at(2024, 3, 5), end: at(2024, 3, 7) };
+
+	it("should update the dates stored in the note", () => {
+		const front = { start: "2024-03-04", end: "2024-03-06" };
+		expect(planDateUpdate(front, keys, before, moved, "day")).toEqual({
+			start: "2024-03-05",
+			end: "2024-03-07",
+		});
+	});
+
+	it("should keep times when the note uses them or when snapping to hours", () => {
+		const front = { start: "2024-03-04T00:00", end: "2024-03-06" };
+		expect(planDateUpdate(front, keys, before, moved, "day")).toEqual({
+			start: "2024-03-05T00:00",
+			end: "2024-03-07",
+		});
+		expect(planDateUpdate({ start: "2024-03-04" }, keys, before, moved, "hour")).toEqual({
+			start: "2024-03-05T00:00",
+		});
+	});
+
+	it("should let derived edges follow when moving", () => {
+		const front = { start: "2024-03-04", timeEstimate: 2880 };
+		expect(planDateUpdate(front, keys, before, moved, "day")).toEqual({ start: "2024-03-05" });
+	});
+
+	it("should update the duration when resizing a derived edge", () => {
+		const front = { start: "2024-03-04", timeEstimate: 2880 };
+		const resized = { start: before.start, end: at(2024, 3, 7) };
+		expect(planDateUpdate(front, keys, before, resized, "day")).toEqual({ timeEstimate: 4320 });
+	});
+
+	it("should shift due-only tasks and refuse to resize them", () => {
+		const front = { due: "2024-03-06" };
+		expect(planDateUpdate(front, keys, before, moved, "day")).toEqual({ due: "2024-03-07" });
+		const resized = { start: before.start, end: at(2024, 3, 8) };
+		expect(planDateUpdate(front, keys, before, resized, "day")).toBeNull();
+	});
+});
+
+describe("formatTaskDate", () => {
+	it("should match the edit modal format", () => {
+		expect(formatTaskDate(at(2024, 3, 5, 9, 5), true)).toBe("2024-03-05T09:05");
+		expect(formatTaskDate(at(2024, 3, 5), false)).toBe("2024-03-05");
+	});
+});
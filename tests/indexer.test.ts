@@ -0,0 +1,242 @@
+/**
+ * Tests for the note indexer (rebuilds, incremental updates, batched notifications)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { TFile } from "obsidian";
+import { PropChartsIndexer } from "../src/indexer";
+import type { PropChartsSettings } from "../src/settings";
+
+interface FakeNote {
+	file: TFile;
+	frontmatter: Record<string, any> | null;
+	content: string;
+}
+
+function makeFile(path: string, mtime = 0): TFile {
+	return { path, extension: path.split(".").pop() ?? "", stat: { mtime } } as TFile;
+}
+
+/** Vault + metadata cache backed by a map; reads can be held to simulate slow I/O */
+function createApp() {
+	const notes = new Map<string, FakeNote>();
+	const heldReads: Array<() => void> = [];
+	let holdReads = false;
+
+	const app: any = {
+		vault: {
+			getMarkdownFiles: () =>
+				Array.from(notes.values())
+					.map((n) => n.file)
+					.filter((f) => f.extension === "md"),
+			getAbstractFileByPath: (path: string) => notes.get(path)?.file ?? null,
+			cachedRead: (file: TFile) => {
+				const read = () => notes.get(file.path)?.content ?? "";
+				if (!holdReads) return Promise.resolve(read());
+				return new Promise<string>((resolve) => heldReads.push(() => resolve(read())));
+			},
+		},
+		metadataCache: {
+			getFileCache: (file: TFile) => {
+				const fm = notes.get(file.path)?.frontmatter;
+				return fm ? { frontmatter: fm } : null;
+			},
+		},
+	};
+
+	return {
+		app,
+		add(path: string, frontmatter: Record<string, any> | null, content = "", mtime = 0) {
+			const file = makeFile(path, mtime);
+			notes.set(path, { file, frontmatter, content });
+			return file;
+		},
+		remove(path: string) {
+			notes.delete(path);
+		},
+		rename(oldPath: string, newPath: string) {
+			const note = notes.get(oldPath)!;
+			notes.delete(oldPath);
+			note.file.path = newPath;
+			notes.set(newPath, note);
+			return note.file;
+		},
+		hold(value: boolean) {
+			holdReads = value;
+		},
+		releaseReads() {
+			heldReads.splice(0).forEach((resolve) => resolve());
+		},
+	};
+}
+
+function settings(overrides: Partial<PropChartsSettings> = {}): PropChartsSettings {
+	return {
+		defaultPaths: ["."],
+		maxNotes: 100,
+		enableInlineFields: false,
+		...overrides,
+	} as PropChartsSettings;
+}
+
+const propsOf = (indexer: PropChartsIndexer, path: string) =>
+	indexer.getAll().find((n) => n.path === path)?.props;
+
+const paths = (indexer: PropChartsIndexer) => indexer.getAll().map((n) => n.path).sort();
+
+/** Lets pending awaits (async reads) finish */
+const flush = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+describe("PropChartsIndexer", () => {
+	let vault: ReturnType<typeof createApp>;
+	let current: PropChartsSettings;
+	let indexer: PropChartsIndexer;
+
+	beforeEach(() => {
+		vault = createApp();
+		current = settings();
+		indexer = new PropChartsIndexer(vault.app, () => current);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should index frontmatter, skipping notes outside the indexed folders", async () => {
+		vault.add("Tasks/a.md", { status: "open" });
+		vault.add("Journal/b.md", { mood: "ok" });
+		vault.add("Tasks/c.canvas", null);
+		current = settings({ defaultPaths: ["Tasks"] });
+
+		await indexer.buildIndex();
+
+		expect(paths(indexer)).toEqual(["Tasks/a.md"]);
+		expect(propsOf(indexer, "Tasks/a.md")).toEqual({ status: "open" });
+	});
+
+	it("should record the properties read from inline fields", async () => {
+		current = settings({ enableInlineFields: true });
+		vault.add("a.md", { spent: [1, 2] }, "spent:: 5\nhours:: 2\nhours:: 3");
+		vault.add("b.md", { status: "open" });
+
+		await indexer.buildIndex();
+
+		const [a, b] = indexer.getAll().sort((x, y) => x.path.localeCompare(y.path));
+		expect(a.props).toEqual({ spent: [1, 2], hours: [2, 3] });
+		expect(a.inlineKeys).toEqual(["hours"]);
+		expect(b.inlineKeys).toBeUndefined();
+	});
+
+	it("should keep the most recently modified notes above the note cap", async () => {
+		vi.spyOn(console, "warn").mockImplementation(() => undefined);
+		vault.add("old.md", {}, "", 1);
+		vault.add("new.md", {}, "", 3);
+		vault.add("mid.md", {}, "", 2);
+		current = settings({ maxNotes: 2 });
+
+		await indexer.buildIndex();
+		expect(paths(indexer)).toEqual(["mid.md", "new.md"]);
+
+		// New notes are ignored while the index is full
+		await indexer.updateFile(vault.add("newest.md", {}, "", 4));
+		expect(paths(indexer)).toEqual(["mid.md", "new.md"]);
+	});
+
+	it("should send changes arriving together in one notification", async () => {
+		vi.useFakeTimers();
+		await indexer.buildIndex();
+		const listener = vi.fn();
+		indexer.onChange(listener);
+
+		await indexer.updateFile(vault.add("a.md", { n: 1 }));
+		await indexer.updateFile(vault.add("b.md", { n: 2 }));
+		expect(listener).not.toHaveBeenCalled();
+
+		vi.advanceTimersByTime(200);
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(listener.mock.calls[0][0].sort()).toEqual(["a.md", "b.md"]);
+	});
+
+	it("should notify a full rebuild with null", async () => {
+		const listener = vi.fn();
+		indexer.onChange(listener);
+		await indexer.buildIndex();
+		expect(listener).toHaveBeenCalledWith(null);
+	});
+
+	it("should drop the old path and add the new one on rename", async () => {
+		vi.useFakeTimers();
+		vault.add("a.md", { status: "open" });
+		await indexer.buildIndex();
+		const listener = vi.fn();
+		indexer.onChange(listener);
+
+		await indexer.renameFile(vault.rename("a.md", "b.md"), "a.md");
+		vi.advanceTimersByTime(200);
+
+		expect(paths(indexer)).toEqual(["b.md"]);
+		expect(propsOf(indexer, "b.md")).toEqual({ status: "open" });
+		expect(listener.mock.calls[0][0].sort()).toEqual(["a.md", "b.md"]);
+	});
+
+	it("should remove deleted notes", async () => {
+		const file = vault.add("a.md", {});
+		await indexer.buildIndex();
+
+		vault.remove("a.md");
+		indexer.removeFile(file);
+
+		expect(paths(indexer)).toEqual([]);
+	});
+
+	it("should discard a rebuild overtaken by a newer one", async () => {
+		vault.add("Tasks/a.md", {});
+		vault.add("Journal/b.md", {});
+
+		const stale = indexer.buildIndex();
+		current = settings({ defaultPaths: ["Journal"] });
+		const fresh = indexer.buildIndex();
+		await Promise.all([stale, fresh]);
+
+		expect(paths(indexer)).toEqual(["Journal/b.md"]);
+	});
+
+	it("should keep changes that arrive while a rebuild runs", async () => {
+		current = settings({ enableInlineFields: true });
+		vault.add("a.md", { status: "open" });
+		vault.add("b.md", { status: "open" });
+		vault.add("gone.md", {});
+
+		vault.hold(true);
+		const build = indexer.buildIndex();
+		await flush();
+
+		// Edited, created and deleted while the rebuild still reads the vault
+		const edited = vault.add("a.md", { status: "done" });
+		const created = vault.add("c.md", { status: "new" });
+		vault.hold(false);
+		await indexer.updateFile(edited);
+		await indexer.updateFile(created);
+		const gone = vault.app.vault.getAbstractFileByPath("gone.md");
+		vault.remove("gone.md");
+		indexer.removeFile(gone);
+
+		vault.releaseReads();
+		await build;
+
+		expect(paths(indexer)).toEqual(["a.md", "b.md", "c.md"]);
+		expect(propsOf(indexer, "a.md")).toEqual({ status: "done" });
+		expect(propsOf(indexer, "c.md")).toEqual({ status: "new" });
+	});
+
+	it("should read notes again once the metadata cache is resolved", async () => {
+		vault.add("a.md", null);
+		await indexer.buildIndex();
+		expect(propsOf(indexer, "a.md")).toEqual({});
+
+		// The cache catches up after the cold start
+		vault.add("a.md", { status: "open" });
+		await indexer.onCacheResolved();
+		expect(propsOf(indexer, "a.md")).toEqual({ status: "open" });
+	});
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for inline field (key:: value) parsing
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+	canonicalKey,
+	mergeInlineFields,
+	parseInlineFields,
+	parseInlineValue,
+} from "../src/inline-fields";
+import { PropChartsQueryEngine } from "../src/query";
+import type { IndexedNote } from "../src/types";
+
+describe("parseInlineValue", () => {
+	it("should type numbers and booleans", () => {
+		expect(parseInlineValue(" 45 ")).toBe(45);
+		expect(parseInlineValue("-1.5")).toBe(-1.5);
+		expect(parseInlineValue("True")).toBe(true);
+		expect(parseInlineValue("false")).toBe(false);
+	});
+
+	it("should keep dates, links and text as strings", () => {
+		expect(parseInlineValue("2024-05-01")).toBe("2024-05-01");
+		expect(parseInlineValue("[[Project A]]")).toBe("[[Project A]]");
+		expect(parseInlineValue("")).toBeNull();
+	});
+});
+
+describe("canonicalKey", () => {
+	it("should lower-case and dash-separate names", () => {
+		expect(canonicalKey("Time Spent")).toBe("time-spent");
+		expect(canonicalKey("Préço (R$)")).toBe("préço-r");
+	});
+});
+
+describe("parseInlineFields", () => {
+	it("should read full-line fields", () => {
+		const fields = parseInlineFields("spent:: 45\nstatus:: done\n");
+		expect(fields).toEqual({ spent: [45], status: ["done"] });
+	});
+
+	it("should read fields in list items, tasks and quotes", () => {
+		const content = [
+			"- spent:: 30",
+			"* [x] spent:: 15",
+			"1. spent:: 10",
+			"> spent:: 5",
+		].join("\n");
+		expect(parseInlineFields(content).spent).toEqual([30, 15, 10, 5]);
+	});
+
+	it("should read bracketed and parenthesized fields anywhere in a line", () => {
+		const fields = parseInlineFields(
+			"- [ ] Review PR [due:: 2024-05-01] (owner:: [[Ana]]) [spent:: 20]"
+		);
+		expect(fields.due).toEqual(["2024-05-01"]);
+		expect(fields.owner).toEqual(["[[Ana]]"]);
+		expect(fields.spent).toEqual([20]);
+		expect(fields["- [ ] Review PR [due"]).toBeUndefined();
+	});
+
+	it("should collect several values for the same key", () => {
+		const content = "Mon [spent:: 45]\nTue [spent:: 30]\nspent:: 15";
+		expect(parseInlineFields(content).spent).toEqual([45, 30, 15]);
+	});
+
+	it("should clean emphasis and add canonical names", () => {
+		const fields = parseInlineFields("**Time Spent**:: 2");
+		expect(fields["Time Spent"]).toEqual([2]);
+		expect(fields["time-spent"]).toEqual([2]);
+	});
+
+	it("should ignore frontmatter, code and plain colons", () => {
+		const content = [
+			"---",
+			"spent:: 99",
+			"---",
+			"```",
+			"spent:: 1",
+			"```",
+			"Use `spent:: 2` to log time",
+			"Note: this is not a field",
+			"http://example.com",
+		].join("\n");
+		expect(parseInlineFields(content)).toEqual({});
+	});
+});
+
+describe("mergeInlineFields", () => {
+	it("should let frontmatter win", () => {
+		const props = mergeInlineFields({ status: "open" }, { status: ["done"], spent: [45] });
+		expect(props).toEqual({ status: "open", spent: 45 });
+	});
+
+	it("should turn repeated fields into lists", () => {
+		const props = mergeInlineFields({}, { spent: [45, 30] });
+		expect(props.spent).toEqual([45, 30]);
+	});
+});
+
+describe("queries over inline fields", () => {
+	const note = (path: string, frontmatter: Record<string, any>, content: string): IndexedNote => {
+		const fields = parseInlineFields(content);
+		return {
+			path,
+			props: mergeInlineFields({ ...frontmatter }, fields),
+			inlineKeys: Object.keys(fields).filter((k) => !(k in frontmatter)),
+		};
+	};
+	const notes = [
+		note("log/a.md", { project: "alpha" }, "- spent:: 30\n- spent:: 15\n- spent:: 10"),
+		note("log/b.md", { project: "alpha" }, "spent:: 20"),
+		note("log/c.md", { project: "beta" }, "- spent:: 5\n- spent:: abc"),
+		note("log/d.md", { project: "gamma", spent: [8, 2] }, "spent:: 100"),
+	];
+	const engine = new PropChartsQueryEngine(() => notes);
+
+	it("should add up repeated inline fields, but not frontmatter lists, when aggregating y", () => {
+		const result = engine.run({
+			type: "bar",
+			encoding: { x: "project", y: "spent" },
+			aggregate: { y: "sum" },
+		});
+		const byProject = Object.fromEntries(result.rows.map((r) => [r.x, r.y]));
+		expect(byProject).toEqual({ alpha: 75, beta: 5, gamma: 8 });
+	});
+
+	it("should use the total of each note for averages", () => {
+		const result = engine.run({
+			type: "bar",
+			encoding: { x: "project", y: "spent" },
+			aggregate: { y: "avg" },
+		});
+		expect(result.rows.find((r) => r.x === "alpha")?.y).toBe(37.5);
+	});
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for Indicator formulas (ratios, percent of total, named aggregates)
+ */
+
+import { describe, it, expect } from "vitest";
+import { evalMetricFormula, parseMetricFormula, type FormulaNote } from "../src/metric-formula";
+
+const notes: FormulaNote[] = [
+	{ path: "a.md", props: { status: "done", spent: "6", estimate: "4", project: "alpha" } },
+	{ path: "b.md", props: { status: "done", spent: "2", estimate: "4", project: "beta" } },
+	{ path: "c.md", props: { status: "open", spent: null, estimate: "8", project: "alpha" } },
+	{ path: "d.md", props: { status: "open", spent: "4", estimate: null, project: ["alpha", "gamma"] } },
+];
+
+const run = (text: string) => evalMetricFormula(parseMetricFormula(text), notes);
+
+describe("parseMetricFormula", () => {
+	it("should read definitions and the result", () => {
+		const formula = parseMetricFormula("done = count(where status = done); total = count(); done / total * 100");
+		expect(formula.definitions.map((d) => d.name)).toEqual(["done", "total"]);
+		expect(formula.result.kind).toBe("binary");
+		expect(formula.fields).toEqual(["status"]);
+	});
+
+	it("should use the last definition as the result", () => {
+		const formula = parseMetricFormula("rate = sum(spent) / sum(estimate)");
+		expect(formula.result).toEqual({ kind: "name", name: "rate" });
+		expect(formula.fields).toEqual(["spent", "estimate"]);
+	});
+
+	it("should not split statements at ; inside quotes or parentheses", () => {
+		const formula = parseMetricFormula("semi = count(where title = 'a;b'); semi / count(where name == O'Brien)");
+		expect(formula.definitions.map((d) => d.name)).toEqual(["semi"]);
+		expect(formula.fields).toEqual(["title", "name"]);
+		const result = evalMetricFormula(formula, [
+			{ path: "a.md", props: { title: "a;b", name: "O'Brien" } },
+			{ path: "b.md", props: { title: "c", name: "O'Brien" } },
+		]);
+		expect(result.value).toBe(0.5);
+	});
+
+	it("should report errors with their position", () => {
+		expect(() => parseMetricFormula("")).toThrow("Empty formula");
+		expect(() => parseMetricFormula("median(spent)")).toThrow('Unknown function "median" at position 1');
+		expect(() => parseMetricFormula("done / 2")).toThrow('Unknown name "done" at position 1');
+		expect(() => parseMetricFormula("sum()")).toThrow("sum() needs a property");
+		expect(() => parseMetricFormula("count(where status =)")).toThrow(/Invalid filter in count\(\)/);
+		expect(() => parseMetricFormula("a = count(); a +")).toThrow(/Unexpected end of formula at position 4 \(line 2\)/);
+	});
+});
+
+describe("evalMetricFormula", () => {
+	it("should compute done / total as a percent", () => {
+		const result = run("done = count(where status = done); total = count(); done / total * 100");
+		expect(result.value).toBe(50);
+		expect(result.notes).toEqual(["a.md", "b.md"]);
+	});
+
+	it("should compute a ratio of sums", () => {
+		expect(run("sum(spent) / sum(estimate)").value).toBe(12 / 16);
+		expect(run("sum(spent where status = done) / sum(estimate where status = done)").value).toBe(1);
+	});
+
+	it("should compute an average per distinct group", () => {
+		// alpha, beta, gamma
+		expect(run("distinct(project)").value).toBe(3);
+		expect(run("sum(spent) / distinct(project)").value).toBe(4);
+	});
+
+	it("should follow precedence, parentheses and negation", () => {
+		expect(run("2 + 3 * 4").value).toBe(14);
+		expect(run("(2 + 3) * 4").value).toBe(20);
+		expect(run("-(max(spent) - min(spent))").value).toBe(-4);
+		expect(run("filled(spent) + avg(estimate)").value).toBeCloseTo(3 + 16 / 3);
+	});
+
+	it("should give no value on division by zero or an empty average", () => {
+		expect(run("count() / count(where status = blocked)").value).toBeNull();
+		expect(run("avg(spent where status = blocked) + 1").value).toBeNull();
+	});
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for KPI grid cards (Indicator with several metrics)
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseMetricCards, propertyId } from "../src/metric-grid";
+import { evalWhere } from "../src/where";
+
+describe("parseMetricCards", () => {
+	it("should read label, property, operation and filter", () => {
+		const [card] = parseMetricCards("Hours spent | spent | sum | status = done");
+		expect(card.label).toBe("Hours spent");
+		expect(card.property).toBe("spent");
+		expect(card.operation).toBe("sum");
+		expect(card.dataType).toBe("number");
+		expect(card.filterFields).toEqual(["status"]);
+		expect(evalWhere({ status: "done" }, card.filter!)).toBe(true);
+		expect(evalWhere({ status: "open" }, card.filter!)).toBe(false);
+		expect(card.error).toBeUndefined();
+	});
+
+	it("should read one card per line or per ;", () => {
+		const cards = parseMetricCards("Open | | count | status = open; Total\nLatest | due | newest");
+		expect(cards.map((c) => c.label)).toEqual(["Open", "Total", "Latest"]);
+		expect(cards[1]).toMatchObject({ property: null, operation: "countAll", filter: null });
+		expect(cards[2]).toMatchObject({ operation: "newest", dataType: "date" });
+	});
+
+	it("should default to counting notes where the property is set", () => {
+		expect(parseMetricCards("Estimated | estimate")[0].operation).toBe("countNonEmpty");
+	});
+
+	it("should accept operation aliases", () => {
+		const ops = parseMetricCards("A | x | Average; B | x | filled; C | x | range").map((c) => c.operation);
+		expect(ops).toEqual(["avg", "countNonEmpty", "dateRange"]);
+	});
+
+	it("should keep || in filters", () => {
+		const [card] = parseMetricCards("Urgent | | count | priority >= 3 || tags contains urgent");
+		expect(card.error).toBeUndefined();
+		expect(card.filterFields).toEqual(["priority", "tags"]);
+		expect(evalWhere({ tags: ["urgent"] }, card.filter!)).toBe(true);
+	});
+
+	it("should report unknown operations, missing properties and invalid filters", () => {
+		const cards = parseMetricCards("A | x | median; B | | sum; C | | count | status = ");
+		expect(cards[0].error).toBe('Unknown operation "median"');
+		expect(cards[1].error).toBe("Operation requires a property");
+		expect(cards[2].error).toMatch(/^Invalid filter: /);
+	});
+
+	it("should read formula cards", () => {
+		const [ok, bad] = parseMetricCards("Done | = count(where status = done) / count() * 100\nBad | = median(x)");
+		expect(ok).toMatchObject({ operation: "formula", property: null });
+		expect(ok.formula?.fields).toEqual(["status"]);
+		expect(ok.error).toBeUndefined();
+		expect(bad.error).toBe('Invalid formula: Unknown function "median" at position 1');
+	});
+
+	it("should run a formula card to the end of its line", () => {
+		const cards = parseMetricCards(
+			"Done | = done = count(where status = done); total = count(); done / total\nTotal | | count"
+		);
+		expect(cards.map((c) => c.label)).toEqual(["Done", "Total"]);
+		expect(cards[0].error).toBeUndefined();
+		expect(cards[0].formula?.fields).toEqual(["status"]);
+	});
+
+	it("should not split cards at ; inside quotes or parentheses", () => {
+		const cards = parseMetricCards('Tagged | | count | title = "a; b"; Today\'s | | count');
+		expect(cards.map((c) => c.label)).toEqual(["Tagged", "Today's"]);
+		expect(evalWhere({ title: "a; b" }, cards[0].filter!)).toBe(true);
+
+		const names = parseMetricCards("Irish | | count | name == O'Brien; Total | | count");
+		expect(names.map((c) => c.label)).toEqual(["Irish", "Total"]);
+	});
+
+	it("should read each card's color rules and trend direction", () => {
+		const cards = parseMetricCards(
+			"Overdue | | count | due < today | > 5 red; else green | up-bad\n" +
+			"Done | = count(where status = done) / count() * 100 | | | < 50 red; else green"
+		);
+		expect(cards.map((c) => c.label)).toEqual(["Overdue", "Done"]);
+		expect(cards[0].rules.map((r) => r.color)).toEqual(["red", "green"]);
+		expect(cards[0].trendDirection).toBe("up-bad");
+		expect(cards[1].rules).toHaveLength(2);
+		expect(cards[1].trendDirection).toBeUndefined();
+		expect(parseMetricCards("Hours | spent | sum")[0].rules).toEqual([]);
+	});
+
+	it("should report invalid color rules and trend directions", () => {
+		const cards = parseMetricCards("A | | count | | bigger than 5\nB | | count | | | sideways");
+		expect(cards[0].error).toBe('Invalid color rules "bigger than 5"');
+		expect(cards[1].error).toBe('Unknown trend direction "sideways"');
+	});
+
+	it("should skip entries without a label", () => {
+		expect(parseMetricCards(" | x | sum")).toEqual([]);
+		expect(parseMetricCards(undefined)).toEqual([]);
+	});
+});
+
+describe("propertyId", () => {
+	it("should prefix plain names with note.", () => {
+		expect(propertyId("status")).toBe("note.status");
+		expect(propertyId("file.mtime")).toBe("file.mtime");
+	});
+});
@@ -0,0 +1,58 @@
+/**
+ * Tests for Indicator color rules (thresholds, background, icon)
+ */
+
+import { describe, it, expect } from "vitest";
+import { matchMetricRule, parseMetricRules } from "../src/metric-rules";
+
+describe("parseMetricRules", () => {
+	it("should read conditions with a color and an icon", () => {
+		expect(parseMetricRules("> 5 red 🔥; > 0 orange; else green")).toEqual([
+			{ op: ">", value: 5, color: "red", icon: "🔥" },
+			{ op: ">", value: 0, color: "orange" },
+			{ op: "else", value: 0, color: "green" },
+		]);
+	});
+
+	it("should read explicit keys and CSS colors", () => {
+		expect(parseMetricRules(">= 1,5: color=#E67E22 bg=rgb(255, 243, 224) icon=⚠️")).toEqual([
+			{ op: ">=", value: 1.5, color: "#E67E22", background: "rgb(255, 243, 224)", icon: "⚠️" },
+		]);
+	});
+
+	it("should accept one rule per line, == and *", () => {
+		const rules = parseMetricRules("== 0 Green\n* gold");
+		expect(rules).toEqual([
+			{ op: "=", value: 0, color: "green" },
+			{ op: "else", value: 0, color: "gold" },
+		]);
+	});
+
+	it("should skip entries without a condition or a style", () => {
+		expect(parseMetricRules("red; > 3; big > 2 red")).toEqual([]);
+		expect(parseMetricRules(undefined)).toEqual([]);
+	});
+});
+
+describe("matchMetricRule", () => {
+	const rules = parseMetricRules("> 5 red; > 0 orange; else green");
+
+	it("should return the first rule that holds", () => {
+		expect(matchMetricRule(rules, 8)?.color).toBe("red");
+		expect(matchMetricRule(rules, 5)?.color).toBe("orange");
+		expect(matchMetricRule(rules, 0)?.color).toBe("green");
+	});
+
+	it("should return null without a value or a matching rule", () => {
+		expect(matchMetricRule(rules, null)).toBeNull();
+		expect(matchMetricRule(parseMetricRules("< 0 red"), 3)).toBeNull();
+	});
+
+	it("should compare with <=, < and !=", () => {
+		const lower = parseMetricRules("<= 10 green; < 20 orange; != 50 red");
+		expect(matchMetricRule(lower, 10)?.color).toBe("green");
+		expect(matchMetricRule(lower, 15)?.color).toBe("orange");
+		expect(matchMetricRule(lower, 30)?.color).toBe("red");
+		expect(matchMetricRule(lower, 50)).toBeNull();
+	});
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for the Indicator widget trend (current vs previous window, sparkline)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+	computeMetricTrend,
+	parseTrendWindow,
+	supportsTrend,
+	trendTone,
+	type TrendSample,
+} from "../src/metric-trend";
+
+const NOW = new Date(2026, 2, 15, 18, 30); // Sun 2026-03-15
+
+const sample = (day: number, value: number | null = null, note = `n${day}.md`): TrendSample => ({
+	date: new Date(2026, 2, day),
+	value,
+	present: value != null,
+	note,
+});
+
+describe("parseTrendWindow", () => {
+	it("should read days and weeks", () => {
+		expect(parseTrendWindow("7")).toBe(7);
+		expect(parseTrendWindow("7d")).toBe(7);
+		expect(parseTrendWindow("30 days")).toBe(30);
+		expect(parseTrendWindow("2w")).toBe(14);
+		expect(parseTrendWindow(10)).toBe(10);
+	});
+
+	it("should return null for empty or invalid values", () => {
+		expect(parseTrendWindow(undefined)).toBeNull();
+		expect(parseTrendWindow("")).toBeNull();
+		expect(parseTrendWindow("0d")).toBeNull();
+		expect(parseTrendWindow("1m")).toBeNull();
+	});
+});
+
+describe("supportsTrend", () => {
+	it("should accept count and numeric operations only", () => {
+		expect(supportsTrend("countAll")).toBe(true);
+		expect(supportsTrend("avg")).toBe(true);
+		expect(supportsTrend("oldest")).toBe(false);
+		expect(supportsTrend("dateRange")).toBe(false);
+	});
+});
+
+describe("computeMetricTrend", () => {
+	it("should split notes into the last N days (today included) and the N days before", () => {
+		// Current window: Mar 9..15, previous: Mar 2..8
+		const samples = [sample(9), sample(12), sample(15), sample(2), sample(8)];
+		const trend = computeMetricTrend(samples, "countAll", 7, NOW);
+
+		expect(trend.current).toBe(3);
+		expect(trend.previous).toBe(2);
+		expect(trend.change).toEqual({ delta: 1, percent: 50 });
+		expect(trend.notes).toEqual(["n9.md", "n12.md", "n15.md"]);
+	});
+
+	it("should leave out notes dated after today", () => {
+		const trend = computeMetricTrend([sample(15), sample(16)], "countAll", 7, NOW);
+		expect(trend.current).toBe(1);
+	});
+
+	it("should compute numeric operations per window", () => {
+		const samples = [sample(10, 4), sample(11, 8), sample(11, null), sample(3, 2)];
+		expect(computeMetricTrend(samples, "sum", 7, NOW).current).toBe(12);
+		expect(computeMetricTrend(samples, "avg", 7, NOW).current).toBe(6);
+		expect(computeMetricTrend(samples, "max", 7, NOW).previous).toBe(2);
+		expect(computeMetricTrend(samples, "countNonEmpty", 7, NOW).current).toBe(2);
+		expect(computeMetricTrend(samples, "countAll", 7, NOW).current).toBe(3);
+	});
+
+	it("should have no change when a window has no value to average", () => {
+		const trend = computeMetricTrend([sample(12, 5)], "avg", 7, NOW);
+		expect(trend.current).toBe(5);
+		expect(trend.previous).toBeNull();
+		expect(trend.change).toBeNull();
+	});
+
+	it("should build the sparkline oldest first, ending with the current window", () => {
+		const samples = [sample(15), sample(14), sample(5), sample(1)];
+		const trend = computeMetricTrend(samples, "countAll", 5, NOW, 4);
+
+		// Windows: Feb 24..28, Mar 1..5, Mar 6..10, Mar 11..15
+		expect(trend.sparkline).toEqual([0, 2, 0, 2]);
+		expect(trend.days).toBe(5);
+	});
+});
+
+describe("trendTone", () => {
+	const up = { delta: 2, percent: 20 };
+	const down = { delta: -2, percent: -20 };
+
+	it("should follow whether going up is good or bad", () => {
+		expect(trendTone(up, "up-good")).toBe("good");
+		expect(trendTone(down, "up-good")).toBe("bad");
+		expect(trendTone(up, "up-bad")).toBe("bad");
+		expect(trendTone(down, "up-bad")).toBe("good");
+	});
+
+	it("should be neutral without change or when set to neutral", () => {
+		expect(trendTone(null, "up-good")).toBe("neutral");
+		expect(trendTone({ delta: 0, percent: 0 }, "up-good")).toBe("neutral");
+		expect(trendTone(up, "neutral")).toBe("neutral");
+	});
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for moving-window transforms (rolling average / sum, EMA)
+ */
+
+import { describe, it, expect } from "vitest";
+import type { QueryResultRow } from "../src/types";
+import { applyMovingWindow, parseMovingWindow } from "../src/query";
+
+function row(x: string, y: number, series?: string): QueryResultRow {
+	return { x, y, series, notes: [] };
+}
+
+describe("parseMovingWindow", () => {
+	it("should parse point and day windows", () => {
+		expect(parseMovingWindow(7)).toEqual({ size: 7, unit: "points" });
+		expect(parseMovingWindow("7")).toEqual({ size: 7, unit: "points" });
+		expect(parseMovingWindow("14d")).toEqual({ size: 14, unit: "days" });
+		expect(parseMovingWindow(" 30 days ")).toEqual({ size: 30, unit: "days" });
+	});
+
+	it("should reject empty or invalid windows", () => {
+		expect(parseMovingWindow(null)).toBeNull();
+		expect(parseMovingWindow("")).toBeNull();
+		expect(parseMovingWindow("0")).toBeNull();
+		expect(parseMovingWindow("week")).toBeNull();
+		expect(parseMovingWindow(-3)).toBeNull();
+	});
+});
+
+describe("applyMovingWindow", () => {
+	const rows = [row("a", 2), row("b", 4), row("c", 6), row("d", 8)];
+
+	it("should compute a rolling average over N points and keep raw values", () => {
+		const result = applyMovingWindow(rows, { kind: "avg", size: 2, unit: "points" });
+		expect(result.map((r) => r.y)).toEqual([2, 3, 5, 7]);
+		expect(result.map((r) => r.rawY)).toEqual([2, 4, 6, 8]);
+	});
+
+	it("should compute a rolling sum over N points", () => {
+		const result = applyMovingWindow(rows, { kind: "sum", size: 3, unit: "points" });
+		expect(result.map((r) => r.y)).toEqual([2, 6, 12, 18]);
+	});
+
+	it("should compute an exponential moving average", () => {
+		// span 3 → alpha = 0.5
+		const result = applyMovingWindow(rows, { kind: "ema", size: 3, unit: "points" });
+		expect(result.map((r) => r.y)).toEqual([2, 3, 4.5, 6.25]);
+	});
+
+	it("should keep series independent", () => {
+		const mixed = [row("a", 1, "s1"), row("a", 10, "s2"), row("b", 3, "s1"), row("b", 30, "s2")];
+		const result = applyMovingWindow(mixed, { kind: "avg", size: 2, unit: "points" });
+		expect(result.map((r) => r.y)).toEqual([1, 10, 2, 20]);
+	});
+
+	it("should use calendar days for day windows", () => {
+		const daily = [row("2024-01-01", 1), row("2024-01-02", 2), row("2024-01-05", 3), row("2024-01-06", 4)];
+		const result = applyMovingWindow(daily, { kind: "sum", size: 3, unit: "days" });
+		// Window = current day and the 2 days before it
+		expect(result.map((r) => r.y)).toEqual([1, 3, 3, 7]);
+	});
+
+	it("should weight EMA by elapsed days for day windows", () => {
+		const daily = [row("2024-01-01", 0), row("2024-01-03", 8)];
+		const result = applyMovingWindow(daily, { kind: "ema", size: 3, unit: "days" });
+		// Two days elapsed with alpha 0.5 → weight 0.75
+		expect(result[1].y).toBe(6);
+	});
+
+	it("should read month, quarter and year buckets in day windows", () => {
+		const monthly = [row("2024-01", 1), row("2024-02", 2), row("2024-03", 4)];
+		// Buckets count from the 1st: 32 days from February 1 reach January 1, from March 1 they don't
+		const result = applyMovingWindow(monthly, { kind: "sum", size: 32, unit: "days" });
+		expect(result.map((r) => r.y)).toEqual([1, 3, 6]);
+
+		const quarterly = [row("2024-Q1", 2), row("2024-Q2", 4)];
+		const quarters = applyMovingWindow(quarterly, { kind: "avg", size: 100, unit: "days" });
+		expect(quarters.map((r) => r.y)).toEqual([2, 3]);
+
+		const yearly = [row("2023", 1), row("2024", 3)];
+		const years = applyMovingWindow(yearly, { kind: "sum", size: 7, unit: "days" }, true);
+		expect(years.map((r) => r.y)).toEqual([1, 3]);
+	});
+
+	it("should not read four-digit values as years unless X is grouped by year", () => {
+		const numbers = [row("1000", 1), row("1001", 3)];
+		const result = applyMovingWindow(numbers, { kind: "sum", size: 400, unit: "days" });
+		expect(result.map((r) => r.y)).toEqual([1, 3]);
+		expect(result.map((r) => r.rawY)).toEqual([1, 3]);
+	});
+
+	it("should leave non-date rows unchanged in day windows", () => {
+		const result = applyMovingWindow([row("(missing)", 5), row("2024-01-01", 1)], {
+			kind: "avg",
+			size: 7,
+			unit: "days",
+		});
+		expect(result.map((r) => r.y)).toEqual([5, 1]);
+	});
+});
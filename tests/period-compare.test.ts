@@ -0,0 +1,100 @@
+/**
+ * Tests for the previous-period comparison (line charts)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+	applyPeriodComparison,
+	detectBucket,
+	periodChange,
+	shiftBack,
+} from "../src/period-compare";
+import type { QueryResultRow } from "../src/types";
+
+const row = (x: string | Date, y: number, series?: string): QueryResultRow => ({
+	x,
+	y,
+	notes: [],
+	series,
+});
+
+describe("detectBucket", () => {
+	it("should recognize bucket keys and dates", () => {
+		expect(detectBucket("2026-03-02 (W)")).toBe("week");
+		expect(detectBucket("2026-03")).toBe("month");
+		expect(detectBucket("2026-Q1")).toBe("quarter");
+		expect(detectBucket("2026", true)).toBe("year");
+		expect(detectBucket("2026")).toBeNull();
+		expect(detectBucket("2026-03-02")).toBe("day");
+		expect(detectBucket(new Date(2026, 2, 2))).toBe("day");
+		expect(detectBucket("done")).toBeNull();
+	});
+});
+
+describe("shiftBack", () => {
+	it("should move back by one unit", () => {
+		expect(shiftBack(new Date(2026, 2, 2), "day")).toEqual(new Date(2026, 2, 1));
+		expect(shiftBack(new Date(2026, 2, 2), "week")).toEqual(new Date(2026, 1, 23));
+		expect(shiftBack(new Date(2026, 3, 1), "quarter")).toEqual(new Date(2026, 0, 1));
+		expect(shiftBack(new Date(2026, 2, 2), "year")).toEqual(new Date(2025, 2, 2));
+	});
+
+	it("should clamp to the last day of shorter months", () => {
+		expect(shiftBack(new Date(2026, 2, 31), "month")).toEqual(new Date(2026, 1, 28));
+		expect(shiftBack(new Date(2028, 1, 29), "year")).toEqual(new Date(2027, 1, 28));
+	});
+});
+
+describe("applyPeriodComparison", () => {
+	it("should compare weekly buckets with the previous week", () => {
+		const rows = [row("2026-02-23 (W)", 10), row("2026-03-02 (W)", 12), row("2026-03-09 (W)", 9)];
+		expect(applyPeriodComparison(rows, "previous").map((r) => r.previousY)).toEqual([
+			undefined,
+			10,
+			12,
+		]);
+	});
+
+	it("should match points of the same series only", () => {
+		const rows = [
+			row("2026-01", 5, "Ana"),
+			row("2026-01", 7, "Bia"),
+			row("2026-02", 6, "Ana"),
+			row("2026-02", 9, "Bia"),
+		];
+		const result = applyPeriodComparison(rows, "month");
+		expect(result.map((r) => r.previousY)).toEqual([undefined, undefined, 5, 7]);
+	});
+
+	it("should compare daily points with last week", () => {
+		const rows = [row("2026-03-02", 4), row("2026-03-05", 1), row("2026-03-09", 6)];
+		expect(applyPeriodComparison(rows, "week").map((r) => r.previousY)).toEqual([
+			undefined,
+			undefined,
+			4,
+		]);
+	});
+
+	it("should find the week containing the date a year earlier", () => {
+		// 2026-03-02 minus one year is Sunday 2025-03-02, in the week of 2025-02-24
+		const rows = [row("2025-02-24 (W)", 3), row("2026-03-02 (W)", 8)];
+		expect(applyPeriodComparison(rows, "year")[1].previousY).toBe(3);
+	});
+
+	it("should skip periods shorter than the bucket and non-date X", () => {
+		const rows = [row("2026-01", 5), row("2026-02", 6), row("todo", 1)];
+		expect(applyPeriodComparison(rows, "week").every((r) => r.previousY === undefined)).toBe(true);
+		expect(applyPeriodComparison(rows, "previous")[2]).toBe(rows[2]);
+	});
+});
+
+describe("periodChange", () => {
+	it("should give the delta and percent change", () => {
+		expect(periodChange(12, 10)).toEqual({ delta: 2, percent: 20 });
+		expect(periodChange(5, -10)).toEqual({ delta: 15, percent: 150 });
+	});
+
+	it("should have no percent against zero", () => {
+		expect(periodChange(3, 0)).toEqual({ delta: 3, percent: null });
+	});
+});
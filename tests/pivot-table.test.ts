@@ -0,0 +1,105 @@
+/**
+ * Tests for pivot table building
+ */
+
+import { describe, it, expect } from "vitest";
+import type { QueryResultRow } from "../src/types";
+import { buildPivot } from "../src/renderer/table";
+
+describe("buildPivot", () => {
+	const rows: QueryResultRow[] = [
+		{ x: "Project A", y: 3, series: "open", notes: ["a1.md", "a2.md"] },
+		{ x: "Project A", y: 2, series: "done", notes: ["a3.md"] },
+		{ x: "Project B", y: 5, series: "open", notes: ["b1.md"] },
+	];
+
+	it("should use X values as rows and series as columns", () => {
+		const pivot = buildPivot(rows);
+		expect(pivot.rowKeys).toEqual(["Project A", "Project B"]);
+		expect(pivot.colKeys).toEqual(["done", "open"]);
+	});
+
+	it("should place aggregated values in the cells", () => {
+		const pivot = buildPivot(rows);
+		expect(pivot.cells.get("Project A")?.get("open")?.value).toBe(3);
+		expect(pivot.cells.get("Project A")?.get("done")?.value).toBe(2);
+		expect(pivot.cells.get("Project B")?.get("done")).toBeUndefined();
+	});
+
+	it("should compute row, column and grand totals", () => {
+		const pivot = buildPivot(rows);
+		expect(pivot.rowTotals.get("Project A")?.value).toBe(5);
+		expect(pivot.rowTotals.get("Project B")?.value).toBe(5);
+		expect(pivot.colTotals.get("open")?.value).toBe(8);
+		expect(pivot.colTotals.get("done")?.value).toBe(2);
+		expect(pivot.grandTotal.value).toBe(10);
+	});
+
+	it("should keep the notes behind each cell and total", () => {
+		const pivot = buildPivot(rows);
+		expect(pivot.cells.get("Project A")?.get("open")?.notes).toEqual(["a1.md", "a2.md"]);
+		expect(pivot.rowTotals.get("Project A")?.notes).toEqual(["a1.md", "a2.md", "a3.md"]);
+		expect(pivot.grandTotal.notes).toHaveLength(4);
+	});
+
+	it("should deduplicate notes that appear in several rows", () => {
+		const pivot = buildPivot([
+			{ x: "tag-a", y: 1, notes: ["n.md"] },
+			{ x: "tag-b", y: 1, notes: ["n.md"] },
+		]);
+		expect(pivot.grandTotal.value).toBe(2);
+		expect(pivot.grandTotal.notes).toEqual(["n.md"]);
+	});
+
+	it("should use a single empty column when there are no series", () => {
+		const pivot = buildPivot([
+			{ x: "a", y: 1, notes: [] },
+			{ x: "b", y: 2, notes: [] },
+		]);
+		expect(pivot.colKeys).toEqual([""]);
+		expect(pivot.grandTotal.value).toBe(3);
+	});
+
+	it("should format date rows as YYYY-MM-DD and sort numerically", () => {
+		const pivot = buildPivot([
+			{ x: new Date("2024-03-01T00:00:00Z"), y: 1, notes: [] },
+			{ x: "10", y: 1, notes: [] },
+			{ x: "9", y: 1, notes: [] },
+		]);
+		expect(pivot.rowKeys).toEqual(["9", "10", "2024-03-01"]);
+	});
+
+	it("should compute avg totals from the raw values, not sum the averages", () => {
+		const bucket = (values: number[]) => ({ values, distinct: [], count: values.length });
+		const pivot = buildPivot(
+			[
+				{ x: "A", y: 2, series: "open", notes: ["a1.md", "a2.md"], bucket: bucket([1, 3]) },
+				{ x: "A", y: 8, series: "done", notes: ["a3.md"], bucket: bucket([8]) },
+				{ x: "B", y: 4, series: "open", notes: ["b1.md"], bucket: bucket([4]) },
+			],
+			"avg"
+		);
+		expect(pivot.cells.get("A")?.get("open")?.value).toBe(2);
+		expect(pivot.rowTotals.get("A")?.value).toBe(4);
+		expect(pivot.colTotals.get("open")?.value).toBe(8 / 3);
+		expect(pivot.grandTotal.value).toBe(4);
+	});
+
+	it("should count distinct values across the cells of a total", () => {
+		const pivot = buildPivot(
+			[
+				{ x: "A", y: 2, notes: ["a.md"], bucket: { values: [], distinct: ["x", "y"], count: 2 } },
+				{ x: "B", y: 2, notes: ["b.md"], bucket: { values: [], distinct: ["y", "z"], count: 2 } },
+			],
+			"count-distinct"
+		);
+		expect(pivot.grandTotal.value).toBe(3);
+	});
+
+	it("should leave non-additive totals empty without raw values", () => {
+		const pivot = buildPivot(rows, "median");
+		expect(pivot.cells.get("Project A")?.get("open")?.value).toBe(3);
+		expect(pivot.rowTotals.get("Project A")?.value).toBeNull();
+		expect(pivot.grandTotal.value).toBeNull();
+	});
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for scatter trendlines (fits, R², equations) and outliers
+ */
+
+import { describe, it, expect } from "vitest";
+import { findOutliers, fitRegression, formatEquation, predictFit, type FitPoint } from "../src/scatter-fit";
+
+const line: FitPoint[] = [1, 2, 3, 4, 5].map((x) => ({ x, y: 2 * x + 1 }));
+
+describe("fitRegression", () => {
+	it("should fit a straight line exactly", () => {
+		const fit = fitRegression(line, "linear")!;
+		expect(fit.coefficients[0]).toBeCloseTo(1);
+		expect(fit.coefficients[1]).toBeCloseTo(2);
+		expect(fit.r2).toBeCloseTo(1);
+		expect(predictFit(fit, 10)).toBeCloseTo(21);
+	});
+
+	it("should fit polynomials", () => {
+		const points = [-2, -1, 0, 1, 2, 3].map((x) => ({ x, y: x * x - 3 * x + 2 }));
+		const fit = fitRegression(points, "poly2")!;
+		expect(fit.coefficients.map((c) => Number(c.toFixed(6)))).toEqual([2, -3, 1]);
+		expect(fit.r2).toBeCloseTo(1);
+
+		const cubic = [0, 1, 2, 3, 4].map((x) => ({ x, y: x ** 3 }));
+		expect(predictFit(fitRegression(cubic, "poly3")!, 5)).toBeCloseTo(125);
+	});
+
+	it("should fit large X values such as dates", () => {
+		const day = 86_400_000;
+		const start = Date.UTC(2026, 0, 1);
+		const points = [0, 1, 2, 3].map((i) => ({ x: start + i * day, y: 10 + 3 * i }));
+		const fit = fitRegression(points, "poly2")!;
+		expect(predictFit(fit, start + 4 * day)).toBeCloseTo(22, 3);
+	});
+
+	it("should fit a logarithm, skipping X <= 0", () => {
+		const points = [0, 1, 2, 4, 8].map((x) => ({ x, y: x > 0 ? 3 * Math.log(x) + 1 : 99 }));
+		const fit = fitRegression(points, "log")!;
+		expect(fit.coefficients[0]).toBeCloseTo(1);
+		expect(fit.coefficients[1]).toBeCloseTo(3);
+		expect(predictFit(fit, 0)).toBeNaN();
+	});
+
+	it("should give a lower R² for noisy points", () => {
+		const noisy = [1, 2, 3, 4, 5].map((x, i) => ({ x, y: x + (i % 2 ? 2 : -2) }));
+		const fit = fitRegression(noisy, "linear")!;
+		expect(fit.r2).toBeGreaterThan(0);
+		expect(fit.r2).toBeLessThan(0.5);
+	});
+
+	it("should need more distinct X values than the degree", () => {
+		expect(fitRegression([{ x: 1, y: 1 }], "linear")).toBeNull();
+		expect(fitRegression([{ x: 1, y: 1 }, { x: 1, y: 2 }, { x: 2, y: 3 }], "poly2")).toBeNull();
+	});
+});
+
+describe("formatEquation", () => {
+	it("should write the terms from the highest power", () => {
+		expect(formatEquation(fitRegression(line, "linear")!)).toBe("y = 2x + 1");
+		expect(formatEquation({ kind: "poly2", coefficients: [2, -3, 0.5], r2: 1 })).toBe("y = 0.5x² − 3x + 2");
+		expect(formatEquation({ kind: "log", coefficients: [-1, 1], r2: 1 })).toBe("y = ln(x) − 1");
+		expect(formatEquation({ kind: "linear", coefficients: [0, 0], r2: 0 })).toBe("y = 0");
+	});
+});
+
+describe("findOutliers", () => {
+	const points = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((x) => ({ x, y: x === 7 ? 40 : x }));
+
+	it("should flag points far from the fit", () => {
+		const fit = fitRegression(points, "linear");
+		expect(findOutliers(points, fit, 2)).toEqual([6]);
+		expect(findOutliers(points, fit, 5)).toEqual([]);
+	});
+
+	it("should use the average of Y without a fit", () => {
+		expect(findOutliers(points, null)).toEqual([6]);
+		expect(findOutliers(line, null)).toEqual([]);
+	});
+});
@@ -0,0 +1,56 @@
+/**
+ * Tests for bubble sizes (scatter size encoding)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+	BUBBLE_MAX_RADIUS,
+	BUBBLE_MIN_RADIUS,
+	bubbleRadius,
+	parseSize,
+	sizeLegendValues,
+} from "../src/scatter-size";
+
+describe("parseSize", () => {
+	it("should read numbers, numeric text and the first item of lists", () => {
+		expect(parseSize(8)).toBe(8);
+		expect(parseSize(" 2.5 ")).toBe(2.5);
+		expect(parseSize(["3", "9"])).toBe(3);
+	});
+
+	it("should ignore missing and non-numeric values", () => {
+		expect(parseSize(null)).toBeUndefined();
+		expect(parseSize("")).toBeUndefined();
+		expect(parseSize("big")).toBeUndefined();
+		expect(parseSize(true)).toBeUndefined();
+	});
+});
+
+describe("bubbleRadius", () => {
+	it("should scale the area, not the radius", () => {
+		expect(bubbleRadius(100, 100)).toBe(BUBBLE_MAX_RADIUS);
+		expect(bubbleRadius(25, 100)).toBeCloseTo(BUBBLE_MAX_RADIUS / 2);
+		const area = (v: number) => Math.PI * bubbleRadius(v, 100) ** 2;
+		expect(area(50) / area(100)).toBeCloseTo(0.5);
+	});
+
+	it("should keep small, zero, negative and missing sizes visible", () => {
+		expect(bubbleRadius(0.001, 100)).toBe(BUBBLE_MIN_RADIUS);
+		expect(bubbleRadius(0, 100)).toBe(BUBBLE_MIN_RADIUS);
+		expect(bubbleRadius(-5, 100)).toBe(BUBBLE_MIN_RADIUS);
+		expect(bubbleRadius(undefined, 100)).toBe(BUBBLE_MIN_RADIUS);
+		expect(bubbleRadius(5, 0)).toBe(BUBBLE_MIN_RADIUS);
+	});
+});
+
+describe("sizeLegendValues", () => {
+	it("should give a quarter, a half and the largest size", () => {
+		expect(sizeLegendValues(40)).toEqual([10, 20, 40]);
+		expect(sizeLegendValues(37)).toEqual([9.3, 19, 37]);
+	});
+
+	it("should be empty without a positive size", () => {
+		expect(sizeLegendValues(0)).toEqual([]);
+		expect(sizeLegendValues(-3)).toEqual([]);
+	});
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for chart SVG export (legend, layout, serialization, file names)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+	buildExportSvg,
+	exportFileName,
+	layoutLegend,
+	readLegend,
+} from "../src/renderer/svg-export";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+function makeChart(): { container: HTMLElement; svg: SVGSVGElement } {
+	const container = document.createElement("div");
+	const inner = document.createElement("div");
+	inner.className = "chart-notes-inner";
+	const svg = document.createElementNS(SVG_NS, "svg") as SVGSVGElement;
+	svg.setAttribute("width", "100%");
+	svg.setAttribute("height", "200");
+	const rect = document.createElementNS(SVG_NS, "rect");
+	rect.setAttribute("fill", "#ff0000");
+	svg.appendChild(rect);
+	inner.appendChild(svg);
+	container.appendChild(inner);
+
+	const legend = document.createElement("div");
+	legend.className = "chart-notes-legend";
+	for (const [label, color] of [["Done", "rgb(0, 128, 0)"], ["Todo", "rgb(255, 0, 0)"]]) {
+		const item = document.createElement("div");
+		item.className = "chart-notes-legend-item";
+		const swatch = document.createElement("div");
+		swatch.style.backgroundColor = color;
+		const span = document.createElement("span");
+		span.textContent = label;
+		item.append(swatch, span);
+		legend.appendChild(item);
+	}
+	container.appendChild(legend);
+	return { container, svg };
+}
+
+describe("readLegend", () => {
+	it("should read labels and swatch colors", () => {
+		const { container } = makeChart();
+		expect(readLegend(container)).toEqual([
+			{ label: "Done", color: "rgb(0, 128, 0)" },
+			{ label: "Todo", color: "rgb(255, 0, 0)" },
+		]);
+	});
+
+	it("should be empty without a legend", () => {
+		expect(readLegend(document.createElement("div"))).toEqual([]);
+	});
+});
+
+describe("layoutLegend", () => {
+	it("should wrap items that don't fit the width", () => {
+		const items = ["Alpha", "Beta", "Gamma"].map((label) => ({ label, color: "#000" }));
+		expect(layoutLegend(items, 1000).map((p) => p.row)).toEqual([0, 0, 0]);
+		const narrow = layoutLegend(items, 100);
+		expect(narrow.map((p) => p.row)).toEqual([0, 1, 2]);
+		expect(narrow.every((p) => p.x === narrow[0].x)).toBe(true);
+	});
+});
+
+describe("buildExportSvg", () => {
+	it("should wrap the chart with a title, background and legend", () => {
+		const { container, svg } = makeChart();
+		const result = buildExportSvg(svg, {
+			width: 640,
+			height: 200,
+			title: "Tasks by status",
+			legend: readLegend(container),
+		});
+
+		expect(result.width).toBe(640);
+		// title (28) + chart (200) + one legend row (18 + 8)
+		expect(result.height).toBe(254);
+		expect(result.markup).toMatch(/^<\?xml/);
+		expect(result.markup).toContain(`xmlns="${SVG_NS}"`);
+		expect(result.markup).toContain("Tasks by status");
+		expect(result.markup).toContain("#ff0000");
+		expect(result.markup).toContain(">Done<");
+		expect(result.markup).toContain('fill="#ffffff"');
+
+		const doc = new DOMParser().parseFromString(result.markup, "image/svg+xml");
+		const nested = doc.documentElement.querySelector("svg");
+		expect(nested?.getAttribute("width")).toBe("640");
+		expect(nested?.getAttribute("y")).toBe("28");
+	});
+
+	it("should leave the on-screen chart untouched", () => {
+		const { svg } = makeChart();
+		buildExportSvg(svg, { width: 300, height: 200, legend: [], background: "#222222" });
+		expect(svg.getAttribute("width")).toBe("100%");
+		expect(svg.hasAttribute("y")).toBe(false);
+	});
+
+	it("should skip the title row when there is no title", () => {
+		const { svg } = makeChart();
+		const result = buildExportSvg(svg, { width: 300, height: 200, legend: [], background: "#222222" });
+		expect(result.height).toBe(200);
+		expect(result.markup).toContain('fill="#222222"');
+	});
+});
+
+describe("exportFileName", () => {
+	const now = new Date(2026, 2, 5, 14, 7);
+
+	it("should add the date and time", () => {
+		expect(exportFileName("Tasks by status", "png", now)).toBe("Tasks by status 2026-03-05 1407.png");
+	});
+
+	it("should replace characters not allowed in file names", () => {
+		expect(exportFileName("Q1/Q2: [draft] #roadmap", "svg", now)).toBe(
+			"Q1-Q2- -draft- -roadmap 2026-03-05 1407.svg"
+		);
+		expect(exportFileName("  ", "svg", now)).toBe("Chart 2026-03-05 1407.svg");
+	});
+});